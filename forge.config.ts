@@ -1,3 +1,4 @@
+import { existsSync } from "node:fs";
 import type { ForgeConfig, ForgePackagerOptions } from "@electron-forge/shared-types";
 import { MakerSquirrel } from "@electron-forge/maker-squirrel";
 import { MakerZIP } from "@electron-forge/maker-zip";
@@ -25,9 +26,13 @@ function getConfig(buildPlatform: string, buildArch: string, targetPlatform: str
         schemes: ["iod"],
       },
     ],
-    extraResource: [
-      `binaries/${targetPlatform}/${targetArch}`,
-    ],
+    extraResource: [],
+  }
+
+  // binaries are optional on linux: the app falls back to the ones found on the user's PATH.
+  const binariesDir = `binaries/${targetPlatform}/${targetArch}`;
+  if (targetPlatform !== "linux" || existsSync(binariesDir)) {
+    packagerConfig.extraResource = [binariesDir];
   }
  
 
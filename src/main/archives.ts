@@ -0,0 +1,440 @@
+/**
+ * Archives module for the main process.
+ * MCP servers can be installed from a release archive (.tar.gz or .zip) instead of a git clone.
+ * Archives are downloaded, checked against the sha256 of the install config and extracted under
+ * ~/.iod/archives/<sha256>, so the same archive is only extracted once.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+import { createHash, randomUUID } from "node:crypto";
+import { gunzipSync, inflateRawSync } from "node:zlib";
+import {
+  existsSync,
+  mkdirSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+
+import { AppError, InstallCancelledError } from "../shared/error";
+import { logger } from "../shared/logger";
+import { DISCORD_URL } from "../shared/constants";
+
+import type { ArchiveSource } from "./installer";
+import { IOD_HOME } from "./storage";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * A file, directory or symbolic link read from an archive.
+ */
+type ArchiveEntry = {
+  /**
+   * The path of the entry in the archive, '/' separated.
+   */
+  path: string;
+  type: "file" | "directory" | "symlink";
+  /**
+   * The unix permissions of the entry, 0 if the archive doesn't record them.
+   */
+  mode: number;
+  data: Buffer;
+};
+
+// ============================
+// Constants
+// ============================
+
+const ARCHIVES_DIR = path.join(IOD_HOME, "archives");
+
+const TAR_BLOCK_SIZE = 512;
+
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Reads a NUL terminated string of a tar header field.
+ */
+function readTarString(header: Buffer, offset: number, length: number) {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString("utf-8", 0, end === -1 ? length : end);
+}
+
+/**
+ * Reads an octal number of a tar header field.
+ * @throws Error if the number uses the base-256 encoding of files over 8GB
+ */
+function readTarNumber(header: Buffer, offset: number, length: number) {
+  if (header[offset] & 0x80) {
+    throw new Error("Archive entries over 8GB are not supported.");
+  }
+  return parseInt(readTarString(header, offset, length).trim() || "0", 8);
+}
+
+/**
+ * Reads the entries of a tar archive (ustar, with the pax and GNU long names extensions).
+ * @param tar - The uncompressed archive
+ * @returns The entries of the archive, hard links and special files left out
+ */
+function readTarEntries(tar: Buffer) {
+  const entries: ArchiveEntry[] = [];
+  // the path given by a pax or GNU long name header for the next entry.
+  let nextPath: string | undefined = undefined;
+
+  let offset = 0;
+  while (offset + TAR_BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK_SIZE);
+    // the archive ends with empty blocks.
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readTarNumber(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+    const data = tar.subarray(
+      offset + TAR_BLOCK_SIZE,
+      offset + TAR_BLOCK_SIZE + size
+    );
+    offset +=
+      TAR_BLOCK_SIZE + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === "x") {
+      // pax records: "<length> <key>=<value>\n"
+      const pathRecord = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(
+        data.toString("utf-8")
+      );
+      nextPath = pathRecord ? pathRecord[1] : nextPath;
+      continue;
+    }
+    if (type === "L") {
+      nextPath = readTarString(data, 0, data.length);
+      continue;
+    }
+    if (type === "g") continue;
+
+    const prefix =
+      readTarString(header, 257, 6) === "ustar"
+        ? readTarString(header, 345, 155)
+        : "";
+    const name = readTarString(header, 0, 100);
+    const entryPath = nextPath ?? (prefix ? `${prefix}/${name}` : name);
+    nextPath = undefined;
+    const mode = readTarNumber(header, 100, 8);
+
+    if (type === "0" || type === "\0" || type === "7") {
+      entries.push({ path: entryPath, type: "file", mode, data });
+    } else if (type === "5") {
+      entries.push({ path: entryPath, type: "directory", mode, data });
+    } else if (type === "2") {
+      const target = Buffer.from(readTarString(header, 157, 100), "utf-8");
+      entries.push({ path: entryPath, type: "symlink", mode, data: target });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Reads the entries of a zip archive (stored or deflated, without zip64 and encryption).
+ * @param zip - The archive
+ * @returns The entries of the archive
+ * @throws Error if the archive is malformed or uses an unsupported feature
+ */
+function readZipEntries(zip: Buffer) {
+  // the end of central directory record is at the end, followed by a comment of up to 64KB.
+  let endOffset = zip.length - 22;
+  while (
+    endOffset >= Math.max(0, zip.length - 22 - 0xffff) &&
+    zip.readUInt32LE(endOffset) !== ZIP_END_OF_CENTRAL_DIRECTORY
+  ) {
+    endOffset--;
+  }
+  if (
+    endOffset < 0 ||
+    zip.readUInt32LE(endOffset) !== ZIP_END_OF_CENTRAL_DIRECTORY
+  ) {
+    throw new Error("Malformed zip archive: no end of central directory.");
+  }
+
+  const entryCount = zip.readUInt16LE(endOffset + 10);
+  let offset = zip.readUInt32LE(endOffset + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("Zip64 archives are not supported.");
+  }
+
+  const entries: ArchiveEntry[] = [];
+  for (let index = 0; index < entryCount; index++) {
+    if (zip.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Malformed zip archive: invalid central directory.");
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const mode = zip.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const entryPath = zip.toString(
+      "utf-8",
+      offset + 46,
+      offset + 46 + nameLength
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x1) {
+      throw new Error(
+        `Encrypted zip entries are not supported: '${entryPath}'.`
+      );
+    }
+    if (zip.readUInt32LE(localOffset) !== ZIP_LOCAL_FILE_HEADER) {
+      throw new Error(`Malformed zip archive: invalid entry '${entryPath}'.`);
+    }
+    const dataOffset =
+      localOffset +
+      30 +
+      zip.readUInt16LE(localOffset + 26) +
+      zip.readUInt16LE(localOffset + 28);
+    const compressed = zip.subarray(dataOffset, dataOffset + compressedSize);
+    if (method !== 0 && method !== 8) {
+      throw new Error(
+        `Unsupported compression method ${method} for '${entryPath}'.`
+      );
+    }
+    const data = method === 8 ? inflateRawSync(compressed) : compressed;
+    if (data.length !== size) {
+      throw new Error(`Malformed zip archive: truncated entry '${entryPath}'.`);
+    }
+
+    const type = entryPath.endsWith("/")
+      ? "directory"
+      : (mode & 0o170000) === 0o120000
+        ? "symlink"
+        : "file";
+    entries.push({ path: entryPath, type, mode: mode & 0o7777, data });
+  }
+  return entries;
+}
+
+/**
+ * Removes the directory wrapping all the entries of an archive, e.g. 'server-1.0.0/' in
+ * release archives, so that the root of the project is the root of the extracted archive.
+ * @param entries - The entries of the archive
+ * @returns The entries with their paths relative to the wrapping directory, if any
+ */
+function stripWrappingDir(entries: ArchiveEntry[]) {
+  const roots = new Set(entries.map((entry) => entry.path.split("/")[0]));
+  const [root] = roots;
+  const isWrapped =
+    roots.size === 1 &&
+    entries.every(
+      (entry) =>
+        entry.path.startsWith(`${root}/`) ||
+        (entry.path === root && entry.type === "directory")
+    );
+  if (!isWrapped) return entries;
+
+  return entries
+    .map((entry) => ({ ...entry, path: entry.path.slice(root.length + 1) }))
+    .filter((entry) => entry.path.replace(/\/$/, "") !== "");
+}
+
+/**
+ * Checks the entries of an archive stay inside the directory they are extracted into.
+ * @param entries - The entries of the archive
+ * @throws Error if an entry has an absolute path or goes up with '..'
+ */
+function assertSafeEntries(entries: ArchiveEntry[]) {
+  entries.forEach((entry) => {
+    if (
+      path.isAbsolute(entry.path) ||
+      /^[a-zA-Z]:/.test(entry.path) ||
+      entry.path.split(/[\\/]/).includes("..")
+    ) {
+      throw new Error(`Unsafe path in archive: '${entry.path}'.`);
+    }
+  });
+}
+
+/**
+ * Writes the entries of an archive in a directory.
+ * Symbolic links are skipped, they could point outside of the directory.
+ * @param entries - The entries of the archive, checked by assertSafeEntries
+ * @param dir - The directory to extract into
+ */
+function writeEntries(entries: ArchiveEntry[], dir: string) {
+  mkdirSync(dir, { recursive: true });
+  entries.forEach((entry) => {
+    const entryPath = path.join(dir, ...entry.path.split(/[\\/]/));
+
+    if (entry.type === "directory") {
+      mkdirSync(entryPath, { recursive: true });
+    } else if (entry.type === "file") {
+      mkdirSync(path.dirname(entryPath), { recursive: true });
+      writeFileSync(entryPath, entry.data, {
+        mode: entry.mode & 0o777 || 0o644,
+      });
+    } else {
+      logger.warn(`Skipped the symbolic link '${entry.path}' of an archive`);
+    }
+  });
+}
+
+/**
+ * Extracts a .tar.gz or .zip archive, recognized by its content.
+ * @param archive - The archive
+ * @param dir - The directory to extract into
+ * @throws Error if the archive is not a .tar.gz or .zip, is malformed or is unsafe
+ */
+function extractArchive(archive: Buffer, dir: string) {
+  let entries: ArchiveEntry[];
+  if (archive.subarray(0, 2).equals(GZIP_MAGIC)) {
+    entries = readTarEntries(gunzipSync(archive));
+  } else if (archive.subarray(0, 4).equals(ZIP_MAGIC)) {
+    entries = readZipEntries(archive);
+  } else {
+    throw new Error("Unsupported archive format, expected a .tar.gz or .zip.");
+  }
+  assertSafeEntries(entries);
+  writeEntries(stripWrappingDir(entries), dir);
+}
+
+/**
+ * Downloads a file, reporting the progress as it goes.
+ * @param url - The url of the file
+ * @param onProgress - Called with the percentage downloaded, if the size is known
+ * @param signal - Aborts the download
+ * @returns The content of the file
+ * @throws Error if the file can't be downloaded
+ */
+async function download(
+  url: string,
+  onProgress?: (phase: string, percent?: number) => void,
+  signal?: AbortSignal
+) {
+  const response = await fetch(url, { signal });
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `GET ${url} failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const total = Number(response.headers.get("content-length")) || undefined;
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  const reader = response.body.getReader();
+  for (
+    let chunk = await reader.read();
+    !chunk.done;
+    chunk = await reader.read()
+  ) {
+    chunks.push(chunk.value);
+    loaded += chunk.value.length;
+    onProgress?.(
+      "Downloading",
+      total ? Math.round((loaded / total) * 100) : undefined
+    );
+  }
+  return Buffer.concat(chunks);
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Gets the directory an archive is extracted into.
+ * @param source - The archive
+ * @returns The absolute path of the extracted archive: ~/.iod/archives/<sha256>
+ */
+export function getArchiveDir(source: ArchiveSource) {
+  return path.join(ARCHIVES_DIR, source.sha256.toLowerCase());
+}
+
+/**
+ * Checks whether a directory is an extracted archive.
+ * @param dir - The directory
+ * @returns true if the directory is the root of an extracted archive
+ */
+export function isArchiveDir(dir: string) {
+  return path.dirname(path.resolve(dir)) === ARCHIVES_DIR;
+}
+
+/**
+ * Downloads an archive, checks its sha256 and extracts it, see getArchiveDir for where.
+ * An archive already extracted is reused, nothing is left behind if the extraction fails.
+ * @param source - The url and sha256 of the archive
+ * @param onProgress - Called with the phase and percentage of the download as it goes
+ * @param signal - Aborts the download
+ * @returns The path to the directory the archive is extracted into
+ * @throws AppError if the archive can't be downloaded, doesn't match its sha256 or can't be extracted
+ * @throws InstallCancelledError if the download is aborted
+ */
+export async function downloadArchive(
+  source: ArchiveSource,
+  onProgress?: (phase: string, percent?: number) => void,
+  signal?: AbortSignal
+) {
+  const archiveDir = getArchiveDir(source);
+  const archiveName = new URL(source.url).pathname.split("/").pop();
+  // the directory is named by the sha256 of the archive and only renamed once extracted.
+  if (existsSync(archiveDir)) {
+    onProgress?.("Already downloaded", 100);
+    return archiveDir;
+  }
+
+  let archive: Buffer;
+  try {
+    archive = await download(source.url, onProgress, signal);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new InstallCancelledError({
+        developerMessage: "The install was cancelled.",
+      });
+    }
+    throw new AppError({
+      developerMessage: `Failed to download the archive ${source.url}.`,
+      userMessage: `We couldn't download the MCP server '${archiveName}' on your computer.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+
+  const sha256 = createHash("sha256").update(archive).digest("hex");
+  if (sha256 !== source.sha256.toLowerCase()) {
+    throw new AppError({
+      developerMessage: `The archive ${source.url} has sha256 ${sha256}, expected ${source.sha256}.`,
+      userMessage: `The download of the MCP server '${archiveName}' is not the expected file, it may have been tampered with. Nothing was installed.
+      Join our discord for support: ${DISCORD_URL}`,
+    });
+  }
+
+  const partialDir = `${archiveDir}.partial-${randomUUID()}`;
+  try {
+    onProgress?.("Extracting", undefined);
+    extractArchive(archive, partialDir);
+    renameSync(partialDir, archiveDir);
+    return archiveDir;
+  } catch (error) {
+    rmSync(partialDir, { recursive: true, force: true });
+    throw new AppError({
+      developerMessage: `Failed to extract the archive ${source.url}.`,
+      userMessage: `We couldn't extract the MCP server '${archiveName}' on your computer.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
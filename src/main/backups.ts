@@ -0,0 +1,149 @@
+/**
+ * Backups module for the main process.
+ * It keeps timestamped snapshots of the Claude Desktop App config file under ~/.iod/backups.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+} from "node:fs";
+
+import { IOD_HOME, writeFileAtomic } from "./storage";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * A snapshot of the Claude Desktop App config file.
+ */
+export type ConfigSnapshot = {
+  /**
+   * The identifier of the snapshot (its file name in the backups directory).
+   */
+  id: string;
+  /**
+   * When the snapshot was taken, as an ISO 8601 string.
+   */
+  createdAt: string;
+  /**
+   * The size of the snapshot in bytes.
+   */
+  size: number;
+};
+
+// ============================
+// Constants
+// ============================
+
+const BACKUPS_DIR = path.join(IOD_HOME, "backups");
+
+const SNAPSHOT_PREFIX = "claude_desktop_config.";
+const SNAPSHOT_SUFFIX = ".json";
+
+// older snapshots are pruned once this number is reached.
+const MAX_SNAPSHOTS = 50;
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Gets the absolute path of a snapshot from its id.
+ * @param snapshotId - The snapshot id
+ * @returns The snapshot path
+ * @throws Error if the id is not a snapshot file name (e.g. tries to escape the backups directory)
+ */
+function getSnapshotPath(snapshotId: string) {
+  if (
+    path.basename(snapshotId) !== snapshotId ||
+    !snapshotId.startsWith(SNAPSHOT_PREFIX) ||
+    !snapshotId.endsWith(SNAPSHOT_SUFFIX)
+  ) {
+    throw new Error(`Invalid config snapshot id '${snapshotId}'`);
+  }
+  return path.join(BACKUPS_DIR, snapshotId);
+}
+
+/**
+ * Removes the oldest snapshots to keep at most MAX_SNAPSHOTS.
+ */
+function pruneSnapshots() {
+  listSnapshots()
+    .slice(MAX_SNAPSHOTS)
+    .forEach((snapshot) => rmSync(getSnapshotPath(snapshot.id), { force: true }));
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Saves a new snapshot of the Claude Desktop App config file.
+ * @param content - The content of the config file to snapshot
+ * @returns The created snapshot id
+ */
+export function createSnapshot(content: string) {
+  if (!existsSync(BACKUPS_DIR)) {
+    mkdirSync(BACKUPS_DIR, { recursive: true });
+  }
+
+  // ':' is not allowed in file names on windows.
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  let snapshotId = `${SNAPSHOT_PREFIX}${timestamp}${SNAPSHOT_SUFFIX}`;
+  for (let i = 1; existsSync(getSnapshotPath(snapshotId)); i++) {
+    snapshotId = `${SNAPSHOT_PREFIX}${timestamp}-${i}${SNAPSHOT_SUFFIX}`;
+  }
+
+  writeFileAtomic(getSnapshotPath(snapshotId), content);
+  pruneSnapshots();
+
+  return snapshotId;
+}
+
+/**
+ * Lists the snapshots of the Claude Desktop App config file.
+ * @returns The snapshots, newest first
+ */
+export function listSnapshots(): ConfigSnapshot[] {
+  if (!existsSync(BACKUPS_DIR)) {
+    return [];
+  }
+
+  return readdirSync(BACKUPS_DIR)
+    .filter(
+      (fileName) =>
+        fileName.startsWith(SNAPSHOT_PREFIX) && fileName.endsWith(SNAPSHOT_SUFFIX)
+    )
+    .map((fileName) => {
+      const stats = statSync(path.join(BACKUPS_DIR, fileName));
+      return {
+        id: fileName,
+        createdAt: stats.mtime.toISOString(),
+        size: stats.size,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id)
+    );
+}
+
+/**
+ * Reads the content of a snapshot.
+ * @param snapshotId - The snapshot id
+ * @returns The content of the snapshot
+ * @throws Error if the snapshot does not exist or the id is invalid
+ */
+export function readSnapshot(snapshotId: string) {
+  return readFileSync(getSnapshotPath(snapshotId), "utf8");
+}
@@ -0,0 +1,231 @@
+/**
+ * Bundles module for the main process.
+ * It exports installed MCP servers to portable .iod.json bundles and installs the servers of a
+ * bundle on another machine through the install queue, like iod.ai urls.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { BrowserWindow, dialog } from "electron";
+
+import { AppError } from "../shared/error";
+import { DISCORD_URL } from "../shared/constants";
+
+import { getMCPServers, getDisabledMCPServers } from "./claude";
+import { getRepoSource } from "./clones";
+import {
+  type InstallConfig,
+  createInstallUrl,
+  validateInstallConfig,
+  unfixConfig,
+  getInstalledServers,
+} from "./installer";
+import { enqueueInstall } from "./queue";
+import { blankSecretEnv } from "./review";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * A portable bundle of MCP servers, as written in .iod.json files.
+ */
+export type ServerBundle = {
+  /**
+   * The version of the bundle format.
+   */
+  version: typeof BUNDLE_VERSION;
+  /**
+   * When the bundle was exported, as an ISO 8601 string.
+   */
+  exportedAt: string;
+  /**
+   * The install configs of the servers, as exported one server per install config.
+   */
+  servers: InstallConfig[];
+};
+
+// ============================
+// Constants
+// ============================
+
+const BUNDLE_VERSION = 1;
+
+const BUNDLE_FILE_FILTERS = [{ name: "iod bundle", extensions: ["json"] }];
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Parses and validates the content of a bundle file.
+ * @param content - The content of the bundle file
+ * @returns The bundle
+ * @throws AppError if the content is not a valid bundle
+ */
+export function parseBundle(content: string) {
+  try {
+    const bundle = JSON.parse(content) as ServerBundle;
+    if (bundle.version !== BUNDLE_VERSION || !Array.isArray(bundle.servers)) {
+      throw new Error(
+        `Unsupported bundle format (version '${bundle.version}').`
+      );
+    }
+    bundle.servers.forEach(validateInstallConfig);
+    return bundle;
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Failed to parse the server bundle.",
+      userMessage: `This file is not a valid iod server bundle.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Creates a bundle from installed MCP servers (enabled or disabled).
+ * Machine specific values and secret env values are stripped and cloned repositories are replaced
+ * by their git source, as recorded in the install manifest or read from the clone for servers
+ * installed before it. The secrets are asked to the user installing the bundle.
+ * @param serverNames - The names of the servers to export
+ * @returns The bundle
+ * @throws AppError if a server is not found or its repository can't be read
+ */
+export async function createBundle(serverNames: string[]) {
+  const installedServers = { ...getDisabledMCPServers(), ...getMCPServers() };
+  const installManifest = getInstalledServers();
+
+  const servers: InstallConfig[] = [];
+  for (const serverName of serverNames) {
+    const serverConfig = installedServers[serverName];
+    if (!serverConfig) {
+      throw new AppError({
+        developerMessage: `MCP server '${serverName}' not found.`,
+        userMessage: `The MCP server '${serverName}' doesn't exist anymore.`,
+      });
+    }
+
+    const { config, repoDir } = unfixConfig(serverConfig);
+    // bundles are shared, the secrets are left out and asked to whoever installs them.
+    config.env = blankSecretEnv(config.env);
+    const installConfig: InstallConfig = { config: { [serverName]: config } };
+    if (installManifest[serverName]?.git) {
+      // the server config may have been edited since, only its source is taken from the manifest.
+      installConfig.git = installManifest[serverName].git;
+    } else if (installManifest[serverName]?.source) {
+      installConfig.source = installManifest[serverName].source;
+    } else if (repoDir) {
+      try {
+        installConfig.git = await getRepoSource(repoDir);
+      } catch (error) {
+        throw new AppError({
+          developerMessage: `Failed to read the git source of '${serverName}' at '${repoDir}'.`,
+          userMessage: `We couldn't find where the MCP server '${serverName}' was downloaded from, it can't be exported.
+          Join our discord for support: ${DISCORD_URL}`,
+          originalError: error as Error,
+        });
+      }
+    }
+    if (installManifest[serverName]?.runtime) {
+      // unfixConfig removes the versions from the config, they were chosen at install.
+      installConfig.runtime = installManifest[serverName].runtime;
+    }
+    servers.push(installConfig);
+  }
+
+  const bundle: ServerBundle = {
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    servers,
+  };
+  return bundle;
+}
+
+/**
+ * Installs the servers of a bundle: each entry of the bundle is queued as an install of its own,
+ * so that it is reviewed by the user, checked against the trusted publishers and reported like
+ * the installs of iod.ai urls.
+ * @param bundle - The bundle to install
+ * @param mainWindow - The main window of the app, where the installs are reviewed
+ * @returns The ids of the queued installs, in the order of the bundle
+ */
+export function installBundle(
+  bundle: ServerBundle,
+  mainWindow?: BrowserWindow
+) {
+  return bundle.servers.map((installConfig) =>
+    enqueueInstall(createInstallUrl(installConfig), mainWindow)
+  );
+}
+
+/**
+ * Asks the user where to save a bundle of MCP servers and writes it.
+ * @param serverNames - The names of the servers to export
+ * @returns The path of the written bundle or undefined if the user cancelled
+ * @throws AppError if the bundle can't be created or written
+ */
+export async function exportBundle({ serverNames }: { serverNames: string[] }) {
+  const bundle = await createBundle(serverNames);
+
+  const options = {
+    title: "Export MCP servers",
+    defaultPath: "servers.iod.json",
+    filters: BUNDLE_FILE_FILTERS,
+  };
+  const window = BrowserWindow.getFocusedWindow();
+  const { canceled, filePath } = window
+    ? await dialog.showSaveDialog(window, options)
+    : await dialog.showSaveDialog(options);
+  if (canceled || !filePath) {
+    return undefined;
+  }
+
+  try {
+    writeFileSync(filePath, JSON.stringify(bundle, null, 2));
+  } catch (error) {
+    throw new AppError({
+      developerMessage: `Failed to write the server bundle to '${filePath}'.`,
+      userMessage: `We failed to save the bundle to '${filePath}'.`,
+      originalError: error as Error,
+    });
+  }
+  return filePath;
+}
+
+/**
+ * Asks the user for a bundle file and queues the install of its servers.
+ * @param mainWindow - The main window of the app, where the installs are reviewed
+ * @returns The ids of the queued installs or undefined if the user cancelled
+ * @throws AppError if the bundle can't be read or is invalid
+ */
+export async function importBundle(mainWindow?: BrowserWindow) {
+  const options = {
+    title: "Import MCP servers",
+    filters: BUNDLE_FILE_FILTERS,
+    properties: ["openFile" as const],
+  };
+  const window = BrowserWindow.getFocusedWindow();
+  const { canceled, filePaths } = window
+    ? await dialog.showOpenDialog(window, options)
+    : await dialog.showOpenDialog(options);
+  if (canceled || filePaths.length === 0) {
+    return undefined;
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(filePaths[0], "utf8");
+  } catch (error) {
+    throw new AppError({
+      developerMessage: `Failed to read the server bundle at '${filePaths[0]}'.`,
+      userMessage: `We failed to read the bundle '${filePaths[0]}'.`,
+      originalError: error as Error,
+    });
+  }
+
+  return installBundle(parseBundle(content), mainWindow);
+}
@@ -7,17 +7,44 @@
 // Imports
 // ============================
 
-import { watch, readFileSync, existsSync, writeFileSync } from "node:fs";
+import {
+  watch,
+  readFileSync,
+  existsSync,
+  writeFileSync,
+  mkdirSync,
+} from "node:fs";
 import path from "node:path";
 import os from "node:os";
+import { createHash } from "node:crypto";
 import { execSync, spawn } from "node:child_process";
 
 import type { BrowserWindow } from "electron";
 
-import { AppError } from "../shared/error";
+import { AppError, ConfigConflictError } from "../shared/error";
 import { logger } from "../shared/logger";
 import { sendToWindow } from "../shared/ipc";
 import { DISCORD_URL } from "../shared/constants";
+
+import { writeFileAtomic } from "./storage";
+import { createSnapshot, listSnapshots, readSnapshot } from "./backups";
+import {
+  getDisabledServers,
+  addDisabledServer,
+  removeDisabledServers,
+} from "./disabled";
+import { forgetInstalls, renameInstall } from "./manifest";
+import { type DiffLine, diffLines } from "./diff";
+import { threeWayMerge } from "./merge";
+import {
+  type ConfigDiagnostic,
+  validateConfig,
+  validateConfigStructure,
+  repairConfig,
+  formatDiagnostics,
+  validateMCPServerConfig,
+} from "./validation";
+
 // ============================
 // Type Definitions
 // ============================
@@ -42,6 +69,24 @@ export type ClaudeDesktopConfig = {
   [key: string]: unknown;
 };
 
+/**
+ * A preview of the repair of the Claude Desktop App config file.
+ */
+export type ConfigRepairPreview = {
+  /**
+   * Human readable descriptions of the fixes that would be applied.
+   */
+  fixes: string[];
+  /**
+   * The issues that would remain after the repair.
+   */
+  diagnostics: ConfigDiagnostic[];
+  /**
+   * The lines changed to go from the current config to the repaired one.
+   */
+  diff: DiffLine[];
+};
+
 // ============================
 // Constants
 // ============================
@@ -62,8 +107,17 @@ const CONFIG_PATHS = {
     "Claude",
     "claude_desktop_config.json"
   ),
+  // Claude Desktop has no official Linux build, community builds follow the XDG base directory spec.
+  linux: path.join(
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"),
+    "Claude",
+    "claude_desktop_config.json"
+  ),
 };
 
+// name of the launcher installed on the PATH by the community builds of Claude Desktop for Linux.
+const LINUX_CLAUDE_PROCESS_NAME = "claude-desktop";
+
 // ============================
 // Utility Functions
 // ============================
@@ -90,9 +144,143 @@ const CLAUDE_DESKTOP_CONFIG_PATH = getConfigPath();
 // if config path does not exist, create it
 // we assume it exists in the rest of the codebase.
 if (!existsSync(CLAUDE_DESKTOP_CONFIG_PATH)) {
+  mkdirSync(path.dirname(CLAUDE_DESKTOP_CONFIG_PATH), { recursive: true });
   writeFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "{}");
 }
 
+/**
+ * The config file content as last read by iod, i.e. what the user was last shown.
+ * iod's changes are computed against it and merged with any change made on disk since.
+ */
+let lastReadConfig: { content: string; hash: string } | undefined = undefined;
+
+/**
+ * Hashes the content of the config file to detect changes made outside of iod.
+ * @param content - the content of the config file
+ * @returns the hash of the content
+ */
+function hashContent(content: string) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Makes sure the content of the config file can be safely used by iod.
+ * Only its structure is checked: Claude accepts some server configs iod doesn't write
+ * (e.g. a hand-edited numeric env value), they are reported by getConfigDiagnostics instead.
+ * @param content - the content of the config file
+ * @throws an AppError describing the issues if the config is not valid
+ */
+function assertValidConfig(content: string) {
+  const errors = validateConfigStructure(content).filter(
+    (diagnostic) => diagnostic.severity === "error"
+  );
+  if (errors.length > 0) {
+    throw new AppError({
+      developerMessage: `Invalid Claude Desktop App config file:\n${formatDiagnostics(errors)}`,
+      userMessage: `Your Claude Desktop App config file is invalid:
+      ${formatDiagnostics(errors)}
+      Use the config repair view to fix it or join our discord for support: ${DISCORD_URL}`,
+    });
+  }
+}
+
+/**
+ * Makes sure the server configs written by iod are valid.
+ * @param serverConfigs - the configs to write, by server name
+ * @throws an AppError describing the issues if a server config is not valid
+ */
+function assertValidServerConfigs(serverConfigs: {
+  [serverName: string]: MCPServerConfig;
+}) {
+  Object.entries(serverConfigs).forEach(([serverName, serverConfig]) => {
+    const errors = validateMCPServerConfig(serverName, serverConfig).filter(
+      (diagnostic) => diagnostic.severity === "error"
+    );
+    if (errors.length > 0) {
+      throw new AppError({
+        developerMessage: `Invalid config for MCP server '${serverName}':\n${formatDiagnostics(errors)}`,
+        userMessage: `The config of MCP server '${serverName}' is invalid:
+      ${formatDiagnostics(errors)}`,
+      });
+    }
+  });
+}
+
+/**
+ * Reads and parses the Claude Desktop App config file, remembering what was read.
+ * @returns the parsed config
+ * @throws an AppError if the config file is not valid
+ * @throws an error if the config file can't be read
+ */
+function readConfig() {
+  const content = readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8");
+  assertValidConfig(content);
+  const jsonConfig = JSON.parse(content) as ClaudeDesktopConfig;
+  lastReadConfig = { content, hash: hashContent(content) };
+  return jsonConfig;
+}
+
+/**
+ * Saves a new version of the Claude Desktop App config file.
+ * The current content is kept as a snapshot in the backups and the new content is written atomically.
+ * @param content - The new content of the config file
+ */
+function saveConfig(content: string) {
+  if (existsSync(CLAUDE_DESKTOP_CONFIG_PATH)) {
+    createSnapshot(readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8"));
+  }
+  writeFileAtomic(CLAUDE_DESKTOP_CONFIG_PATH, content);
+  lastReadConfig = { content, hash: hashContent(content) };
+}
+
+/**
+ * Applies a change to the Claude Desktop App config file.
+ * The change is applied to the config as last read by iod. If the file was changed on disk since
+ * (by Claude or by the user in a text editor), both changes are three-way merged so that only
+ * iod's intended change is applied on top of the current file.
+ * @param mutate - the change to apply, mutating the given config in place
+ * @throws a ConfigConflictError if the change conflicts with a change made on disk
+ * @throws an AppError if the config file is not valid
+ * @throws an error if the config file can't be read or written
+ */
+function updateConfig(mutate: (jsonConfig: ClaudeDesktopConfig) => void) {
+  const currentContent = readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8");
+  assertValidConfig(currentContent);
+  const base = lastReadConfig ?? {
+    content: currentContent,
+    hash: hashContent(currentContent),
+  };
+
+  let jsonConfig = JSON.parse(base.content) as ClaudeDesktopConfig;
+  mutate(jsonConfig);
+
+  if (hashContent(currentContent) !== base.hash) {
+    logger.info(
+      "Claude Desktop App config file changed since last read, merging changes."
+    );
+    const { merged, conflicts } = threeWayMerge(
+      JSON.parse(base.content) as ClaudeDesktopConfig,
+      jsonConfig,
+      JSON.parse(currentContent) as ClaudeDesktopConfig
+    );
+    if (conflicts.length > 0) {
+      // the file on disk is the new reference for what the user sees.
+      lastReadConfig = { content: currentContent, hash: hashContent(currentContent) };
+      throw new ConfigConflictError({
+        developerMessage: `Conflicting changes in the Claude Desktop App config file at: ${conflicts
+          .map((conflict) => conflict.path.join("."))
+          .join(", ")}.`,
+        userMessage: `Your Claude Desktop App config file was changed outside of iod and the change conflicts with ours.
+        We did not save our change to avoid overwriting yours, please review the conflict and try again.`,
+        conflicts,
+      });
+    }
+    jsonConfig = merged;
+  }
+
+  saveConfig(JSON.stringify(jsonConfig, null, 2));
+}
+
 // ============================
 // Exported Functions
 // ============================
@@ -107,26 +295,133 @@ export function writeMCPServerConfig(
   serverName: string,
   serverConfig: MCPServerConfig
 ) {
+  writeMCPServerConfigs({ [serverName]: serverConfig });
+}
+
+/**
+ * Writes several MCP server configs to the config file in a single write: either all
+ * of them are written or none.
+ * @param serverConfigs - the configs to write, by server name
+ * @throws an AppError if a server config is invalid or the config file is not found or is not a valid JSON file
+ */
+export function writeMCPServerConfigs(serverConfigs: {
+  [serverName: string]: MCPServerConfig;
+}) {
+  const serverNames = Object.keys(serverConfigs).join("', '");
+  assertValidServerConfigs(serverConfigs);
   try {
-    const config = readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8");
-    const jsonConfig = JSON.parse(config) as ClaudeDesktopConfig;
+    updateConfig((jsonConfig) => {
+      // if the mcpServers field is not present, create it
+      // this would be the case if we just created the config file for example.
+      if (!jsonConfig.mcpServers) {
+        jsonConfig.mcpServers = {};
+      }
 
-    // if the mcpServers field is not present, create it
-    // this would be the case if we just created the config file for example.
-    if (!jsonConfig.mcpServers) {
-      jsonConfig.mcpServers = {};
+      Object.assign(jsonConfig.mcpServers, serverConfigs);
+    });
+  } catch (error) {
+    // conflicts and invalid configs already carry a detailed message for the user.
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError({
+      developerMessage:
+        "Failed to write MCP server config to the Claude Desktop App config file.",
+      userMessage: `We failed to write MCP server '${serverNames}' to your Claude Desktop App config file.
+      We might not have proper access to the config file or the config file could be wrongly formatted.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Updates the config of an existing MCP server in the config file, and renames it if asked.
+ * A renamed server keeps its place in the config file and its install in the manifest.
+ * @param serverName - the name of the server to update
+ * @param serverConfig - the new config of the server
+ * @param newServerName - the new name of the server, unchanged if not provided
+ * @throws an AppError if the server config is invalid, the server is not found,
+ * another server (enabled or disabled) has the new name or the config file can't be updated
+ */
+export function updateMCPServer({
+  serverName,
+  serverConfig,
+  newServerName = serverName,
+}: {
+  serverName: string;
+  serverConfig: MCPServerConfig;
+  newServerName?: string;
+}) {
+  assertValidServerConfigs({ [newServerName]: serverConfig });
+
+  try {
+    updateConfig((jsonConfig) => {
+      if (!jsonConfig.mcpServers?.[serverName]) {
+        throw new AppError({
+          developerMessage: `MCP server '${serverName}' not found in the Claude Desktop App config file.`,
+          userMessage: `The MCP server '${serverName}' doesn't exist anymore in your Claude Desktop App config file.`,
+        });
+      }
+      if (newServerName === serverName) {
+        jsonConfig.mcpServers[serverName] = serverConfig;
+        return;
+      }
+      if (
+        jsonConfig.mcpServers[newServerName] ||
+        getDisabledServers()[newServerName]
+      ) {
+        throw new AppError({
+          developerMessage: `MCP server '${newServerName}' already exists.`,
+          userMessage: `Another MCP server named '${newServerName}' already exists, choose another name.`,
+        });
+      }
+      jsonConfig.mcpServers = Object.fromEntries(
+        Object.entries(jsonConfig.mcpServers).map(([name, config]) =>
+          name === serverName ? [newServerName, serverConfig] : [name, config]
+        )
+      );
+    });
+    if (newServerName !== serverName) {
+      renameInstall(serverName, newServerName);
+    }
+  } catch (error) {
+    // conflicts and invalid configs already carry a detailed message for the user.
+    if (error instanceof AppError) {
+      throw error;
     }
+    throw new AppError({
+      developerMessage:
+        "Failed to update MCP server config in the Claude Desktop App config file.",
+      userMessage: `We failed to update MCP server '${serverName}' in your Claude Desktop App config file.
+      We might not have proper access to the config file or the config file could be wrongly formatted.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
 
-    jsonConfig.mcpServers[serverName] = serverConfig;
-    writeFileSync(
-      CLAUDE_DESKTOP_CONFIG_PATH,
-      JSON.stringify(jsonConfig, null, 2)
-    );
+/**
+ * Replaces all the MCP servers of the config file at once, in a single atomic write.
+ * @param servers - the MCP servers to write, by server name
+ * @throws an AppError if the config file can't be updated
+ */
+export function replaceMCPServers(servers: {
+  [serverName: string]: MCPServerConfig;
+}) {
+  try {
+    updateConfig((jsonConfig) => {
+      jsonConfig.mcpServers = servers;
+    });
   } catch (error) {
+    // conflicts and invalid configs already carry a detailed message for the user.
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new AppError({
       developerMessage:
-        "Failed to write MCP server config to the Claude Desktop App config file.",
-      userMessage: `We failed to write MCP server '${serverName}' to your Claude Desktop App config file.
+        "Failed to replace the MCP servers of the Claude Desktop App config file.",
+      userMessage: `We failed to update the MCP servers of your Claude Desktop App config file.
       We might not have proper access to the config file or the config file could be wrongly formatted.
       Join our discord for support: ${DISCORD_URL}`,
       originalError: error as Error,
@@ -193,6 +488,33 @@ export function restartClaudeDesktop() {
     return "Claude Desktop App restarted";
   }
 
+  if (process.platform === "linux") {
+    let pids: number[] = [];
+    try {
+      pids = execSync(`pgrep -x ${LINUX_CLAUDE_PROCESS_NAME}`, { encoding: "utf8" })
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => Number(line.trim()));
+    } catch {
+      // pgrep exits with a non-zero code when no process matched: Claude is not running.
+    }
+
+    pids.forEach((pid) => process.kill(pid, "SIGTERM"));
+
+    // Once the process is stopped, start it again
+    setTimeout(() => {
+      const child = spawn(LINUX_CLAUDE_PROCESS_NAME, [], {
+        detached: true,
+        stdio: "ignore",
+      });
+      child.on("error", (error) => {
+        logger.error("Failed to start the Claude Desktop App", error);
+      });
+      child.unref();
+    }, 1000); // Wait 1 second before restarting
+    return "Claude Desktop App restarted";
+  }
+
   throw new Error(
     `Restarting Claude Desktop is not supported on this platform: ${process.platform}`
   );
@@ -212,15 +534,61 @@ export function watchClaudeDesktopConfig(mainWindow: BrowserWindow) {
     return false;
   }
 
-  const watcher = watch(CLAUDE_DESKTOP_CONFIG_PATH);
+  // we watch the parent directory rather than the file itself: atomic writes (ours or
+  // Claude's) replace the file, which would silently end a watcher bound to the old file.
+  const configFileName = path.basename(CLAUDE_DESKTOP_CONFIG_PATH);
+  const watcher = watch(path.dirname(CLAUDE_DESKTOP_CONFIG_PATH));
+  // the collisions with disabled servers the user was told about, to tell them only once.
+  let notifiedCollisions = new Set<string>();
 
-  watcher.on("change", (event) => {
-    if (event !== "change") return;
+  watcher.on("change", (_event, fileName) => {
+    if (fileName?.toString() !== configFileName) return;
+    // the file is briefly missing while being replaced, the next event will catch up.
+    if (!existsSync(CLAUDE_DESKTOP_CONFIG_PATH)) return;
 
     try {
-      const config = readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8");
-      const jsonConfig = JSON.parse(config) as ClaudeDesktopConfig;
-      sendToWindow(mainWindow, "claude:config-changed", { config: jsonConfig });
+      // invalid server configs are reported in the config repair view on the config change.
+      const diagnostics = validateConfigStructure(
+        readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8")
+      );
+      const errors = diagnostics.filter(
+        (diagnostic) => diagnostic.severity === "error"
+      );
+      if (errors.length > 0) {
+        sendToWindow(mainWindow, "claude:config-invalid", { diagnostics });
+        sendToWindow(mainWindow, "notify", {
+          type: "error",
+          title: "Claude Desktop App Config Error",
+          message: `We detected a change in your Claude Desktop App config but it is invalid:
+          ${formatDiagnostics(errors)}
+          Use the config repair view to fix it.`,
+        });
+        return;
+      }
+
+      const jsonConfig = readConfig();
+      const disabledServers = getDisabledServers();
+      // a server added to the config (by hand or by Claude) named like a disabled server doesn't
+      // replace it, the user chooses which one to keep, as when enabling the disabled server.
+      const collisions = Object.keys(jsonConfig.mcpServers ?? {}).filter(
+        (serverName) => serverName in disabledServers
+      );
+      const newCollisions = collisions.filter(
+        (serverName) => !notifiedCollisions.has(serverName)
+      );
+      notifiedCollisions = new Set(collisions);
+      if (newCollisions.length > 0) {
+        sendToWindow(mainWindow, "notify", {
+          type: "info",
+          title: "MCP Server Name Collision",
+          message: `Your Claude Desktop App config has MCP servers named like your disabled servers: ${newCollisions.join(", ")}.
+          Delete or rename them before enabling the disabled ones.`,
+        });
+      }
+      sendToWindow(mainWindow, "claude:config-changed", {
+        config: jsonConfig,
+        disabledServers,
+      });
     } catch (error) {
       logger.error(
         "Failed to read / parse the Claude Desktop App config file",
@@ -243,13 +611,13 @@ export function watchClaudeDesktopConfig(mainWindow: BrowserWindow) {
 
 /**
  * Gets the MCP servers from the Claude Desktop App config file.
+ * The servers whose config is invalid are returned as is, see getConfigDiagnostics for their issues.
  * @returns the MCP servers
  * @throws An AppError if the config file is not found or is not a valid JSON file
  */
 export function getMCPServers() {
   try {
-    const config = readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8");
-    const jsonConfig = JSON.parse(config) as ClaudeDesktopConfig;
+    const jsonConfig = readConfig();
 
     // initially, the config file might not have the mcpServers field.
     if (!jsonConfig.mcpServers) {
@@ -258,6 +626,9 @@ export function getMCPServers() {
 
     return jsonConfig.mcpServers;
   } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new AppError({
       developerMessage:
         "Failed to read or parse the Claude Desktop App config file.",
@@ -271,20 +642,49 @@ export function getMCPServers() {
 }
 
 /**
- * Deletes an MCP server from the Claude Desktop App config file.
+ * Deletes an MCP server from the Claude Desktop App config file (or from the disabled servers).
+ * An enabled and a disabled server can share a name, the caller tells which one to delete.
  * @param serverName - the name of the server to delete
+ * @param disabled - whether to delete the disabled server rather than the enabled one
  * @throws an AppError if the server is not found or the config file is not found or is not a valid JSON file
  */
-export function deleteMCPServer({ serverName }: { serverName: string }) {
+export function deleteMCPServer({
+  serverName,
+  disabled = false,
+}: {
+  serverName: string;
+  disabled?: boolean;
+}) {
   try {
-    const config = readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8");
-    const jsonConfig = JSON.parse(config) as ClaudeDesktopConfig;
-    delete jsonConfig.mcpServers[serverName];
-    writeFileSync(
-      CLAUDE_DESKTOP_CONFIG_PATH,
-      JSON.stringify(jsonConfig, null, 2)
-    );
+    if (disabled) {
+      if (!(serverName in getDisabledServers())) {
+        throw new AppError({
+          developerMessage: `MCP server '${serverName}' not found in the disabled servers.`,
+          userMessage: `The MCP server '${serverName}' is not disabled.`,
+        });
+      }
+      removeDisabledServers([serverName]);
+    } else {
+      updateConfig((jsonConfig) => {
+        if (!jsonConfig.mcpServers?.[serverName]) {
+          throw new AppError({
+            developerMessage: `MCP server '${serverName}' not found in the Claude Desktop App config file.`,
+            userMessage: `The MCP server '${serverName}' doesn't exist anymore in your Claude Desktop App config file.`,
+          });
+        }
+        delete jsonConfig.mcpServers[serverName];
+      });
+    }
+    // the metadata is kept while the other server of the same name is installed.
+    const otherServers = disabled ? getMCPServers() : getDisabledServers();
+    if (!(serverName in otherServers)) {
+      forgetInstalls([serverName]);
+    }
   } catch (error) {
+    // conflicts and invalid configs already carry a detailed message for the user.
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new AppError({
       developerMessage:
         "Failed to delete MCP server from the Claude Desktop App config file.",
@@ -295,3 +695,250 @@ export function deleteMCPServer({ serverName }: { serverName: string }) {
     });
   }
 }
+
+/**
+ * Gets the disabled MCP servers, kept by iod out of the Claude Desktop App config file.
+ * @returns the disabled MCP servers
+ * @throws an AppError if the disabled servers can't be read
+ */
+export function getDisabledMCPServers() {
+  try {
+    return getDisabledServers();
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Failed to read the disabled MCP servers.",
+      userMessage: `We failed to retrieve your disabled MCP servers.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Disables an MCP server: its config is moved out of the Claude Desktop App config file
+ * into iod's disabled servers so that Claude doesn't launch it anymore.
+ * @param serverName - the name of the server to disable
+ * @throws an AppError if the server is not found or the config can't be moved
+ */
+export function disableMCPServer({ serverName }: { serverName: string }) {
+  const serverConfig = getMCPServers()[serverName];
+  if (!serverConfig) {
+    throw new AppError({
+      developerMessage: `MCP server '${serverName}' not found in the Claude Desktop App config file.`,
+      userMessage: `The MCP server '${serverName}' doesn't exist anymore in your Claude Desktop App config file.`,
+    });
+  }
+
+  try {
+    // store the config first so that it is never lost if removing it from the config fails.
+    addDisabledServer(serverName, serverConfig);
+    try {
+      updateConfig((jsonConfig) => {
+        delete jsonConfig.mcpServers[serverName];
+      });
+    } catch (error) {
+      removeDisabledServers([serverName]);
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError({
+      developerMessage: `Failed to disable MCP server '${serverName}'.`,
+      userMessage: `We failed to disable MCP server '${serverName}'.
+      We might not have access to the config file or the config file could be wrongly formatted.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Enables a disabled MCP server: its config is moved back into the Claude Desktop App config file.
+ * @param serverName - the name of the server to enable
+ * @throws an AppError if the server is not disabled, a server with the same name
+ * already exists in the config or the config can't be moved
+ */
+export function enableMCPServer({ serverName }: { serverName: string }) {
+  try {
+    const serverConfig = getDisabledServers()[serverName];
+    if (!serverConfig) {
+      throw new AppError({
+        developerMessage: `MCP server '${serverName}' not found in the disabled servers.`,
+        userMessage: `The MCP server '${serverName}' is not disabled.`,
+      });
+    }
+
+    updateConfig((jsonConfig) => {
+      if (!jsonConfig.mcpServers) {
+        jsonConfig.mcpServers = {};
+      }
+      if (jsonConfig.mcpServers[serverName]) {
+        throw new AppError({
+          developerMessage: `MCP server '${serverName}' already exists in the Claude Desktop App config file.`,
+          userMessage: `Another MCP server named '${serverName}' already exists in your Claude Desktop App config file.
+          Delete or rename it before enabling this one.`,
+        });
+      }
+      jsonConfig.mcpServers[serverName] = serverConfig;
+    });
+    removeDisabledServers([serverName]);
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError({
+      developerMessage: `Failed to enable MCP server '${serverName}'.`,
+      userMessage: `We failed to enable MCP server '${serverName}'.
+      We might not have access to the config file or the config file could be wrongly formatted.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Lists the snapshots taken of the Claude Desktop App config file.
+ * @returns The snapshots, newest first
+ * @throws an AppError if the backups directory can't be read
+ */
+export function listConfigSnapshots() {
+  try {
+    return listSnapshots();
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Failed to list the Claude Desktop App config snapshots.",
+      userMessage: `We failed to list the backups of your Claude Desktop App config file.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Diffs the current Claude Desktop App config file against a snapshot.
+ * @param snapshotId - the id of the snapshot to compare with
+ * @returns the lines changed to go from the current config to the snapshot
+ * @throws an AppError if the snapshot or the config file can't be read
+ */
+export function diffConfigSnapshot({ snapshotId }: { snapshotId: string }) {
+  try {
+    const config = readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8");
+    return diffLines(config, readSnapshot(snapshotId));
+  } catch (error) {
+    throw new AppError({
+      developerMessage: `Failed to diff the Claude Desktop App config file against snapshot '${snapshotId}'.`,
+      userMessage: `We failed to compare your Claude Desktop App config file with the selected backup.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Restores a snapshot of the Claude Desktop App config file.
+ * The current config is itself snapshotted first so the restore can be undone.
+ * @param snapshotId - the id of the snapshot to restore
+ * @throws an AppError if the snapshot can't be read or the config file can't be written
+ */
+export function restoreConfigSnapshot({ snapshotId }: { snapshotId: string }) {
+  try {
+    saveConfig(readSnapshot(snapshotId));
+  } catch (error) {
+    throw new AppError({
+      developerMessage: `Failed to restore the Claude Desktop App config snapshot '${snapshotId}'.`,
+      userMessage: `We failed to restore the selected backup of your Claude Desktop App config file.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Validates the Claude Desktop App config file.
+ * @returns the issues found, empty if the config is valid
+ * @throws an AppError if the config file can't be read
+ */
+export function getConfigDiagnostics() {
+  try {
+    return validateConfig(readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8"));
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Failed to read the Claude Desktop App config file.",
+      userMessage: `We failed to read your Claude Desktop App config file.
+      We might not have access to the config file.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Previews the repair of the Claude Desktop App config file without writing it.
+ * @returns the fixes, the remaining issues and the diff of the repair
+ * @throws an AppError if the config file can't be read
+ */
+export function previewConfigRepair(): ConfigRepairPreview {
+  try {
+    const content = readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8");
+    const { content: repaired, fixes, diagnostics } = repairConfig(content);
+    return { fixes, diagnostics, diff: diffLines(content, repaired) };
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Failed to preview the repair of the Claude Desktop App config file.",
+      userMessage: `We failed to read your Claude Desktop App config file.
+      We might not have access to the config file.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Repairs the Claude Desktop App config file (see previewConfigRepair).
+ * The current config is snapshotted first so the repair can be undone.
+ * @throws an AppError if the config can't be repaired automatically or can't be written
+ */
+export function applyConfigRepair() {
+  let repair: ReturnType<typeof repairConfig>;
+  try {
+    const content = readFileSync(CLAUDE_DESKTOP_CONFIG_PATH, "utf8");
+    repair = repairConfig(content);
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Failed to read the Claude Desktop App config file to repair it.",
+      userMessage: `We failed to read your Claude Desktop App config file.
+      We might not have access to the config file.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+
+  const errors = repair.diagnostics.filter(
+    (diagnostic) => diagnostic.severity === "error"
+  );
+  if (errors.length > 0) {
+    throw new AppError({
+      developerMessage: `Claude Desktop App config file can't be repaired automatically:\n${formatDiagnostics(errors)}`,
+      userMessage: `We can't repair your Claude Desktop App config file automatically, please fix these issues by hand:
+      ${formatDiagnostics(errors)}`,
+    });
+  }
+
+  if (repair.fixes.length === 0) {
+    return;
+  }
+
+  try {
+    saveConfig(repair.content);
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Failed to write the repaired Claude Desktop App config file.",
+      userMessage: `We failed to write the repaired Claude Desktop App config file.
+      We might not have proper access to the config file.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Clones module for the main process.
+ * Repositories are cloned under ~/.iod/repos/<host>/<owner>/<repo>/<commit> so that repositories
+ * of the same name from different owners, or several commits of a repository, live side by side.
+ * Clones made before this layout (~/.iod/<repo>) are migrated to it.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+import fs, {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  rmdirSync,
+  rmSync,
+} from "node:fs";
+import { getConfig, readCommit, resolveRef } from "isomorphic-git";
+
+import { logger } from "../shared/logger";
+
+import {
+  type MCPServerConfig,
+  getMCPServers,
+  getDisabledMCPServers,
+  writeMCPServerConfigs,
+} from "./claude";
+import { addDisabledServer } from "./disabled";
+import { isArchiveDir } from "./archives";
+import type { GitSource } from "./installer";
+import { getInstallManifest, recordInstall } from "./manifest";
+import { updateProfileServers } from "./profiles";
+import { IOD_HOME, isInIODHome } from "./storage";
+
+// ============================
+// Constants
+// ============================
+
+const REPOS_DIR = path.join(IOD_HOME, "repos");
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Points the arguments of a MCP server config using a clone to another directory.
+ * @param config - The config of the server
+ * @param oldDir - The directory the config uses
+ * @param newDir - The directory to use instead
+ * @returns The updated config, the same config if it doesn't use oldDir
+ */
+function relocateConfig(
+  config: MCPServerConfig,
+  oldDir: string,
+  newDir: string
+) {
+  if (!config.args?.some((arg) => path.resolve(arg) === oldDir)) {
+    return config;
+  }
+  return {
+    ...config,
+    args: config.args.map((arg) =>
+      path.resolve(arg) === oldDir ? newDir : arg
+    ),
+  };
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Parses the url of a git repository, scp-like urls (e.g. git@github.com:owner/repo.git) included.
+ * @param repoUrl - The url of the repository
+ * @returns The host name, the port if any and the path of the repository on the host
+ * @throws Error if the url is neither a url nor a scp-like url
+ */
+export function parseRepoUrl(repoUrl: string) {
+  const scpMatch = /^[^@/]+@([^:/]+):(.+)$/.exec(repoUrl);
+  if (scpMatch) {
+    const [, hostname, repoPath] = scpMatch;
+    return { hostname, port: "", repoPath };
+  }
+  const url = new URL(repoUrl);
+  return { hostname: url.hostname, port: url.port, repoPath: url.pathname };
+}
+
+/**
+ * Gets the directory a git repository is cloned into at a given commit.
+ * @param git - The repository and commit
+ * @returns The absolute path of the clone: ~/.iod/repos/<host>/<owner>/<repo>/<commit>
+ * @throws Error if the repository url can't be turned into a directory
+ */
+export function getCloneDir({ repo_url: repoUrl, commit }: GitSource) {
+  const { hostname, port, repoPath } = parseRepoUrl(repoUrl);
+  const host = port ? `${hostname}_${port}` : hostname;
+
+  const segments = [
+    host.toLowerCase(),
+    ...repoPath
+      .replace(/\.git\/?$/, "")
+      .split("/")
+      .filter(Boolean),
+    commit,
+  ];
+  if (
+    segments.length < 3 ||
+    segments.some(
+      (segment) =>
+        segment === "." || segment === ".." || /[\\:*?"<>|]/.test(segment)
+    )
+  ) {
+    throw new Error(
+      `Can't get a clone directory for '${repoUrl}' at '${commit}'.`
+    );
+  }
+  return path.join(REPOS_DIR, ...segments);
+}
+
+/**
+ * Gets the directory a MCP server runs from: its subdirectory of the clone, if any.
+ * @param git - The repository, commit and subdirectory of the server
+ * @returns The absolute path of the directory of the server
+ */
+export function getServerDir(git: GitSource) {
+  const cloneDir = getCloneDir(git);
+  return git.subdirectory ? path.join(cloneDir, git.subdirectory) : cloneDir;
+}
+
+/**
+ * Gets the clone (or extracted archive) a directory in IOD_HOME belongs to, e.g. the monorepo
+ * of a server.
+ * @param dir - The directory, the clone or one of its subdirectories
+ * @returns The root of the clone or the directory itself if it's not part of a clone
+ */
+export function getCloneRoot(dir: string) {
+  for (
+    let root = path.resolve(dir);
+    isInIODHome(root);
+    root = path.dirname(root)
+  ) {
+    if (existsSync(path.join(root, ".git")) || isArchiveDir(root)) return root;
+  }
+  return path.resolve(dir);
+}
+
+/**
+ * Gets the git repository a directory was cloned from.
+ * @param repoDir - The directory of the cloned repository or of a server in it
+ * @returns The url of the repository, the commit checked out and the subdirectory of repoDir
+ */
+export async function getRepoSource(repoDir: string): Promise<GitSource> {
+  const cloneDir = getCloneRoot(repoDir);
+  const repoUrl = await getConfig({
+    fs,
+    dir: cloneDir,
+    path: "remote.origin.url",
+  });
+  const commit = await resolveRef({ fs, dir: cloneDir, ref: "HEAD" });
+  if (typeof repoUrl !== "string") {
+    throw new Error(`No remote url found for the repository at '${repoDir}'.`);
+  }
+  const subdirectory = path
+    .relative(cloneDir, path.resolve(repoDir))
+    .split(path.sep)
+    .join("/");
+  return subdirectory
+    ? { repo_url: repoUrl, commit, subdirectory }
+    : { repo_url: repoUrl, commit };
+}
+
+/**
+ * Gets the commit checked out by a complete clone of a repository.
+ * isomorphic-git only points HEAD to the commit once it's checked out, a clone interrupted while
+ * downloading or checking out has no HEAD commit.
+ * @param repoDir - The directory of the clone
+ * @param repoUrl - The url of the repository the clone must come from
+ * @returns The commit checked out or undefined if the directory is not a complete clone of the repository
+ */
+export async function getClonedCommit(repoDir: string, repoUrl: string) {
+  try {
+    const { repo_url: clonedUrl, commit } = await getRepoSource(repoDir);
+    if (clonedUrl !== repoUrl) return undefined;
+    await readCommit({ fs, dir: repoDir, oid: commit });
+    return commit;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Removes the directories left empty under ~/.iod/repos by the removal of a clone.
+ * @param repoDir - The directory of the removed clone
+ */
+export function pruneCloneParents(repoDir: string) {
+  let dir = path.dirname(path.resolve(repoDir));
+  while (dir.startsWith(REPOS_DIR + path.sep) && existsSync(dir)) {
+    if (readdirSync(dir).length > 0) return;
+    rmdirSync(dir);
+    dir = path.dirname(dir);
+  }
+}
+
+/**
+ * Moves the clones made directly under ~/.iod by previous versions of the app to their
+ * directory in ~/.iod/repos, and points the servers (enabled, disabled, in profiles and in
+ * the install manifest) to it. A clone that can't be moved is left as is and retried on the
+ * next run. The virtual environment of a moved clone is removed, it only works where it was created.
+ * It must run in turn with the installs (see runExclusive), which use the same clones.
+ */
+export async function migrateLegacyClones() {
+  const enabledServers = getMCPServers();
+  const disabledServers = getDisabledMCPServers();
+  const manifest = getInstallManifest();
+
+  // legacy clones by directory, with the source recorded at install if any.
+  const legacyClones = new Map<string, GitSource | undefined>();
+  Object.entries({ ...disabledServers, ...enabledServers }).forEach(
+    ([serverName, serverConfig]) => {
+      (serverConfig.args ?? [])
+        .map((arg) => path.resolve(arg))
+        .filter(
+          (arg) =>
+            path.dirname(arg) === IOD_HOME && existsSync(path.join(arg, ".git"))
+        )
+        .forEach((repoDir) => {
+          const recordedSource =
+            manifest[serverName]?.repoDir &&
+            path.resolve(manifest[serverName].repoDir as string) === repoDir
+              ? manifest[serverName].git
+              : undefined;
+          legacyClones.set(
+            repoDir,
+            recordedSource ?? legacyClones.get(repoDir)
+          );
+        });
+    }
+  );
+
+  for (const [oldDir, recordedSource] of legacyClones) {
+    let newDir: string;
+    try {
+      newDir = getCloneDir(recordedSource ?? (await getRepoSource(oldDir)));
+      if (existsSync(newDir)) {
+        throw new Error(`'${newDir}' already exists.`);
+      }
+      mkdirSync(path.dirname(newDir), { recursive: true });
+      renameSync(oldDir, newDir);
+    } catch (error) {
+      logger.error(
+        `Failed to migrate the clone at '${oldDir}'`,
+        error as Error
+      );
+      continue;
+    }
+
+    const relocatedServers: { [serverName: string]: MCPServerConfig } = {};
+    Object.entries(enabledServers).forEach(([serverName, serverConfig]) => {
+      const relocatedConfig = relocateConfig(serverConfig, oldDir, newDir);
+      if (relocatedConfig !== serverConfig) {
+        relocatedServers[serverName] = relocatedConfig;
+      }
+    });
+    try {
+      if (Object.keys(relocatedServers).length > 0) {
+        writeMCPServerConfigs(relocatedServers);
+        Object.assign(enabledServers, relocatedServers);
+      }
+    } catch (error) {
+      // the enabled servers must keep working, move the clone back where they expect it.
+      logger.error(
+        `Failed to update the servers using '${oldDir}'`,
+        error as Error
+      );
+      renameSync(newDir, oldDir);
+      continue;
+    }
+
+    // the virtual environment of uv holds absolute paths to the old directory (in the shebangs of
+    // its scripts and in pyvenv.cfg), uv creates it again in the new directory on the next run.
+    try {
+      rmSync(path.join(newDir, ".venv"), { recursive: true, force: true });
+    } catch (error) {
+      logger.error(
+        `Failed to remove the virtual environment moved to '${newDir}'`,
+        error as Error
+      );
+    }
+
+    // the other servers only run once enabled or applied, failing to update them is not fatal.
+    try {
+      Object.entries(disabledServers).forEach(([serverName, serverConfig]) => {
+        const relocatedConfig = relocateConfig(serverConfig, oldDir, newDir);
+        if (relocatedConfig !== serverConfig) {
+          addDisabledServer(serverName, relocatedConfig);
+        }
+      });
+      updateProfileServers((serverConfig) =>
+        relocateConfig(serverConfig, oldDir, newDir)
+      );
+      Object.entries(manifest)
+        .filter(
+          ([, installedServer]) =>
+            installedServer.repoDir &&
+            path.resolve(installedServer.repoDir) === oldDir
+        )
+        .forEach(([serverName, installedServer]) =>
+          recordInstall(serverName, { ...installedServer, repoDir: newDir })
+        );
+    } catch (error) {
+      logger.error(
+        `Failed to update the disabled servers, profiles or manifest using '${oldDir}'`,
+        error as Error
+      );
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Command line module for the main process.
+ * It parses the command line of a MCP server config (its command followed by its args) into the
+ * chain of programs it runs, e.g. 'uvx omproxy@latest --name x uv --directory X run y' is uvx
+ * running the omproxy package, which wraps uv, which runs y. Tokens are only read as programs or
+ * options where the syntax of the program running them says so, an argument that happens to be
+ * 'uv' is never mistaken for uv.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * The part of the command line syntax of a program needed to find what it runs.
+ */
+export type CommandSyntax = {
+  /**
+   * The options of the program followed by a value, e.g. '--directory' for uv.
+   */
+  optionsWithValue?: string[];
+  /**
+   * The number of positional args of the program before the program it runs, e.g. 1 for
+   * 'uv run <command>' or 'fnmx <version> <command>'.
+   */
+  positionals?: number;
+  /**
+   * What the program runs after its options and positional args: a command (e.g. uv run) or a
+   * package (e.g. uvx). Programs that run nothing are not parsed further.
+   */
+  runs?: "command" | "package";
+};
+
+/**
+ * Gets the syntax of a program, undefined when unknown.
+ */
+export type SyntaxLookup = (
+  program: string,
+  kind: CommandNode["kind"]
+) => CommandSyntax | undefined;
+
+/**
+ * A program of a command line.
+ */
+export type CommandNode = {
+  /**
+   * The name of the program: its binary without path and extension, or its package without version.
+   */
+  program: string;
+  kind: "command" | "package";
+  /**
+   * The index of the program in the command line.
+   */
+  index: number;
+  /**
+   * The options of the program before the program it runs, with the index of their value if any.
+   * The value of an option given as '--flag=value' is at the index of the option.
+   */
+  options: { flag: string; index: number; valueIndex?: number }[];
+  /**
+   * The indexes of the positional args of the program before the program it runs.
+   */
+  positionals: number[];
+};
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Gets the name of the program of a command line token.
+ * @param token - The token, e.g. '/opt/iod/uvx.exe' or 'omproxy@latest'
+ * @param kind - Whether the token is a command or a package
+ * @returns The name, e.g. 'uvx' or 'omproxy'
+ */
+export function getProgramName(token: string, kind: CommandNode["kind"]) {
+  if (kind === "package") {
+    // @scope/name@version or name@version
+    return token.replace(/^(@?[^@]+)@.*$/, "$1");
+  }
+  return path.basename(token.replace(/\\/g, "/")).replace(/\.exe$/i, "");
+}
+
+/**
+ * Parses a command line into the chain of programs it runs.
+ * @param argv - The command line: the command of a MCP server config followed by its args
+ * @param getSyntax - Gets the syntax of the programs
+ * @returns The programs, each one run by the one before it
+ */
+export function parseCommandLine(
+  argv: string[],
+  getSyntax: SyntaxLookup
+): CommandNode[] {
+  const nodes: CommandNode[] = [];
+  let index = 0;
+  let kind: CommandNode["kind"] = "command";
+
+  while (index < argv.length) {
+    const program = getProgramName(argv[index], kind);
+    const node: CommandNode = {
+      program,
+      kind,
+      index,
+      options: [],
+      positionals: [],
+    };
+    nodes.push(node);
+
+    const syntax = getSyntax(program, kind);
+    if (!syntax?.runs) break;
+
+    // reads options and positional args until the program it runs.
+    let runIndex: number | undefined = undefined;
+    let endOfOptions = false;
+    for (let i = index + 1; i < argv.length; i++) {
+      const token = argv[i];
+      if (!endOfOptions && token === "--") {
+        endOfOptions = true;
+      } else if (!endOfOptions && token.length > 1 && token.startsWith("-")) {
+        const [flag] = token.split("=", 1);
+        if (token.includes("=")) {
+          node.options.push({ flag, index: i, valueIndex: i });
+        } else if (
+          syntax.optionsWithValue?.includes(flag) &&
+          i + 1 < argv.length
+        ) {
+          node.options.push({ flag, index: i, valueIndex: i + 1 });
+          i++;
+        } else {
+          node.options.push({ flag, index: i });
+        }
+      } else if (node.positionals.length < (syntax.positionals ?? 0)) {
+        node.positionals.push(i);
+      } else {
+        runIndex = i;
+        break;
+      }
+    }
+
+    if (runIndex === undefined) break;
+    index = runIndex;
+    kind = syntax.runs;
+  }
+
+  return nodes;
+}
+
+/**
+ * Gets the value of an option of a program.
+ * @param argv - The command line
+ * @param option - The option, as parsed by parseCommandLine
+ * @returns The value or undefined if the option has none
+ */
+export function getOptionValue(
+  argv: string[],
+  { index, valueIndex }: CommandNode["options"][number]
+) {
+  if (valueIndex === undefined) return undefined;
+  return valueIndex === index
+    ? argv[index].slice(argv[index].indexOf("=") + 1)
+    : argv[valueIndex];
+}
+
+/**
+ * Sets the value of an option of a program.
+ * @param argv - The command line
+ * @param option - The option, as parsed by parseCommandLine
+ * @param value - The new value
+ * @returns A new command line updated
+ * @throws Error if the option has no value
+ */
+export function setOptionValue(
+  argv: string[],
+  { flag, index, valueIndex }: CommandNode["options"][number],
+  value: string
+) {
+  if (valueIndex === undefined) {
+    throw new Error(`Option ${flag} has no value to set.`);
+  }
+  const returnedArgv = Array.from(argv);
+  returnedArgv[valueIndex] = valueIndex === index ? `${flag}=${value}` : value;
+  return returnedArgv;
+}
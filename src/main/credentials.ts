@@ -0,0 +1,418 @@
+/**
+ * Credentials module for the main process.
+ * It lets the installer clone private repositories: credentials are asked to the user when a git
+ * host refuses a clone, and stored encrypted per host under ~/.iod/credentials.json, with Electron
+ * safeStorage when available or a key of the app otherwise.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  randomUUID,
+} from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { type BrowserWindow, safeStorage } from "electron";
+import type {
+  AuthCallback,
+  AuthFailureCallback,
+  GitAuth,
+} from "isomorphic-git";
+
+import { AppError, InstallCancelledError } from "../shared/error";
+import { logger } from "../shared/logger";
+import { sendToWindow } from "../shared/ipc";
+import { DISCORD_URL } from "../shared/constants";
+
+import { parseRepoUrl } from "./clones";
+import { IOD_HOME, readJSONFile, writeJSONFile } from "./storage";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * The credentials of a git host: an access token or a username and password.
+ */
+export type GitCredentials =
+  | { type: "token"; token: string }
+  | { type: "basic"; username: string; password: string };
+
+/**
+ * A request for the credentials of a git host, answered by the user in the renderer.
+ */
+export type CredentialsRequest = {
+  requestId: string;
+  /**
+   * The install cloning the repository.
+   */
+  installId: string;
+  host: string;
+  repoUrl: string;
+  /**
+   * Whether the host refused the credentials given before.
+   */
+  rejected: boolean;
+};
+
+/**
+ * The answer of the user to a credentials request.
+ */
+export type CredentialsAnswer = {
+  /**
+   * The credentials to clone with, undefined if the user declined.
+   */
+  credentials?: GitCredentials;
+  /**
+   * Whether to store the credentials for the next clones from the host, once accepted by it.
+   */
+  remember: boolean;
+};
+
+/**
+ * A git host credentials are stored for.
+ */
+export type StoredCredentialsHost = {
+  host: string;
+  type: GitCredentials["type"];
+  /**
+   * How the credentials are encrypted on disk.
+   */
+  encryption: "safeStorage" | "aes-256-gcm";
+};
+
+/**
+ * The credentials as stored on disk, by host.
+ */
+type StoredCredentials = {
+  [host: string]: {
+    type: GitCredentials["type"];
+    encryption: StoredCredentialsHost["encryption"];
+    /**
+     * The encrypted JSON of the credentials, base64 encoded.
+     */
+    data: string;
+  };
+};
+
+/**
+ * Asks the user for the credentials of a git host.
+ */
+export type CredentialsPrompt = (
+  request: Omit<CredentialsRequest, "requestId" | "installId">
+) => Promise<CredentialsAnswer>;
+
+// ============================
+// Constants
+// ============================
+
+const CREDENTIALS_PATH = path.join(IOD_HOME, "credentials.json");
+
+// key of the fallback encryption, used when the OS keychain isn't available to safeStorage.
+const CREDENTIALS_KEY_PATH = path.join(IOD_HOME, "credentials.key");
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * The credentials requests waiting for an answer of the user, by request id: settled with the
+ * answer of the user, or cancelled when the renderer showing the request is gone.
+ */
+const pendingRequests = new Map<
+  string,
+  {
+    settle: (answer: CredentialsAnswer) => void;
+    cancel: () => void;
+  }
+>();
+
+/**
+ * Gets the key of the fallback encryption, created on first use and only readable by the user.
+ * @returns The AES-256 key
+ */
+function getFallbackKey() {
+  if (!existsSync(CREDENTIALS_KEY_PATH)) {
+    mkdirSync(IOD_HOME, { recursive: true });
+    writeFileSync(CREDENTIALS_KEY_PATH, randomBytes(32), { mode: 0o600 });
+  }
+  return readFileSync(CREDENTIALS_KEY_PATH);
+}
+
+/**
+ * Encrypts credentials, with safeStorage if available.
+ * @param credentials - The credentials to encrypt
+ * @returns The encryption used and the encrypted credentials, base64 encoded
+ */
+function encryptCredentials(credentials: GitCredentials) {
+  const plaintext = JSON.stringify(credentials);
+  if (safeStorage.isEncryptionAvailable()) {
+    return {
+      encryption: "safeStorage" as const,
+      data: safeStorage.encryptString(plaintext).toString("base64"),
+    };
+  }
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getFallbackKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf-8"),
+    cipher.final(),
+  ]);
+  return {
+    encryption: "aes-256-gcm" as const,
+    data: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+      "base64"
+    ),
+  };
+}
+
+/**
+ * Decrypts stored credentials.
+ * @param stored - The stored credentials
+ * @returns The credentials
+ * @throws Error if the credentials can't be decrypted
+ */
+function decryptCredentials(stored: StoredCredentials[string]): GitCredentials {
+  const data = Buffer.from(stored.data, "base64");
+  if (stored.encryption === "safeStorage") {
+    return JSON.parse(safeStorage.decryptString(data));
+  }
+
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    getFallbackKey(),
+    data.subarray(0, 12)
+  );
+  decipher.setAuthTag(data.subarray(12, 28));
+  return JSON.parse(
+    Buffer.concat([
+      decipher.update(data.subarray(28)),
+      decipher.final(),
+    ]).toString("utf-8")
+  );
+}
+
+/**
+ * Turns credentials into the username and password sent to the git host.
+ * Tokens are sent as the password, GitHub and GitLab accept any username with them.
+ * @param credentials - The credentials
+ * @returns The auth of isomorphic-git
+ */
+function toGitAuth(credentials: GitCredentials): GitAuth {
+  return credentials.type === "token"
+    ? { username: "oauth2", password: credentials.token }
+    : { username: credentials.username, password: credentials.password };
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Gets the host credentials are stored for from the url of a repository.
+ * Cleartext http urls have their own credentials, so that the credentials given for a host over
+ * https are never sent in clear text to a http url of the same host.
+ * @param repoUrl - The url of the repository, scp-like urls included
+ * @returns The host, with its port if any, prefixed with http:// for http urls
+ * @throws Error if the url is not a repository url
+ */
+export function getCredentialsHost(repoUrl: string) {
+  const { hostname, port } = parseRepoUrl(repoUrl);
+  const host = (port ? `${hostname}:${port}` : hostname).toLowerCase();
+  return /^http:/i.test(repoUrl) ? `http://${host}` : host;
+}
+
+/**
+ * Gets the credentials stored for a git host.
+ * @param host - The host
+ * @returns The credentials or undefined if none are stored or they can't be decrypted
+ */
+export function getStoredCredentials(host: string) {
+  const stored = readJSONFile<StoredCredentials>(CREDENTIALS_PATH, {})[host];
+  if (!stored) return undefined;
+  try {
+    return decryptCredentials(stored);
+  } catch (error) {
+    logger.error(
+      `Failed to decrypt the credentials of '${host}'`,
+      error as Error
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Stores the credentials of a git host, replacing the ones stored before.
+ * @param host - The host
+ * @param credentials - The credentials
+ * @throws AppError if the credentials can't be stored
+ */
+export function storeCredentials(host: string, credentials: GitCredentials) {
+  try {
+    const storedCredentials = readJSONFile<StoredCredentials>(
+      CREDENTIALS_PATH,
+      {}
+    );
+    storedCredentials[host] = {
+      type: credentials.type,
+      ...encryptCredentials(credentials),
+    };
+    writeJSONFile(CREDENTIALS_PATH, storedCredentials, 0o600);
+  } catch (error) {
+    throw new AppError({
+      developerMessage: `Failed to store the credentials of '${host}'.`,
+      userMessage: `We failed to save your credentials for ${host}, you will be asked for them again.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Lists the git hosts credentials are stored for.
+ * @returns The hosts, sorted
+ */
+export function listCredentialsHosts(): StoredCredentialsHost[] {
+  return Object.entries(readJSONFile<StoredCredentials>(CREDENTIALS_PATH, {}))
+    .map(([host, { type, encryption }]) => ({ host, type, encryption }))
+    .sort((a, b) => a.host.localeCompare(b.host));
+}
+
+/**
+ * Forgets the credentials stored for a git host.
+ * @param host - The host
+ */
+export function forgetCredentials({ host }: { host: string }) {
+  const storedCredentials = readJSONFile<StoredCredentials>(
+    CREDENTIALS_PATH,
+    {}
+  );
+  if (!(host in storedCredentials)) return;
+  delete storedCredentials[host];
+  writeJSONFile(CREDENTIALS_PATH, storedCredentials, 0o600);
+}
+
+/**
+ * Asks the user for the credentials of a git host in the renderer and waits for the answer.
+ * @param request - The host and repository, and whether credentials were rejected before
+ * @param mainWindow - The main window of the app, without it no credentials are given
+ * @param signal - Cancels the request, as if the user declined
+ * @returns The answer of the user
+ * @throws InstallCancelledError if the request is cancelled by cancelCredentialsRequests
+ */
+export function requestCredentials(
+  request: Omit<CredentialsRequest, "requestId">,
+  mainWindow?: BrowserWindow,
+  signal?: AbortSignal
+) {
+  return new Promise<CredentialsAnswer>((resolve, reject) => {
+    if (!mainWindow || signal?.aborted) {
+      resolve({ remember: false });
+      return;
+    }
+
+    const requestId = randomUUID();
+    const cleanUp = () => {
+      pendingRequests.delete(requestId);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const settle = (answer: CredentialsAnswer) => {
+      cleanUp();
+      resolve(answer);
+    };
+    const cancel = () => {
+      cleanUp();
+      reject(
+        new InstallCancelledError({
+          developerMessage:
+            "The credentials request was closed before the user answered.",
+        })
+      );
+    };
+    const onAbort = () => settle({ remember: false });
+    signal?.addEventListener("abort", onAbort);
+
+    pendingRequests.set(requestId, { settle, cancel });
+    sendToWindow(mainWindow, "installer:credentials-request", {
+      ...request,
+      requestId,
+    });
+  });
+}
+
+/**
+ * Answers a credentials request.
+ * @param requestId - The id of the request
+ * @param credentials - The credentials given by the user, undefined if declined
+ * @param remember - Whether to store the credentials once accepted by the host
+ * @throws AppError if the request is not waiting for an answer anymore
+ */
+export function respondCredentials({
+  requestId,
+  credentials,
+  remember,
+}: CredentialsAnswer & { requestId: string }) {
+  const pendingRequest = pendingRequests.get(requestId);
+  if (!pendingRequest) {
+    throw new AppError({
+      developerMessage: `Credentials request '${requestId}' is not pending.`,
+      userMessage: "The download is not waiting for your credentials anymore.",
+    });
+  }
+  pendingRequest.settle({ credentials, remember });
+}
+
+/**
+ * Cancels the credentials requests waiting for an answer of the user, e.g. when the window
+ * showing them is closed or reloaded: their clones would hold the install queue forever.
+ */
+export function cancelCredentialsRequests() {
+  Array.from(pendingRequests.values()).forEach(({ cancel }) => cancel());
+}
+
+/**
+ * Creates the auth callbacks of isomorphic-git for a repository: the stored credentials of its
+ * host are tried first, then the user is prompted until the host accepts or the user declines.
+ * Credentials given by the user are stored once accepted, if the user asked to remember them.
+ * @param repoUrl - The url of the repository
+ * @param prompt - Asks the user for credentials, without it only the stored credentials are tried
+ * @returns The callbacks to pass to clone or fetch
+ */
+export function createGitAuth(repoUrl: string, prompt?: CredentialsPrompt) {
+  const host = getCredentialsHost(repoUrl);
+  let answer: CredentialsAnswer | undefined = undefined;
+
+  const askUser = async (rejected: boolean) => {
+    answer = prompt ? await prompt({ host, repoUrl, rejected }) : undefined;
+    return answer?.credentials
+      ? toGitAuth(answer.credentials)
+      : { cancel: true };
+  };
+
+  const onAuth: AuthCallback = () => {
+    const storedCredentials = getStoredCredentials(host);
+    return storedCredentials ? toGitAuth(storedCredentials) : askUser(false);
+  };
+  const onAuthFailure: AuthFailureCallback = () => askUser(true);
+  const onAuthSuccess = () => {
+    if (answer?.credentials && answer.remember) {
+      try {
+        storeCredentials(host, answer.credentials);
+      } catch (error) {
+        // the clone goes on, the user is asked for the credentials again next time.
+        logger.error(
+          `Failed to remember the credentials of '${host}'`,
+          error as Error
+        );
+      }
+    }
+  };
+
+  return { onAuth, onAuthFailure, onAuthSuccess };
+}
@@ -0,0 +1,73 @@
+/**
+ * Diff module for the main process.
+ * It computes line based diffs between two texts (e.g. two versions of a config file).
+ */
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * A line of a diff between two texts.
+ */
+export type DiffLine = {
+  type: "added" | "removed" | "unchanged";
+  line: string;
+};
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Computes a line based diff to go from `before` to `after`.
+ * it uses the longest common subsequence of lines, which is fine for config files.
+ * @param before - The original text
+ * @param after - The updated text
+ * @returns The list of diff lines in order
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  return diffItems(before.split("\n"), after.split("\n"));
+}
+
+/**
+ * Computes a diff to go from a list of items to another, e.g. the args of two commands.
+ * @param a - The original items
+ * @param b - The updated items
+ * @returns The list of diff lines in order, one per item
+ */
+export function diffItems(a: string[], b: string[]): DiffLine[] {
+  // lcs[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "unchanged", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", line: a[i] });
+      i++;
+    } else {
+      lines.push({ type: "added", line: b[j] });
+      j++;
+    }
+  }
+  a.slice(i).forEach((line) => lines.push({ type: "removed", line }));
+  b.slice(j).forEach((line) => lines.push({ type: "added", line }));
+
+  return lines;
+}
@@ -0,0 +1,72 @@
+/**
+ * Disabled module for the main process.
+ * It keeps the config of disabled MCP servers under ~/.iod/disabled.json, out of the
+ * Claude Desktop App config file so that Claude doesn't launch them.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+
+import type { MCPServerConfig } from "./claude";
+import { IOD_HOME, readJSONFile, writeJSONFile } from "./storage";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * The disabled MCP servers, by server name.
+ */
+export type DisabledServers = {
+  [serverName: string]: MCPServerConfig;
+};
+
+// ============================
+// Constants
+// ============================
+
+const DISABLED_SERVERS_PATH = path.join(IOD_HOME, "disabled.json");
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Gets the disabled MCP servers.
+ * @returns The disabled servers, by server name
+ */
+export function getDisabledServers() {
+  return readJSONFile<DisabledServers>(DISABLED_SERVERS_PATH, {});
+}
+
+/**
+ * Stores the config of a disabled MCP server.
+ * @param serverName - The name of the server
+ * @param serverConfig - The config of the server
+ */
+export function addDisabledServer(
+  serverName: string,
+  serverConfig: MCPServerConfig
+) {
+  const disabledServers = getDisabledServers();
+  disabledServers[serverName] = serverConfig;
+  writeJSONFile(DISABLED_SERVERS_PATH, disabledServers);
+}
+
+/**
+ * Removes MCP servers from the disabled servers.
+ * @param serverNames - The names of the servers to remove
+ */
+export function removeDisabledServers(serverNames: string[]) {
+  const disabledServers = getDisabledServers();
+  const removed = serverNames.filter(
+    (serverName) => serverName in disabledServers
+  );
+  if (removed.length === 0) return;
+
+  removed.forEach((serverName) => delete disabledServers[serverName]);
+  writeJSONFile(DISABLED_SERVERS_PATH, disabledServers);
+}
@@ -8,48 +8,160 @@
 // ============================
 
 import path from "node:path";
-import os from "node:os";
-import fs, { existsSync, mkdirSync } from "node:fs";
+import { randomUUID } from "node:crypto";
+import fs, { existsSync, rmSync } from "node:fs";
 import http from "isomorphic-git/http/node";
 import { type BrowserWindow, app } from "electron";
-import { clone } from "isomorphic-git";
+import {
+  type GitProgressEvent,
+  checkout,
+  clone,
+  fetch as gitFetch,
+} from "isomorphic-git";
 
-import { AppError } from "../shared/error";
+import {
+  AppError,
+  ConfigConflictError,
+  InstallCancelledError,
+} from "../shared/error";
 import { logger } from "../shared/logger";
 import { sendToWindow } from "../shared/ipc";
 import { DISCORD_URL } from "../shared/constants";
 
 import {
-  writeMCPServerConfig,
+  writeMCPServerConfigs,
   restartClaudeDesktop,
+  getMCPServers,
+  getDisabledMCPServers,
   MCPServerConfig,
 } from "./claude";
+import { downloadArchive, getArchiveDir } from "./archives";
+import { getCloneDir, getClonedCommit, getServerDir } from "./clones";
+import {
+  type CredentialsPrompt,
+  createGitAuth,
+  getCredentialsHost,
+  requestCredentials,
+} from "./credentials";
+import { addDisabledServer, removeDisabledServers } from "./disabled";
+import {
+  type RuntimeVersions,
+  adaptConfig,
+  getInterpreterVersions,
+  restoreConfig,
+} from "./runtimes";
+import { getSettings, isValidRuntimeVersions } from "./settings";
+import { getInstallManifest, recordInstall } from "./manifest";
+import { provisionServer } from "./provisioning";
+import {
+  type InstallReviewServer,
+  getMissingSecrets,
+  maskEnv,
+  requestInstallReview,
+} from "./review";
+import { type PayloadSignature, checkInstallConfigSignature } from "./signatures";
 
 // ============================
 // Type Definitions
 // ============================
 
+// a git repository at a given commit.
+export type GitSource = {
+  repo_url: string;
+  commit: string;
+  // directory of the server in the repository (e.g. 'src/fetch' in a monorepo), the root if not given.
+  subdirectory?: string;
+};
+
+// a release archive (.tar.gz or .zip), checked against its sha256 before being extracted.
+export type ArchiveSource = {
+  url: string;
+  sha256: string;
+  // directory of the server in the archive, the root if not given.
+  subdirectory?: string;
+};
+
 // type passed in base64 through the iod protocol.
-type InstallConfig = {
+export type InstallConfig = {
   config: {
     [key: string]: MCPServerConfig;
   };
-  git?: {
-    repo_url: string;
-    commit: string;
+  // repository of all the servers of the config.
+  git?: GitSource;
+  // repository of each server, overriding 'git' (e.g. stacks of servers from several repositories).
+  git_by_server?: {
+    [key: string]: GitSource;
   };
+  // release archive of the servers without a git repository, instead of cloning one.
+  source?: ArchiveSource;
+  // versions of node and python the servers must run with, the defaults of the app settings otherwise.
+  runtime?: RuntimeVersions;
+  // signature of the publisher of the config, over the rest of the config.
+  signature?: PayloadSignature;
+};
+
+// steps of an install, in order. 'queue' is reported while waiting for the installs before it,
+// 'review' while waiting for the user approval, 'finish' once the whole install is over.
+export type InstallStep =
+  | "queue"
+  | "parse"
+  | "review"
+  | "clone"
+  | "fix"
+  | "provision"
+  | "write"
+  | "restart"
+  | "finish";
+
+// progress of an install streamed to the renderer.
+export type InstallProgress = {
+  // identifies the install the progress belongs to.
+  installId: string;
+  step: InstallStep;
+  status: "running" | "done" | "failed" | "cancelled";
+  // the server the step is about, for per-server steps (clone, fix).
+  serverName?: string;
+  message: string;
+  // completion of the step in percent, when known (clone).
+  percent?: number;
+  // the last lines of output of the step as it runs, when it runs commands (provision).
+  log?: string[];
+};
+
+// callback receiving the progress of an install.
+type InstallProgressCallback = (progress: Omit<InstallProgress, "installId">) => void;
+
+// what to do when a server of an install config has the name of a server already installed:
+// - replace: the installed server is replaced by the new one.
+// - keep-both: the new server is installed under a suffixed name.
+// - merge-env: the installed server is kept, only the env vars it doesn't have are added to it.
+export type CollisionResolution = "replace" | "keep-both" | "merge-env";
+
+// a server of an install config named like a server already installed.
+export type ServerCollision = {
+  // whether the installed server is enabled or disabled.
+  existing: "enabled" | "disabled";
+  // the name the new server gets if both are kept.
+  suffixedName: string;
+  // the env vars the installed server gets if the env vars are merged.
+  newEnvKeys: string[];
+};
+
+// outcome of the install of one of the servers of an install config.
+export type InstallResult = {
+  // the name the server was installed under.
+  serverName: string;
+  success: boolean;
+  // user-friendly error message if the install failed.
+  error?: string;
 };
 
 // ============================
 // Constants
 // ============================
 
-// define a home directory for iod. used to store app data (cloned mcp servers...)
-// we create it if it doesn't exists and assume it exists in the rest of the codebase.
-const IOD_HOME = path.join(os.homedir(), ".iod");
-if (!existsSync(IOD_HOME)) {
-  mkdirSync(IOD_HOME, { recursive: true });
-}
+// value of the repository directory arguments in a config that is not bound to a machine.
+const REPO_DIR_PLACEHOLDER = "{local_cloned_repository_path}";
 
 // ============================
 // Utility Functions
@@ -66,13 +178,7 @@ function parseInstallConfigUrl(url: string) {
     const base64Data = url.replace("iod://", "");
     const jsonStr = Buffer.from(base64Data, "base64").toString("utf-8");
     const installConfig = JSON.parse(jsonStr) as InstallConfig;
-
-    // for now we only support one mcp server to be installed at a time.
-    if (Object.keys(installConfig.config).length !== 1) {
-      throw new Error(
-        "Invalid install config: number of servers in config must be exactly 1"
-      );
-    }
+    validateInstallConfig(installConfig);
 
     return installConfig;
   } catch (error) {
@@ -86,31 +192,159 @@ function parseInstallConfigUrl(url: string) {
 }
 
 /**
- * Clones a git repository into the IOD_HOME directory.
+ * Finds the servers of an install config named like servers already installed (enabled or
+ * disabled) and the suffixed names they get if both servers are kept.
+ * @param installConfig - The install config of the MCP servers
+ * @returns The collisions, by server name
+ */
+function getCollisions(installConfig: InstallConfig) {
+  const enabledServers = getMCPServers();
+  const disabledServers = getDisabledMCPServers();
+  const takenNames = new Set([
+    ...Object.keys(enabledServers),
+    ...Object.keys(disabledServers),
+    ...Object.keys(installConfig.config),
+  ]);
+
+  const collisions: { [serverName: string]: ServerCollision } = {};
+  Object.entries(installConfig.config).forEach(([serverName, serverConfig]) => {
+    const existingConfig = enabledServers[serverName] ?? disabledServers[serverName];
+    if (!existingConfig) return;
+
+    let suffix = 2;
+    while (takenNames.has(`${serverName}-${suffix}`)) {
+      suffix++;
+    }
+    const suffixedName = `${serverName}-${suffix}`;
+    takenNames.add(suffixedName);
+
+    collisions[serverName] = {
+      existing: serverName in enabledServers ? "enabled" : "disabled",
+      suffixedName,
+      newEnvKeys: Object.keys(serverConfig.env ?? {}).filter(
+        (key) => !(key in (existingConfig.env ?? {}))
+      ),
+    };
+  });
+  return collisions;
+}
+
+/**
+ * Stops an install if it was cancelled.
+ * @param signal - The signal of the install
+ * @throws InstallCancelledError if the signal is aborted
+ */
+function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new InstallCancelledError({
+      developerMessage: "The install was cancelled.",
+    });
+  }
+}
+
+/**
+ * Clones a git repository at a commit, see getCloneDir for where.
+ * An existing clone of the repository is reused if it's at the commit and moved to the commit in
+ * place otherwise. A partial or corrupt clone, e.g. left by a crash, is removed and cloned again.
  * @param repoUrl - The url of the git repository
  * @param commit - The commit to clone at
- * @param repoName - The name of the repository
+ * @param repoDir - The directory to clone into
+ * @param onProgress - Called with the phase and percentage of the clone as it goes
+ * @param signal - Aborts the clone, the partially cloned directory is removed
+ * @param promptCredentials - Asks the user for credentials when the host refuses the clone,
+ * without it only the stored credentials of the host are tried
  * @returns The path to the directory created
+ * @throws InstallCancelledError if the clone is aborted
  */
-async function gitClone(repoUrl: string, commit: string, repoName: string) {
-  try {
-    const repoDir = path.join(IOD_HOME, repoName);
-
-  await clone({
-    fs,
-    http,
-    dir: repoDir,
-    url: repoUrl,
-    ref: commit,
-    singleBranch: true,
-    depth: 1,
-  });
+async function gitClone(
+  repoUrl: string,
+  commit: string,
+  repoDir: string,
+  onProgress?: (phase: string, percent?: number) => void,
+  signal?: AbortSignal,
+  promptCredentials?: CredentialsPrompt
+) {
+  const auth = createGitAuth(repoUrl, promptCredentials);
+  // isomorphic-git awaits the progress callback, throwing from it stops the clone.
+  const onGitProgress = ({ phase, loaded, total }: GitProgressEvent) => {
+    throwIfCancelled(signal);
+    onProgress?.(phase, total ? Math.round((loaded / total) * 100) : undefined);
+  };
 
+  throwIfCancelled(signal);
+  const clonedCommit = existsSync(repoDir)
+    ? await getClonedCommit(repoDir, repoUrl)
+    : undefined;
+  if (clonedCommit === commit) {
+    onProgress?.("Already downloaded", 100);
+    return repoDir;
+  }
+
+  if (clonedCommit) {
+    try {
+      await gitFetch({
+        fs,
+        http,
+        dir: repoDir,
+        ref: commit,
+        singleBranch: true,
+        depth: 1,
+        onProgress: onGitProgress,
+        ...auth,
+      });
+      await checkout({ fs, dir: repoDir, ref: commit, force: true });
+      return repoDir;
+    } catch (error) {
+      // HEAD is only moved once checked out, an interrupted update is retried on the next install.
+      if (error instanceof InstallCancelledError) {
+        throw error;
+      }
+      logger.error(
+        `Failed to update the clone at '${repoDir}' to ${commit}, cloning it again`,
+        error as Error
+      );
+    }
+  }
+
+  if (existsSync(repoDir)) {
+    logger.warn(`Removing the partial or outdated clone at '${repoDir}'`);
+    rmSync(repoDir, { recursive: true, force: true });
+  }
+  try {
+    await clone({
+      fs,
+      http,
+      dir: repoDir,
+      url: repoUrl,
+      ref: commit,
+      singleBranch: true,
+      depth: 1,
+      onProgress: onGitProgress,
+      ...auth,
+    });
     return repoDir;
   } catch (error) {
+    // never leave a partial clone behind, it would break the next install of the repository.
+    rmSync(repoDir, { recursive: true, force: true });
+    if (error instanceof InstallCancelledError) {
+      throw error;
+    }
+    // isomorphic-git errors are told apart by their code.
+    const { code, data } = error as { code?: string; data?: { statusCode?: number } };
+    if (
+      code === "UserCanceledError" ||
+      (code === "HttpError" && [401, 403].includes(data?.statusCode ?? 0))
+    ) {
+      throw new AppError({
+        developerMessage: `Not authorized to clone the git repository ${repoUrl}.`,
+        userMessage: `The repository of the MCP server '${repoUrl.split("/").pop()}' is private and no valid credentials were given for ${getCredentialsHost(repoUrl)}.
+        Install it again to enter a token or a username and password with access to it.`,
+        originalError: error as Error,
+      });
+    }
     throw new AppError({
       developerMessage: `Failed to clone the git repository ${repoUrl} at commit ${commit}.`,
-      userMessage: `We couldn't download the MCP server '${repoName}' on your computer.
+      userMessage: `We couldn't download the MCP server '${repoUrl.split("/").pop()}' on your computer.
       Join our discord for support: ${DISCORD_URL}`,
       originalError: error as Error,
     });
@@ -118,213 +352,722 @@ async function gitClone(repoUrl: string, commit: string, repoName: string) {
 }
 
 /**
- * Resolves the name of binary packaged in the app (e.g. 'uv') into an absolute path.
- * @param binary - The binary name
- * @returns The binary absolute path
- * @throws Error if the returned path is not found
+ * Gets the directory a MCP server runs from: its directory in its clone or extracted archive.
+ * @param git - The repository of the server, if any
+ * @param source - The archive of the server, used if it has no repository
+ * @returns The absolute path of the directory or undefined if the server has no source
  */
-function resolveBinaryPath(binary: string) {
-  let execFolderPath = path.join(
-    __dirname,
-    "..",
-    "..",
-    "binaries",
-    process.platform,
-    process.arch
-  );
+function getSourceServerDir(git?: GitSource, source?: ArchiveSource) {
+  if (git) return getServerDir(git);
+  if (!source) return undefined;
+  const archiveDir = getArchiveDir(source);
+  return source.subdirectory
+    ? path.join(archiveDir, source.subdirectory)
+    : archiveDir;
+}
 
-  if (app.isPackaged) {
-    // when packaged, the binaries are in the Resources folder of the app
-    // we have to follow the way forge package the app to find the binaries
-    // in this case it keeps the arch but not the rest like: Resources/x64/uv
-    execFolderPath = path.join(process.resourcesPath, process.arch);
-  }
+/**
+ * Checks a subdirectory of an install config stays inside its repository or archive.
+ * @param subdirectory - The subdirectory, if any
+ * @returns true if there is no subdirectory or it is a relative path without '..'
+ */
+function isSafeSubdirectory(subdirectory: unknown) {
+  return (
+    subdirectory === undefined ||
+    (typeof subdirectory === "string" &&
+      !path.isAbsolute(subdirectory) &&
+      !subdirectory.split(/[\\/]/).includes(".."))
+  );
+}
 
-  let execName = binary;
-  if (process.platform === "win32") {
-    execName += ".exe";
-  }
+/**
+ * Gets the versions a MCP server must run with: the ones required by its install config, the
+ * defaults of the app settings otherwise. A python version already pinned in the env of the
+ * server (UV_PYTHON) is kept over the default one.
+ * @param installConfig - The install config of the server
+ * @param serverConfig - The config of the server
+ * @returns The node and python versions
+ */
+function getRuntimeVersions(installConfig: InstallConfig, serverConfig: MCPServerConfig) {
+  const defaults = getSettings().runtime;
+  const versions: RuntimeVersions = {
+    node: installConfig.runtime?.node ?? defaults.node,
+    python:
+      installConfig.runtime?.python ??
+      (serverConfig.env?.UV_PYTHON ? undefined : defaults.python),
+  };
+  return versions;
+}
 
-  const binaryPath = path.join(execFolderPath, execName);
-  if (!existsSync(binaryPath)) {
-    throw new Error(`Binary ${binary} not found in ${binaryPath}`);
-  }
+// ============================
+// Exported Functions
+// ============================
 
-  return binaryPath;
+/**
+ * Creates the iod.ai url of an install config, see parseInstallConfigUrl.
+ * @param installConfig - The install config
+ * @returns The url: iod://b64encodedjson
+ */
+export function createInstallUrl(installConfig: InstallConfig) {
+  return `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
 }
 
 /**
- * Updates a MCP server arguments related to 'uv'. (if using 'uv', noop otherwise)
- * fix '--directory' arg with the cloned repo path.
- * @param args - The args of the MCP server config
- * @param repoDir? - Absolute path to the cloned repository for that MCP server.
- * @returns A new args array updated
- * @throws Error if using uv --directory and repoDir is not provided.
+ * Checks that an install config can be installed.
+ * @param installConfig - The install config to check
+ * @throws Error if the install config is invalid
  */
-function updateUVArgs(args: string[], repoDir?: string) {
-  const returnedArgs = Array.from(args);
+export function validateInstallConfig(installConfig: InstallConfig) {
+  if (!installConfig || typeof installConfig.config !== "object" || !installConfig.config) {
+    throw new Error("Invalid install config: missing 'config' object");
+  }
 
-  const uvIndex = args.indexOf("uv");
-  if (uvIndex === -1) return returnedArgs;
+  if (Object.keys(installConfig.config).length === 0) {
+    throw new Error("Invalid install config: no server in config");
+  }
 
-  // Replace directory path with cloned directory if necessary
-  const directoryFlagIndex = args.indexOf("--directory", uvIndex);
-  if (directoryFlagIndex !== -1) {
-    if (!repoDir) {
+  const gitSources = [
+    installConfig.git,
+    ...Object.values(installConfig.git_by_server ?? {}),
+  ];
+  gitSources.forEach((git) => {
+    if (
+      git &&
+      (typeof git.repo_url !== "string" || typeof git.commit !== "string")
+    ) {
       throw new Error(
-        "MCP Config is using uv --directory option but no path to a cloned repository directory was provided."
+        "Invalid install config: git sources must have a 'repo_url' and a 'commit'"
       );
     }
-    returnedArgs[directoryFlagIndex + 1] = repoDir;
-  }
-
-  return returnedArgs;
-}
-
-/**
- * Updates a MCP server arguments related to 'uvx'. (if using 'uvx', noop otherwise)
- * @param args - The args of the MCP server config
- * @returns A new args array updated
- */
-function updateUVXArgs(args: string[], repoDir?: string) {
-  const returnedArgs = Array.from(args);
-
-  const uvxIndex = args.indexOf("uvx");
-  if (uvxIndex === -1) return returnedArgs;
+    if (git && !isSafeSubdirectory(git.subdirectory)) {
+      throw new Error(
+        "Invalid install config: git subdirectories must be relative paths inside the repository"
+      );
+    }
+  });
 
-  // Replace from path with cloned directory path if necessary
-  const directoryFlagIndex = args.indexOf("--from", uvxIndex);
-  if (directoryFlagIndex !== -1) {
-    if (!repoDir) {
+  const { source } = installConfig;
+  if (source) {
+    if (
+      typeof source.url !== "string" ||
+      !/^https?:\/\//.test(source.url) ||
+      typeof source.sha256 !== "string" ||
+      !/^[0-9a-fA-F]{64}$/.test(source.sha256)
+    ) {
+      throw new Error(
+        "Invalid install config: sources must have an http(s) 'url' and the hex 'sha256' of the archive"
+      );
+    }
+    if (!isSafeSubdirectory(source.subdirectory)) {
+      throw new Error(
+        "Invalid install config: source subdirectories must be relative paths inside the archive"
+      );
+    }
+    if (installConfig.git) {
       throw new Error(
-        "MCP Config is using uvx --from option but no path to a cloned repository directory was provided."
+        "Invalid install config: 'git' and 'source' can't be used together"
       );
     }
-    returnedArgs[directoryFlagIndex + 1] = repoDir;
   }
 
-  return returnedArgs;
+  if (!isValidRuntimeVersions(installConfig.runtime)) {
+    throw new Error(
+      "Invalid install config: 'runtime' must give versions for 'node' or 'python', e.g. '22' or '3.12'"
+    );
+  }
+
+  Object.keys(installConfig.git_by_server ?? {}).forEach((serverName) => {
+    if (!(serverName in installConfig.config)) {
+      throw new Error(
+        `Invalid install config: git source given for unknown server '${serverName}'`
+      );
+    }
+  });
 }
 
 /**
- * Updates a MCP server arguments related to 'npx'. (if using 'npx', noop otherwise)
- * add fnmx with node v22 which will install (if necessary) and use node v22.
- * @param args - The args of the MCP server config
- * @returns A new args array updated
- * @throws Error if using npm --directory and repoDir is not provided.
+ * Fixes the MCP server config (paths, python / node version, ...)
+ * Fixing a config already fixed changes nothing.
+ * @param config - The config to fix
+ * @param repoDir? - Must be provided when the MCP server was cloned, the directory of the server
+ * in the clone (see getServerDir). It will be used to set --directory for uv or --from for uvx.
+ * @param versions? - The node and python versions the server must run with
+ * @returns The fixed config
  */
-function updateNPXArgs(args: string[]) {
-  const returnedArgs = Array.from(args);
-
-  const npxIndex = args.indexOf("npx");
-  if (npxIndex === -1) return returnedArgs;
-
-  if (process.platform === "win32") {
-    // if we are on windows, we need to add cmd.exe /c before npx
-    // otherwise PATH is not correctly set and npx / npm are not found.
-    returnedArgs.splice(npxIndex, 0, "fnmx", "v22", "cmd.exe", "/c");
-  } else {
-    // add fnmx with node v22 which will install (if necessary) and use node v22.
-    returnedArgs.splice(npxIndex, 0, "fnmx", "v22");
-  }
+export function fixConfig(
+  config: MCPServerConfig,
+  serverName: string,
+  repoDir?: string,
+  versions?: RuntimeVersions
+) {
+  return adaptConfig(config, { serverName, repoDir, versions }).config;
+}
 
-  return returnedArgs;
+/**
+ * Explains what fixConfig changes in a MCP server config, shown to the user in the install review.
+ * @param config - The config to fix
+ * @param repoDir? - The directory of the server, as for fixConfig
+ * @param versions? - The node and python versions, as for fixConfig
+ * @returns The fixed config and the changes made to it, by runtime
+ */
+export function explainFixConfig(
+  config: MCPServerConfig,
+  serverName: string,
+  repoDir?: string,
+  versions?: RuntimeVersions
+) {
+  return adaptConfig(config, { serverName, repoDir, versions });
 }
 
 /**
- * Replaces binary commands with application-shipped binaries.
- * @param config - The MCPServerConfig to update.
- * @returns A new config with updated binaries
+ * Reverts the machine specific changes made by fixConfig: resolved binary paths, node version
+ * and cloned repository paths. The result can be installed again on another machine.
+ * @param config - A config fixed by fixConfig
+ * @returns The config without machine specific values and the cloned repository directory
+ * it pointed to, if any
  */
-function replaceBinaries(config: MCPServerConfig) {
-  const binaries = ["uv", "uvx", "fnm", "fnmx"];
-  const returnedConfig = structuredClone(config);
+export function unfixConfig(config: MCPServerConfig) {
+  return restoreConfig(config, REPO_DIR_PLACEHOLDER);
+}
 
-  if (binaries.includes(config.command)) {
-    returnedConfig.command = resolveBinaryPath(config.command);
-  }
+/**
+ * Describes what installing the MCP servers of an install config writes in the Claude Desktop
+ * App config file, for the user to review it before anything is cloned or written.
+ * @param installConfig - The install config of the MCP servers
+ * @returns The review of each server, in the order of the config
+ */
+export function createInstallReview(installConfig: InstallConfig) {
+  const collisions = getCollisions(installConfig);
 
-  returnedConfig.args = config.args.map((arg) =>
-    binaries.includes(arg) ? resolveBinaryPath(arg) : arg
+  return Object.entries(installConfig.config).map(
+    ([serverName, serverConfig]): InstallReviewServer => {
+      const git = installConfig.git_by_server?.[serverName] ?? installConfig.git;
+      const source = git ? undefined : installConfig.source;
+      const review = {
+        serverName,
+        git,
+        source,
+        collision: collisions[serverName],
+        missingSecrets: getMissingSecrets(serverConfig.env),
+      };
+      try {
+        // the config is fixed with the directory the repository will be cloned or extracted into.
+        const { config: fixedConfig, changes } = explainFixConfig(
+          serverConfig,
+          serverName,
+          getSourceServerDir(git, source),
+          getRuntimeVersions(installConfig, serverConfig)
+        );
+        return {
+          ...review,
+          command: fixedConfig.command,
+          args: fixedConfig.args,
+          env: maskEnv(fixedConfig.env),
+          // the unchanged env vars may be secrets, they are only shown masked.
+          changes: changes.map((change) => ({
+            ...change,
+            env: change.env.filter(({ type }) => type !== "unchanged"),
+          })),
+        };
+      } catch (error) {
+        return {
+          ...review,
+          command: serverConfig.command,
+          args: serverConfig.args,
+          env: maskEnv(serverConfig.env),
+          error: `The MCP server '${serverName}' can't be installed: ${(error as Error).message}`,
+        };
+      }
+    }
   );
-
-  return returnedConfig;
 }
 
 /**
- * Fixes the MCP server config (paths, python / node version, ...)
- * @param config - The config to fix
- * @param repoDir? - Must be provided when the MCP server was cloned.
- * It will be used to set --directory for uv or --prefix for npm.
- * @returns The fixed config
+ * Installs the MCP servers of an install config: each server is cloned (if it has a git source),
+ * fixed and provisioned (its interpreter and dependencies installed) in turn, then all the
+ * servers that could be prepared are written to the Claude Desktop App config file at once.
+ * A failing server doesn't prevent the others from being installed. Claude is not restarted.
+ * The install can be cancelled until the config file is written, the repositories cloned by the
+ * install are then removed.
+ * Servers named like installed servers are handled as resolved by the user, by default both
+ * servers are kept so that an installed config is never lost.
+ * @param installConfig - The install config of the MCP servers
+ * @param onProgress - Called as each step of the install starts, progresses and ends
+ * @param signal - Cancels the install
+ * @param resolutions - What to do with the servers named like installed servers, by server name
+ * @param promptCredentials - Asks the user for the credentials of private repositories
+ * @returns The outcome of the install of each server, in the order of the config
+ * @throws AppError if the config file can't be written, in which case no server is installed
+ * @throws InstallCancelledError if the install is cancelled, in which case no server is installed
  */
-export function fixConfig(config: MCPServerConfig, serverName: string, repoDir?: string) {
-  let fixedConfig = structuredClone(config);
+export async function installServers(
+  installConfig: InstallConfig,
+  onProgress?: InstallProgressCallback,
+  signal?: AbortSignal,
+  resolutions: { [serverName: string]: CollisionResolution } = {},
+  promptCredentials?: CredentialsPrompt
+) {
+  const errors: { [serverName: string]: string } = {};
+  const fixedServerConfigs: { [serverName: string]: MCPServerConfig } = {};
+  // disabled servers whose env was merged, they stay out of the Claude config.
+  const mergedDisabledConfigs: { [serverName: string]: MCPServerConfig } = {};
+  // the name each server is installed under, by server name in the install config.
+  const installedNames: { [serverName: string]: string } = {};
+  // the servers installed from their config in the install config, i.e. not merged.
+  const installedFromConfig: string[] = [];
+  const repoDirs: { [serverName: string]: string | undefined } = {};
+  const serverDirs: { [serverName: string]: string | undefined } = {};
+  const collisions = getCollisions(installConfig);
+  // servers of the same repository at the same commit (or of the same archive) share a single clone.
+  const clones = new Map<string, Promise<string>>();
+  // the clones created by this install, removed if it is cancelled.
+  const createdRepoDirs = new Set<string>();
+
+  try {
+    for (const [serverName, serverConfig] of Object.entries(installConfig.config)) {
+      let step: InstallStep = "clone";
+      try {
+        const collision = collisions[serverName];
+        const resolution = collision
+          ? resolutions[serverName] ?? "keep-both"
+          : "replace";
 
-  let { args } = config;
-  args = updateUVArgs(args, repoDir);
-  args = updateUVXArgs(args, repoDir);
-  args = updateNPXArgs(args);
+        if (collision && resolution === "merge-env") {
+          // the installed server is kept as is, nothing to clone.
+          step = "fix";
+          const existingConfig = {
+            ...getDisabledMCPServers(),
+            ...getMCPServers(),
+          }[serverName];
+          const mergedConfig = {
+            ...existingConfig,
+            env: { ...serverConfig.env, ...existingConfig.env },
+          };
+          if (collision.existing === "disabled") {
+            mergedDisabledConfigs[serverName] = mergedConfig;
+          } else {
+            fixedServerConfigs[serverName] = mergedConfig;
+          }
+          installedNames[serverName] = serverName;
+          onProgress?.({
+            step,
+            status: "done",
+            serverName,
+            message: `Added ${collision.newEnvKeys.length} new env var(s) to the existing ${serverName}`,
+          });
+          continue;
+        }
+
+        const installedName =
+          collision && resolution === "keep-both" ? collision.suffixedName : serverName;
+        const git = installConfig.git_by_server?.[serverName] ?? installConfig.git;
+        if (git) {
+          const { repo_url: repoUrl, commit } = git;
+          const repoDir = getCloneDir(git);
+          onProgress?.({
+            step,
+            status: "running",
+            serverName,
+            message: `Downloading ${repoUrl} at ${commit.slice(0, 7)}`,
+          });
+          const cloneKey = `${repoUrl}@${commit}`;
+          if (!clones.has(cloneKey)) {
+            if (!existsSync(repoDir)) {
+              createdRepoDirs.add(repoDir);
+            }
+            clones.set(
+              cloneKey,
+              gitClone(repoUrl, commit, repoDir, (phase, percent) =>
+                onProgress?.({
+                  step: "clone",
+                  status: "running",
+                  serverName,
+                  message: `Downloading ${repoUrl}: ${phase}`,
+                  percent,
+                }),
+                signal,
+                promptCredentials
+              )
+            );
+          }
+          repoDirs[serverName] = await clones.get(cloneKey);
+          // servers of a monorepo share its clone, each runs from its own subdirectory.
+          serverDirs[serverName] = getServerDir(git);
+          if (git.subdirectory && !existsSync(serverDirs[serverName] as string)) {
+            throw new AppError({
+              developerMessage: `No '${git.subdirectory}' directory in ${repoUrl} at commit ${commit}.`,
+              userMessage: `The MCP server '${serverName}' can't be found in its repository, the directory '${git.subdirectory}' doesn't exist.
+              Join our discord for support: ${DISCORD_URL}`,
+            });
+          }
+          onProgress?.({
+            step,
+            status: "done",
+            serverName,
+            message: `Downloaded ${repoUrl} at ${commit.slice(0, 7)}`,
+            percent: 100,
+          });
+        } else if (installConfig.source) {
+          const { source } = installConfig;
+          const archiveDir = getArchiveDir(source);
+          onProgress?.({
+            step,
+            status: "running",
+            serverName,
+            message: `Downloading ${source.url}`,
+          });
+          if (!clones.has(source.sha256)) {
+            if (!existsSync(archiveDir)) {
+              createdRepoDirs.add(archiveDir);
+            }
+            clones.set(
+              source.sha256,
+              downloadArchive(source, (phase, percent) =>
+                onProgress?.({
+                  step: "clone",
+                  status: "running",
+                  serverName,
+                  message: `Downloading ${source.url}: ${phase}`,
+                  percent,
+                }),
+                signal
+              )
+            );
+          }
+          repoDirs[serverName] = await clones.get(source.sha256);
+          serverDirs[serverName] = getSourceServerDir(undefined, source);
+          if (source.subdirectory && !existsSync(serverDirs[serverName] as string)) {
+            throw new AppError({
+              developerMessage: `No '${source.subdirectory}' directory in ${source.url}.`,
+              userMessage: `The MCP server '${serverName}' can't be found in its archive, the directory '${source.subdirectory}' doesn't exist.
+              Join our discord for support: ${DISCORD_URL}`,
+            });
+          }
+          onProgress?.({
+            step,
+            status: "done",
+            serverName,
+            message: `Downloaded and verified ${source.url}`,
+            percent: 100,
+          });
+        }
+
+        step = "fix";
+        const versions = getRuntimeVersions(installConfig, serverConfig);
+        const fixedConfig = fixConfig(
+          serverConfig,
+          installedName,
+          serverDirs[serverName],
+          versions
+        );
+        onProgress?.({
+          step,
+          status: "done",
+          serverName,
+          message:
+            installedName === serverName
+              ? `Prepared the config of ${serverName}`
+              : `Prepared the config of ${serverName}, installed as ${installedName}`,
+        });
 
-  fixedConfig.args = args;
+        // the interpreter and dependencies are installed now rather than on the first start in Claude.
+        step = "provision";
+        const provisionCommands = await provisionServer(
+          fixedConfig,
+          { serverName: installedName, repoDir: serverDirs[serverName], versions },
+          (command, log) =>
+            onProgress?.({
+              step: "provision",
+              status: "running",
+              serverName,
+              message: `${command.description} for ${serverName}`,
+              log,
+            }),
+          signal
+        );
+        if (provisionCommands.length > 0) {
+          onProgress?.({
+            step,
+            status: "done",
+            serverName,
+            message: `Installed the runtime of ${serverName}`,
+          });
+        }
 
-  // we replace binaries with binaries shipped with the app
-  // to reduce dependencies on the user's system to a minimum
-  // uv takes care of installing python env, fnm takes care of installing node/npm
-  fixedConfig = replaceBinaries(fixedConfig);
+        fixedServerConfigs[installedName] = fixedConfig;
+        installedNames[serverName] = installedName;
+        installedFromConfig.push(serverName);
+      } catch (error) {
+        if (error instanceof InstallCancelledError) {
+          throw error;
+        }
+        logger.error(`Failed to install '${serverName}'`, error as Error);
+        errors[serverName] =
+          error instanceof AppError
+            ? error.userMessage
+            : `Failed to install the MCP server '${serverName}' in your Claude Desktop App.
+            Join our discord for more support: ${DISCORD_URL}`;
+        onProgress?.({
+          step,
+          status: "failed",
+          serverName,
+          message: errors[serverName],
+        });
+      }
+    }
 
-  // if we are on windows, we need to make sure the uv cache dir of each
-  // MCP server is unique to avoid conflicts.
-  if (process.platform === "win32") {
-    fixedConfig.env.UV_CACHE_DIR = path.join(IOD_HOME, "uv", "cache", serverName);
+    // last chance to cancel, nothing can be undone once the config file is written.
+    throwIfCancelled(signal);
+  } catch (error) {
+    if (error instanceof InstallCancelledError) {
+      createdRepoDirs.forEach((repoDir) =>
+        rmSync(repoDir, { recursive: true, force: true })
+      );
+    }
+    throw error;
   }
 
-  return fixedConfig;
+  const writtenServerNames = Object.keys(fixedServerConfigs);
+  if (writtenServerNames.length > 0) {
+    onProgress?.({
+      step: "write",
+      status: "running",
+      message: "Writing your Claude Desktop App config",
+    });
+    writeMCPServerConfigs(fixedServerConfigs);
+    onProgress?.({
+      step: "write",
+      status: "done",
+      message: `Added ${writtenServerNames.join(", ")} to your Claude Desktop App config`,
+    });
+  }
+
+  // the disabled servers replaced by enabled ones are not disabled anymore.
+  const replacedDisabledNames = Object.keys(collisions).filter(
+    (serverName) =>
+      collisions[serverName].existing === "disabled" &&
+      installedNames[serverName] === serverName &&
+      serverName in fixedServerConfigs
+  );
+  if (replacedDisabledNames.length > 0) {
+    try {
+      removeDisabledServers(replacedDisabledNames);
+    } catch (error) {
+      logger.error("Failed to forget the replaced disabled servers", error as Error);
+    }
+  }
+
+  Object.entries(mergedDisabledConfigs).forEach(([serverName, mergedConfig]) => {
+    try {
+      addDisabledServer(serverName, mergedConfig);
+    } catch (error) {
+      logger.error(`Failed to merge the env of '${serverName}'`, error as Error);
+      errors[serverName] = `Failed to update the disabled MCP server '${serverName}'.
+      Join our discord for more support: ${DISCORD_URL}`;
+    }
+  });
+
+  // merged servers keep the provenance of their original install.
+  installedFromConfig.forEach((serverName) => {
+    try {
+      const git = installConfig.git_by_server?.[serverName] ?? installConfig.git;
+      const runtime = getInterpreterVersions(fixedServerConfigs[installedNames[serverName]]);
+      recordInstall(installedNames[serverName], {
+        git,
+        source: git ? undefined : installConfig.source,
+        runtime: Object.keys(runtime).length > 0 ? runtime : undefined,
+        config: installConfig.config[serverName],
+        repoDir: repoDirs[serverName],
+        installedAt: new Date().toISOString(),
+        appVersion: app.getVersion(),
+      });
+    } catch (error) {
+      // the server is installed and works without its provenance, don't fail the install.
+      logger.error(`Failed to record the install of '${serverName}'`, error as Error);
+    }
+  });
+
+  return Object.keys(installConfig.config).map(
+    (serverName): InstallResult =>
+      serverName in errors
+        ? { serverName, success: false, error: errors[serverName] }
+        : { serverName: installedNames[serverName], success: true }
+  );
 }
 
-// ============================
-// Exported Functions
-// ============================
+/**
+ * Gets the MCP servers installed by iod with their provenance.
+ * @returns The installed servers, by server name
+ * @throws AppError if the install manifest can't be read
+ */
+export function getInstalledServers() {
+  try {
+    return getInstallManifest();
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Failed to read the install manifest.",
+      userMessage: `We failed to retrieve where your MCP servers were installed from.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
 
 /**
- * Installs MCP server on the Claude Desktop App from a given base64 iod.ai url.
+ * Installs the MCP servers of a given base64 iod.ai url on the Claude Desktop App.
+ * Nothing is cloned or written before the user approves the install in the renderer, so the
+ * install never happens without mainWindow.
  * it sends the following IPC events through mainWindow webContents if provided:
  * - `install-error`: to surface install errors to the user (in the renderer)
  * - `install-success`: to surface install success to the user (in the renderer)
+ * - `installer:progress`: to stream the progress of each step of the install (in the renderer)
+ * - `installer:review-request`: to ask the user to review the install (in the renderer)
  * @param url - The iod.ai url to install
  * @param mainWindow - The main window of the app to send messages to
+ * @param options.installId - Identifies the install in its progress events, generated if not provided
+ * @param options.signal - Cancels the install until the Claude Desktop App config file is written
+ * @returns The outcome of the install of each server, undefined if the whole install failed or was cancelled
  */
-export async function install(url: string, mainWindow?: BrowserWindow) {
-  let serverName: string | undefined = undefined;
+export async function install(
+  url: string,
+  mainWindow?: BrowserWindow,
+  {
+    installId = randomUUID(),
+    signal,
+  }: { installId?: string; signal?: AbortSignal } = {}
+) {
+  let serverNames: string | undefined = undefined;
+
+  let currentStep: InstallStep = "parse";
+  const onProgress: InstallProgressCallback = (progress) => {
+    currentStep = progress.step;
+    if (mainWindow) {
+      sendToWindow(mainWindow, "installer:progress", { installId, ...progress });
+    }
+  };
+
   try {
+    onProgress({
+      step: "parse",
+      status: "running",
+      message: "Reading the install request",
+    });
     const installConfig = parseInstallConfigUrl(url);
-    serverName = Object.keys(installConfig.config)[0];
+    serverNames = Object.keys(installConfig.config).join(", ");
+    const verification = checkInstallConfigSignature(installConfig);
+    onProgress({
+      step: "parse",
+      status: "done",
+      message:
+        verification.status === "verified"
+          ? `Installing ${serverNames}, published by ${verification.publisher}`
+          : `Installing ${serverNames}, from an unverified publisher`,
+    });
 
-    let repoDir: string | undefined = undefined;
-    if (installConfig.git) {
-      const { repo_url: repoUrl, commit } = installConfig.git;
-      const repoName = repoUrl.split("/").pop();
-      if (!repoName) {
-        throw new Error("Failed to get repository name from url");
+    onProgress({
+      step: "review",
+      status: "running",
+      message: "Waiting for your approval",
+    });
+    const { approved, resolutions, secrets = {} } = await requestInstallReview(
+      { installId, verification, servers: createInstallReview(installConfig) },
+      mainWindow,
+      signal
+    );
+    if (!approved) {
+      throw new InstallCancelledError({
+        developerMessage: "The install was not approved by the user.",
+      });
+    }
+    onProgress({ step: "review", status: "done", message: "Approved" });
+    // the secrets left empty, e.g. by the export of a bundle, are given by the user.
+    for (const [serverName, serverSecrets] of Object.entries(secrets)) {
+      const serverConfig = installConfig.config[serverName];
+      if (serverConfig) {
+        const missingSecrets = getMissingSecrets(serverConfig.env);
+        serverConfig.env = {
+          ...serverConfig.env,
+          ...Object.fromEntries(
+            Object.entries(serverSecrets).filter(([key]) => missingSecrets.includes(key))
+          ),
+        };
       }
-      repoDir = await gitClone(repoUrl, commit, repoName);
     }
 
-    const serverConfig = installConfig.config[serverName];
-    const fixedServerConfig = fixConfig(serverConfig, serverName, repoDir);
-    writeMCPServerConfig(serverName, fixedServerConfig);
-    restartClaudeDesktop();
+    const results = await installServers(
+      installConfig,
+      onProgress,
+      signal,
+      resolutions,
+      (request) => requestCredentials({ ...request, installId }, mainWindow, signal)
+    );
+    // a single restart picks up all the servers installed.
+    if (results.some((result) => result.success)) {
+      onProgress({
+        step: "restart",
+        status: "running",
+        message: "Restarting the Claude Desktop App",
+      });
+      restartClaudeDesktop();
+      onProgress({
+        step: "restart",
+        status: "done",
+        message: "Restarted the Claude Desktop App",
+      });
+    }
+
+    const failedCount = results.filter((result) => !result.success).length;
+    onProgress({
+      step: "finish",
+      status: failedCount === 0 ? "done" : "failed",
+      message:
+        failedCount === 0
+          ? `Installed ${serverNames}`
+          : `${failedCount} of ${results.length} server(s) failed to install`,
+    });
 
     if (mainWindow) {
-      sendToWindow(mainWindow, 'notify', {
-        type: 'success',
-        title: "MCP Server Installation Success",
-        message: `Successfully installed ${serverName} in your Claude Desktop App.`
+      results.forEach((result) => {
+        sendToWindow(mainWindow, 'notify', result.success ? {
+          type: 'success',
+          title: "MCP Server Installation Success",
+          message: `Successfully installed ${result.serverName} in your Claude Desktop App.`
+        } : {
+          type: 'error',
+          title: "MCP Server Installation Error",
+          message: result.error ?? `Failed to install the MCP server '${result.serverName}'.`
+        });
       });
     }
+    return results;
   } catch (error) {
+    if (error instanceof InstallCancelledError) {
+      onProgress({ step: currentStep, status: "cancelled", message: error.userMessage });
+      onProgress({ step: "finish", status: "cancelled", message: "Installation cancelled" });
+      if (mainWindow) {
+        sendToWindow(mainWindow, 'notify', {
+          type: 'info',
+          title: "MCP Server Installation Cancelled",
+          message: `The installation of '${serverNames || "unknown"}' was cancelled, nothing was changed.`
+        });
+      }
+      return;
+    }
+
+    const message =
+      error instanceof AppError
+        ? error.userMessage
+        : `Failed to install the MCP server '${serverNames || "unknown"}'.`;
+    onProgress({ step: currentStep, status: "failed", message });
+    onProgress({ step: "finish", status: "failed", message: "Installation failed" });
+
     if (error instanceof AppError) {
       logger.error(error.message, error.originalError);
+      if (mainWindow && error instanceof ConfigConflictError) {
+        sendToWindow(mainWindow, "claude:config-conflict", {
+          conflicts: error.conflicts,
+        });
+      }
       if (mainWindow) {
         sendToWindow(mainWindow, 'notify', {
           type: 'error',
@@ -338,7 +1081,7 @@ export async function install(url: string, mainWindow?: BrowserWindow) {
         sendToWindow(mainWindow, 'notify', {
           type: 'error',
           title: "MCP Server Installation Error",
-          message: `Failed to install the MCP server '${serverName || "unknown"}' in your Claude Desktop App.
+          message: `Failed to install the MCP server '${serverNames || "unknown"}' in your Claude Desktop App.
           Join our discord for more support: ${DISCORD_URL}`
         });
       }
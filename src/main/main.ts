@@ -7,18 +7,61 @@ import { app, BrowserWindow, ipcMain, shell } from "electron";
 import path from "path";
 import started from "electron-squirrel-startup";
 
-import { install } from "./installer";
+import { getInstalledServers } from "./installer";
 import {
   watchClaudeDesktopConfig,
   getMCPServers,
   deleteMCPServer,
+  updateMCPServer,
+  getDisabledMCPServers,
+  disableMCPServer,
+  enableMCPServer,
+  listConfigSnapshots,
+  diffConfigSnapshot,
+  restoreConfigSnapshot,
+  getConfigDiagnostics,
+  previewConfigRepair,
+  applyConfigRepair,
 } from "./claude";
+import {
+  listProfiles,
+  createProfile,
+  cloneProfile,
+  renameProfile,
+  deleteProfile,
+  applyProfile,
+} from "./profiles";
+import { exportBundle, importBundle } from "./bundles";
+import { previewUninstall, uninstallMCPServer } from "./uninstaller";
+import {
+  cancelInstall,
+  openInstallUrl,
+  runExclusive,
+  setInstallWindow,
+} from "./queue";
+import { respondInstallReview } from "./review";
+import { getSettings, updateSettings } from "./settings";
+import { migrateLegacyClones } from "./clones";
+import {
+  listPublisherKeys,
+  addPublisherKey,
+  removePublisherKey,
+} from "./signatures";
+import {
+  respondCredentials,
+  listCredentialsHosts,
+  forgetCredentials,
+} from "./credentials";
 
 import {
   type IpcInvokeChannels,
+  type Handler,
   type Handlers,
   createIpcHandler,
+  sendToWindow,
 } from "../shared/ipc";
+import { ConfigConflictError } from "../shared/error";
+import { logger } from "../shared/logger";
 
 // we use iod:// protocol to send data from iod.ai to the app.
 const PROTOCOL_PREFIX = "iod";
@@ -30,6 +73,29 @@ if (started) {
 
 let mainWindow: BrowserWindow;
 
+/**
+ * Wraps a handler to surface Claude config conflicts it raises to the renderer.
+ * The error is rethrown so the handler response is still an error.
+ * @param handler - The handler to wrap.
+ * @returns The wrapped handler.
+ */
+function withConfigConflictNotification<T extends keyof IpcInvokeChannels>(
+  handler: Handler<T>
+): Handler<T> {
+  return async (args) => {
+    try {
+      return await handler(args);
+    } catch (error) {
+      if (error instanceof ConfigConflictError && mainWindow) {
+        sendToWindow(mainWindow, "claude:config-conflict", {
+          conflicts: error.conflicts,
+        });
+      }
+      throw error;
+    }
+  };
+}
+
 /**
  * Registers IPC handlers for the given handlers.
  * @param handlers - The handlers to register.
@@ -40,8 +106,10 @@ function registerIpcHandlers(handlers: Handlers) {
       [keyof IpcInvokeChannels, Handlers[keyof IpcInvokeChannels]]
     >
   ).forEach(([channel, handler]) => {
-    // @ts-expect-error: typing here could be improved.
-    const ipcHandler = createIpcHandler<typeof channel>(handler);
+    const ipcHandler = createIpcHandler<typeof channel>(
+      // @ts-expect-error: typing here could be improved.
+      withConfigConflictNotification(handler)
+    );
     ipcMain.handle(channel, (_event, args) => ipcHandler(args));
   });
 }
@@ -117,6 +185,37 @@ function createWindow() {
   const handlers: Handlers = {
     "claude:get-mcp-servers": getMCPServers,
     "claude:delete-mcp-server": deleteMCPServer,
+    "claude:update-mcp-server": updateMCPServer,
+    "claude:get-disabled-mcp-servers": getDisabledMCPServers,
+    "claude:disable-mcp-server": disableMCPServer,
+    "claude:enable-mcp-server": enableMCPServer,
+    "installer:get-installed-servers": getInstalledServers,
+    "installer:preview-uninstall": previewUninstall,
+    "installer:uninstall-server": uninstallMCPServer,
+    "installer:cancel-install": cancelInstall,
+    "installer:respond-review": respondInstallReview,
+    "installer:respond-credentials": respondCredentials,
+    "claude:list-config-snapshots": listConfigSnapshots,
+    "claude:diff-config-snapshot": diffConfigSnapshot,
+    "claude:restore-config-snapshot": restoreConfigSnapshot,
+    "claude:validate-config": getConfigDiagnostics,
+    "claude:preview-config-repair": previewConfigRepair,
+    "claude:apply-config-repair": applyConfigRepair,
+    "profiles:list": listProfiles,
+    "profiles:create": createProfile,
+    "profiles:clone": cloneProfile,
+    "profiles:rename": renameProfile,
+    "profiles:delete": deleteProfile,
+    "profiles:apply": applyProfile,
+    "settings:get": getSettings,
+    "settings:update": updateSettings,
+    "signatures:list-publisher-keys": listPublisherKeys,
+    "signatures:add-publisher-key": addPublisherKey,
+    "signatures:remove-publisher-key": removePublisherKey,
+    "credentials:list-hosts": listCredentialsHosts,
+    "credentials:forget": forgetCredentials,
+    "bundles:export": exportBundle,
+    "bundles:import": () => importBundle(mainWindow),
   };
   registerIpcHandlers(handlers);
 
@@ -130,7 +229,12 @@ function createWindow() {
     return { action: "allow" };
   });
 
+  // the installs are reviewed in the renderer, the urls opened before it is loaded wait for it.
+  const window = mainWindow;
+  window.webContents.on("did-finish-load", () => setInstallWindow(window));
+
   mainWindow.on("close", () => {
+    setInstallWindow(undefined);
     unregisterIpcHandlers(handlers);
   });
 }
@@ -147,7 +251,7 @@ function handleSecondInstance(commandLine: string[]) {
 
   const url = commandLine.pop()?.replace(/\/$/, ""); // Remove trailing slash if any
   if (url) {
-    install(url, mainWindow);
+    openInstallUrl(url);
   }
 }
 
@@ -156,7 +260,8 @@ function handleSecondInstance(commandLine: string[]) {
  * @param url - The URL to handle.
  */
 function handleOpenUrl(url: string) {
-  install(url, mainWindow);
+  // the app may be launched by the url, before its window exists.
+  openInstallUrl(url);
 }
 
 // Handle single instance lock
@@ -167,6 +272,10 @@ if (!gotTheLock) {
 } else {
   app.on("ready", () => {
     registerProtocol();
+    // servers keep running from their old clone until it's moved, a failure is retried next start.
+    runExclusive(migrateLegacyClones).catch((error) =>
+      logger.error("Failed to migrate the legacy clones", error as Error)
+    );
     createWindow();
   });
 
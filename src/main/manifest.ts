@@ -0,0 +1,131 @@
+/**
+ * Manifest module for the main process.
+ * It keeps track of where the MCP servers installed by iod come from under ~/.iod/installed.json.
+ * Servers added by hand in the Claude Desktop App config file have no entry in the manifest.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+
+import type { MCPServerConfig } from "./claude";
+import { IOD_HOME, readJSONFile, writeJSONFile } from "./storage";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * The provenance of a MCP server installed by iod.
+ */
+export type InstalledServer = {
+  /**
+   * The git repository the server was cloned from, if any.
+   */
+  git?: {
+    repo_url: string;
+    commit: string;
+    subdirectory?: string;
+  };
+  /**
+   * The release archive the server was extracted from, if any.
+   */
+  source?: {
+    url: string;
+    sha256: string;
+    subdirectory?: string;
+  };
+  /**
+   * The versions of node and python the server runs with, for the runtimes it uses.
+   */
+  runtime?: {
+    node?: string;
+    python?: string;
+  };
+  /**
+   * The config of the server as received in the install payload, before fixConfig.
+   */
+  config: MCPServerConfig;
+  /**
+   * The directory the repository was cloned into, if any.
+   */
+  repoDir?: string;
+  /**
+   * When the server was installed, as an ISO 8601 string.
+   */
+  installedAt: string;
+  /**
+   * The version of iod that installed the server.
+   */
+  appVersion: string;
+};
+
+/**
+ * The servers installed by iod, by server name.
+ */
+export type InstallManifest = {
+  [serverName: string]: InstalledServer;
+};
+
+// ============================
+// Constants
+// ============================
+
+const MANIFEST_PATH = path.join(IOD_HOME, "installed.json");
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Gets the servers installed by iod.
+ * The manifest may list servers that were removed from the Claude config outside of iod,
+ * callers only use the entries of the servers they know about.
+ * @returns The installed servers, by server name
+ */
+export function getInstallManifest() {
+  return readJSONFile<InstallManifest>(MANIFEST_PATH, {});
+}
+
+/**
+ * Records the install of a MCP server, replacing any previous install with the same name.
+ * @param serverName - The name of the installed server
+ * @param installedServer - The provenance of the server
+ */
+export function recordInstall(
+  serverName: string,
+  installedServer: InstalledServer
+) {
+  const manifest = getInstallManifest();
+  manifest[serverName] = installedServer;
+  writeJSONFile(MANIFEST_PATH, manifest);
+}
+
+/**
+ * Removes MCP servers from the manifest.
+ * @param serverNames - The names of the servers to remove
+ */
+export function forgetInstalls(serverNames: string[]) {
+  const manifest = getInstallManifest();
+  const removed = serverNames.filter((serverName) => serverName in manifest);
+  if (removed.length === 0) return;
+
+  removed.forEach((serverName) => delete manifest[serverName]);
+  writeJSONFile(MANIFEST_PATH, manifest);
+}
+
+/**
+ * Moves the install of a renamed MCP server to its new name.
+ * @param serverName - The name the server was installed under
+ * @param newServerName - The new name of the server
+ */
+export function renameInstall(serverName: string, newServerName: string) {
+  const manifest = getInstallManifest();
+  if (!(serverName in manifest)) return;
+
+  manifest[newServerName] = manifest[serverName];
+  delete manifest[serverName];
+  writeJSONFile(MANIFEST_PATH, manifest);
+}
@@ -0,0 +1,112 @@
+/**
+ * Merge module for the main process.
+ * It merges concurrent changes made to JSON documents (e.g. the Claude Desktop App config file).
+ */
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * A conflict found while merging two versions of a JSON document.
+ */
+export type MergeConflict = {
+  /**
+   * The path of keys to the conflicting value (e.g. ['mcpServers', 'github', 'env']).
+   */
+  path: string[];
+  /**
+   * The value both versions started from (undefined if it did not exist).
+   */
+  base: unknown;
+  /**
+   * The value in our version (undefined if removed).
+   */
+  ours: unknown;
+  /**
+   * The value in their version (undefined if removed).
+   */
+  theirs: unknown;
+};
+
+type JSONObject = { [key: string]: unknown };
+
+// ============================
+// Utility Functions
+// ============================
+
+function isObject(value: unknown): value is JSONObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isDeepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function mergeValue(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: string[],
+  conflicts: MergeConflict[]
+): unknown {
+  if (isDeepEqual(ours, theirs)) return ours;
+  if (isDeepEqual(ours, base)) return theirs;
+  if (isDeepEqual(theirs, base)) return ours;
+
+  // both sides changed the same object, merge it key by key.
+  if (isObject(ours) && isObject(theirs) && (base === undefined || isObject(base))) {
+    const baseObject: JSONObject = base ?? {};
+    const merged: JSONObject = {};
+    // keep their key order (the file on disk) and append our new keys.
+    const keys = [...Object.keys(theirs), ...Object.keys(ours)].filter(
+      (key, i, all) => all.indexOf(key) === i
+    );
+    keys.forEach((key) => {
+      const value = mergeValue(
+        baseObject[key],
+        ours[key],
+        theirs[key],
+        [...path, key],
+        conflicts
+      );
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    });
+    return merged;
+  }
+
+  conflicts.push({ path, base, ours, theirs });
+  return theirs;
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Three-way merges two versions of a JSON document that were derived from a common base.
+ * Objects are merged key by key, any other value (including arrays) is merged as a whole.
+ * @param base - The common version both sides started from
+ * @param ours - Our version
+ * @param theirs - Their version
+ * @returns The merged document and the conflicts found.
+ * When conflicting, the merged document keeps their value.
+ */
+export function threeWayMerge<T>(base: T, ours: T, theirs: T) {
+  const conflicts: MergeConflict[] = [];
+  const merged = mergeValue(base, ours, theirs, [], conflicts) as T;
+  return { merged, conflicts };
+}
@@ -0,0 +1,342 @@
+/**
+ * Profiles module for the main process.
+ * It handles named sets of MCP servers stored under ~/.iod/profiles.json that can be
+ * applied to the Claude Desktop App config file in one go.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+
+import { AppError } from "../shared/error";
+import { DISCORD_URL } from "../shared/constants";
+
+import {
+  type MCPServerConfig,
+  getMCPServers,
+  replaceMCPServers,
+  restartClaudeDesktop,
+} from "./claude";
+import {
+  addDisabledServer,
+  getDisabledServers,
+  removeDisabledServers,
+} from "./disabled";
+import { IOD_HOME, readJSONFile, writeJSONFile } from "./storage";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * A named set of MCP servers.
+ */
+export type ServerProfile = {
+  /**
+   * The name of the profile, unique among profiles.
+   */
+  name: string;
+  /**
+   * The MCP servers of the profile, by server name.
+   */
+  servers: {
+    [serverName: string]: MCPServerConfig;
+  };
+  /**
+   * When the profile was created, as an ISO 8601 string.
+   */
+  createdAt: string;
+};
+
+/**
+ * The profiles as stored on disk, by profile name.
+ */
+type ServerProfiles = {
+  [profileName: string]: Omit<ServerProfile, "name">;
+};
+
+// ============================
+// Constants
+// ============================
+
+const PROFILES_PATH = path.join(IOD_HOME, "profiles.json");
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Reads the stored profiles.
+ * @returns The profiles, by profile name
+ * @throws an AppError if the profiles file can't be read
+ */
+function readProfiles() {
+  try {
+    return readJSONFile<ServerProfiles>(PROFILES_PATH, {});
+  } catch (error) {
+    throw new AppError({
+      developerMessage: `Failed to read the profiles at '${PROFILES_PATH}'.`,
+      userMessage: `We failed to read your server profiles.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Writes the profiles.
+ * @param profiles - The profiles to write, by profile name
+ * @throws an AppError if the profiles file can't be written
+ */
+function writeProfiles(profiles: ServerProfiles) {
+  try {
+    writeJSONFile(PROFILES_PATH, profiles);
+  } catch (error) {
+    throw new AppError({
+      developerMessage: `Failed to write the profiles at '${PROFILES_PATH}'.`,
+      userMessage: `We failed to save your server profiles.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Gets a stored profile.
+ * @param profiles - The stored profiles
+ * @param profileName - The name of the profile
+ * @returns The profile
+ * @throws an AppError if the profile does not exist
+ */
+function getProfile(profiles: ServerProfiles, profileName: string) {
+  const profile = profiles[profileName];
+  if (!profile) {
+    throw new AppError({
+      developerMessage: `Profile '${profileName}' not found.`,
+      userMessage: `The profile '${profileName}' doesn't exist anymore.`,
+    });
+  }
+  return profile;
+}
+
+/**
+ * Checks that a new profile name can be used.
+ * @param profiles - The stored profiles
+ * @param profileName - The new profile name
+ * @returns The trimmed profile name
+ * @throws an AppError if the name is empty or already used by another profile
+ */
+function assertAvailableProfileName(
+  profiles: ServerProfiles,
+  profileName: string
+) {
+  const name = profileName.trim();
+  if (!name) {
+    throw new AppError({
+      developerMessage: "Empty profile name.",
+      userMessage: "A profile must have a name.",
+    });
+  }
+  if (profiles[name]) {
+    throw new AppError({
+      developerMessage: `Profile '${name}' already exists.`,
+      userMessage: `A profile named '${name}' already exists, choose another name.`,
+    });
+  }
+  return name;
+}
+
+/**
+ * Drops the disabled servers enabled by an applied profile. A disabled server named like a server
+ * of the profile but with another config is kept under a suffixed name instead, so that its
+ * config is not lost.
+ * @param servers - The servers of the profile, by name
+ */
+function dropEnabledDisabledServers(servers: {
+  [serverName: string]: MCPServerConfig;
+}) {
+  const disabledServers = getDisabledServers();
+  const takenNames = new Set([
+    ...Object.keys(disabledServers),
+    ...Object.keys(servers),
+  ]);
+
+  Object.entries(servers)
+    .filter(([serverName]) => serverName in disabledServers)
+    .forEach(([serverName, serverConfig]) => {
+      const disabledConfig = disabledServers[serverName];
+      if (!isDeepStrictEqual(disabledConfig, serverConfig)) {
+        let suffix = 2;
+        while (takenNames.has(`${serverName}-${suffix}`)) {
+          suffix++;
+        }
+        const suffixedName = `${serverName}-${suffix}`;
+        takenNames.add(suffixedName);
+        addDisabledServer(suffixedName, disabledConfig);
+      }
+      removeDisabledServers([serverName]);
+    });
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Lists the stored profiles.
+ * @returns The profiles, sorted by name
+ * @throws an AppError if the profiles can't be read
+ */
+export function listProfiles(): ServerProfile[] {
+  return Object.entries(readProfiles())
+    .map(([name, profile]) => ({ name, ...profile }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Creates a profile from the MCP servers currently in the Claude Desktop App config file.
+ * @param profileName - The name of the new profile
+ * @throws an AppError if the name is not available or the config can't be read
+ */
+export function createProfile({ profileName }: { profileName: string }) {
+  const profiles = readProfiles();
+  const name = assertAvailableProfileName(profiles, profileName);
+
+  profiles[name] = {
+    servers: getMCPServers(),
+    createdAt: new Date().toISOString(),
+  };
+  writeProfiles(profiles);
+}
+
+/**
+ * Creates a copy of a profile under a new name.
+ * @param profileName - The name of the profile to clone
+ * @param newProfileName - The name of the copy
+ * @throws an AppError if the profile does not exist or the new name is not available
+ */
+export function cloneProfile({
+  profileName,
+  newProfileName,
+}: {
+  profileName: string;
+  newProfileName: string;
+}) {
+  const profiles = readProfiles();
+  const profile = getProfile(profiles, profileName);
+  const name = assertAvailableProfileName(profiles, newProfileName);
+
+  profiles[name] = {
+    servers: profile.servers,
+    createdAt: new Date().toISOString(),
+  };
+  writeProfiles(profiles);
+}
+
+/**
+ * Renames a profile.
+ * @param profileName - The current name of the profile
+ * @param newProfileName - The new name of the profile
+ * @throws an AppError if the profile does not exist or the new name is not available
+ */
+export function renameProfile({
+  profileName,
+  newProfileName,
+}: {
+  profileName: string;
+  newProfileName: string;
+}) {
+  const profiles = readProfiles();
+  const profile = getProfile(profiles, profileName);
+  const name = assertAvailableProfileName(profiles, newProfileName);
+
+  delete profiles[profileName];
+  profiles[name] = profile;
+  writeProfiles(profiles);
+}
+
+/**
+ * Deletes a profile. The MCP servers of the Claude Desktop App config file are left untouched.
+ * @param profileName - The name of the profile to delete
+ * @throws an AppError if the profile does not exist
+ */
+export function deleteProfile({ profileName }: { profileName: string }) {
+  const profiles = readProfiles();
+  getProfile(profiles, profileName);
+
+  delete profiles[profileName];
+  writeProfiles(profiles);
+}
+
+/**
+ * Applies a profile: the MCP servers of the Claude Desktop App config file are replaced by the
+ * servers of the profile in a single write and Claude is restarted to pick them up.
+ * Servers of the config that are not part of the profile are disabled so their config is not lost,
+ * disabled servers named like servers of the profile are kept unless they have the same config.
+ * @param profileName - The name of the profile to apply
+ * @throws an AppError if the profile does not exist, the config can't be updated or Claude can't be restarted
+ */
+export function applyProfile({ profileName }: { profileName: string }) {
+  const profile = getProfile(readProfiles(), profileName);
+
+  const droppedServers = Object.entries(getMCPServers()).filter(
+    ([serverName]) => !(serverName in profile.servers)
+  );
+  try {
+    droppedServers.forEach(([serverName, serverConfig]) =>
+      addDisabledServer(serverName, serverConfig)
+    );
+    replaceMCPServers(profile.servers);
+  } catch (error) {
+    // the dropped servers are still in the config, they must not be listed as disabled.
+    removeDisabledServers(droppedServers.map(([serverName]) => serverName));
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new AppError({
+      developerMessage: `Failed to apply profile '${profileName}'.`,
+      userMessage: `We failed to apply the profile '${profileName}' to your Claude Desktop App config file.
+      Join our discord for support: ${DISCORD_URL}`,
+      originalError: error as Error,
+    });
+  }
+  dropEnabledDisabledServers(profile.servers);
+
+  try {
+    restartClaudeDesktop();
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Failed to restart the Claude Desktop App.",
+      userMessage: `The profile '${profileName}' was applied but we failed to restart your Claude Desktop App.
+      Restart it manually to use the servers of the profile.`,
+      originalError: error as Error,
+    });
+  }
+}
+
+/**
+ * Updates the servers of every profile, e.g. when the clone they run from moves.
+ * @param update - Gets the updated config of a server, the same config to leave it as is
+ * @throws an AppError if the profiles file can't be read or written
+ */
+export function updateProfileServers(
+  update: (serverConfig: MCPServerConfig) => MCPServerConfig
+) {
+  const profiles = readProfiles();
+  let updated = false;
+  Object.values(profiles).forEach((profile) => {
+    Object.entries(profile.servers).forEach(([serverName, serverConfig]) => {
+      const updatedConfig = update(serverConfig);
+      if (updatedConfig !== serverConfig) {
+        profile.servers[serverName] = updatedConfig;
+        updated = true;
+      }
+    });
+  });
+  if (updated) {
+    writeProfiles(profiles);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Provisioning module for the main process.
+ * The runtimes of a MCP server download its interpreter and its dependencies the first time they
+ * run it, which often takes longer than Claude waits for the server to start. The installer runs
+ * the provisioning commands of the runtimes (see getProvisionCommands) once at install time
+ * instead, with the binaries shipped with the app, so that the server starts right away.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import { spawn } from "node:child_process";
+
+import { AppError, InstallCancelledError } from "../shared/error";
+import { logger } from "../shared/logger";
+import { DISCORD_URL } from "../shared/constants";
+
+import type { MCPServerConfig } from "./claude";
+import {
+  type ProvisionCommand,
+  type RuntimeContext,
+  getProvisionCommands,
+} from "./runtimes";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * Called as a provisioning command starts, and with the last lines of its output as it runs.
+ */
+type ProvisionProgressCallback = (
+  command: ProvisionCommand,
+  output: string[]
+) => void;
+
+// ============================
+// Constants
+// ============================
+
+// a command taking longer is killed, e.g. when stuck on a network issue.
+const PROVISION_TIMEOUT_MS = 15 * 60 * 1000;
+
+// lines of output streamed to the renderer, and shown to the user when a command fails.
+const OUTPUT_TAIL_LINES = 20;
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Runs a provisioning command.
+ * @param command - The command
+ * @param env - The env of the MCP server, added to the env of the app
+ * @param onOutput - Called with each line of output (stdout and stderr) of the command
+ * @param signal - Kills the command
+ * @throws InstallCancelledError if the command is killed by the signal
+ * @throws Error if the command can't be run, fails or times out
+ */
+function runCommand(
+  { argv, cwd }: ProvisionCommand,
+  env: { [key: string]: string },
+  onOutput: (line: string) => void,
+  signal?: AbortSignal
+) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(
+        new InstallCancelledError({
+          developerMessage: "The install was cancelled.",
+        })
+      );
+      return;
+    }
+
+    const [binary, ...args] = argv;
+    const child = spawn(binary, args, {
+      cwd,
+      env: { ...process.env, ...env },
+      windowsHide: true,
+    });
+
+    let killedBy: "timeout" | "signal" | undefined = undefined;
+    const kill = (reason: typeof killedBy) => {
+      killedBy = reason;
+      child.kill();
+    };
+    const timeout = setTimeout(() => kill("timeout"), PROVISION_TIMEOUT_MS);
+    const onAbort = () => kill("signal");
+    signal?.addEventListener("abort", onAbort);
+
+    let settled = false;
+    const settle = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    // the output comes in chunks, lines are only reported once complete.
+    const readLines = (stream: NodeJS.ReadableStream | null) => {
+      let pending = "";
+      stream?.on("data", (chunk: Buffer) => {
+        const lines = (pending + chunk.toString()).split(/\r?\n|\r/);
+        pending = lines.pop() ?? "";
+        lines.filter((line) => line.trim()).forEach(onOutput);
+      });
+      stream?.on("end", () => {
+        if (pending.trim()) onOutput(pending);
+      });
+    };
+    readLines(child.stdout);
+    readLines(child.stderr);
+
+    child.on("error", (error) => settle(error));
+    child.on("close", (code) => {
+      if (killedBy === "signal") {
+        settle(
+          new InstallCancelledError({
+            developerMessage: "The install was cancelled.",
+          })
+        );
+      } else if (killedBy === "timeout") {
+        settle(
+          new Error(`Timed out after ${PROVISION_TIMEOUT_MS / 1000} seconds.`)
+        );
+      } else if (code !== 0) {
+        settle(new Error(`Exited with code ${code}.`));
+      } else {
+        settle();
+      }
+    });
+  });
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Provisions a MCP server: runs the provisioning commands of its runtimes in turn.
+ * The whole output of the commands is written to the logs of the app.
+ * @param config - The config of the server, adapted by adaptConfig
+ * @param context - The server
+ * @param onProgress - Called as each command starts and with its last lines of output as it runs
+ * @param signal - Cancels the provisioning, the running command is killed
+ * @returns The commands run
+ * @throws AppError if a command fails, the following commands are not run
+ * @throws InstallCancelledError if the provisioning is cancelled
+ */
+export async function provisionServer(
+  config: MCPServerConfig,
+  context: RuntimeContext,
+  onProgress?: ProvisionProgressCallback,
+  signal?: AbortSignal
+) {
+  const commands = getProvisionCommands(config, context);
+
+  for (const command of commands) {
+    const output: string[] = [];
+    onProgress?.(command, []);
+    try {
+      await runCommand(
+        command,
+        config.env ?? {},
+        (line) => {
+          output.push(line);
+          onProgress?.(command, output.slice(-OUTPUT_TAIL_LINES));
+        },
+        signal
+      );
+      logger.debug(
+        `Provisioned '${context.serverName}' with '${command.argv.join(" ")}':\n${output.join("\n")}`
+      );
+    } catch (error) {
+      if (error instanceof InstallCancelledError) {
+        throw error;
+      }
+      logger.error(
+        `Failed to provision '${context.serverName}' with '${command.argv.join(" ")}':\n${output.join("\n")}`,
+        error as Error
+      );
+      const tail = output.slice(-5).join("\n");
+      throw new AppError({
+        developerMessage: `'${command.argv.join(" ")}' failed while provisioning '${context.serverName}'.`,
+        userMessage: `We couldn't prepare the MCP server '${context.serverName}' on your computer, '${command.description}' failed.${tail ? `\n${tail}` : ""}
+        Join our discord for support: ${DISCORD_URL}`,
+        originalError: error as Error,
+      });
+    }
+  }
+
+  return commands;
+}
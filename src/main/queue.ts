@@ -0,0 +1,223 @@
+/**
+ * Install queue module for the main process.
+ * Installs run one at a time so that they never race on the same cloned repository or on the
+ * Claude Desktop App config file. Identical installs already waiting or running are not queued
+ * again and any install can be cancelled.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import { randomUUID } from "node:crypto";
+import type { BrowserWindow } from "electron";
+
+import { AppError } from "../shared/error";
+import { logger } from "../shared/logger";
+import { sendToWindow } from "../shared/ipc";
+
+import { cancelCredentialsRequests } from "./credentials";
+import { install } from "./installer";
+import { cancelInstallReviews } from "./review";
+
+// ============================
+// Type Definitions
+// ============================
+
+type InstallJob = {
+  installId: string;
+  // the iod:// url of the install, identical urls are the same install.
+  url: string;
+  mainWindow?: BrowserWindow;
+  controller: AbortController;
+  // whether the job had to wait for other jobs before starting.
+  waited: boolean;
+};
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * The jobs waiting or running, the first one is the one running.
+ */
+const jobs: InstallJob[] = [];
+
+/**
+ * Resolves once the last queued job is over.
+ */
+let queueTail: Promise<void> = Promise.resolve();
+
+/**
+ * The window reviewing the installs, once its renderer is loaded.
+ */
+let installWindow: BrowserWindow | undefined = undefined;
+
+/**
+ * The urls opened while no window could review their install, e.g. the url the app is launched
+ * with on macOS. They are queued once a window is ready.
+ */
+const deferredUrls: string[] = [];
+
+/**
+ * Runs a job of the queue and removes it from the queue once over.
+ * @param job - The job to run
+ */
+async function runJob(job: InstallJob) {
+  try {
+    // jobs cancelled while waiting are already out of the queue.
+    if (jobs.includes(job)) {
+      if (job.waited && job.mainWindow) {
+        sendToWindow(job.mainWindow, "installer:progress", {
+          installId: job.installId,
+          step: "queue",
+          status: "done",
+          message: "Started after the other installs",
+        });
+      }
+      await install(job.url, job.mainWindow, {
+        installId: job.installId,
+        signal: job.controller.signal,
+      });
+    }
+  } finally {
+    const index = jobs.indexOf(job);
+    if (index !== -1) {
+      jobs.splice(index, 1);
+    }
+  }
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Adds an install to the queue, it starts once the installs queued before it are over.
+ * An install identical to one already waiting or running is not queued again.
+ * @param url - The iod.ai url to install
+ * @param mainWindow - The main window of the app to send messages to
+ * @returns The id of the install, the one already queued for identical installs
+ */
+export function enqueueInstall(url: string, mainWindow?: BrowserWindow) {
+  const queuedJob = jobs.find((job) => job.url === url);
+  if (queuedJob) {
+    if (mainWindow) {
+      sendToWindow(mainWindow, "notify", {
+        type: "info",
+        title: "MCP Server Installation",
+        message: "This MCP server is already being installed.",
+      });
+    }
+    return queuedJob.installId;
+  }
+
+  const job: InstallJob = {
+    installId: randomUUID(),
+    url,
+    mainWindow,
+    controller: new AbortController(),
+    waited: jobs.length > 0,
+  };
+  jobs.push(job);
+
+  if (job.waited && mainWindow) {
+    sendToWindow(mainWindow, "installer:progress", {
+      installId: job.installId,
+      step: "queue",
+      status: "running",
+      message: `Waiting for ${jobs.length - 1} other install(s) to finish`,
+    });
+  }
+
+  // a failing job must not stop the jobs queued after it.
+  queueTail = queueTail
+    .then(() => runJob(job))
+    .catch((error) =>
+      logger.error("Unexpected install queue error", error as Error)
+    );
+  return job.installId;
+}
+
+/**
+ * Queues the install of an iod.ai url opened by the user, kept until a window can review it if
+ * none can yet.
+ * @param url - The iod.ai url to install
+ */
+export function openInstallUrl(url: string) {
+  if (installWindow) {
+    enqueueInstall(url, installWindow);
+  } else {
+    deferredUrls.push(url);
+  }
+}
+
+/**
+ * Sets the window reviewing the installs of the urls opened by the user and queues the installs
+ * of the urls opened before.
+ * The reviews and credentials requests shown by the previous renderer are cancelled, and once
+ * the window is closed the installs reporting to it are cancelled too.
+ * @param mainWindow - The main window of the app once its renderer is loaded, undefined once closed
+ */
+export function setInstallWindow(mainWindow?: BrowserWindow) {
+  // the renderer showing them is gone (closed or reloaded), they would never be answered.
+  cancelInstallReviews();
+  cancelCredentialsRequests();
+  if (!mainWindow) {
+    jobs.slice().forEach(({ installId }) => cancelInstall({ installId }));
+  }
+
+  installWindow = mainWindow;
+  if (installWindow) {
+    deferredUrls.splice(0).forEach((url) => openInstallUrl(url));
+  }
+}
+
+/**
+ * Cancels an install. A waiting install is removed from the queue, a running install is stopped
+ * unless the Claude Desktop App config file was already written.
+ * @param installId - The id of the install to cancel
+ * @throws AppError if the install is over
+ */
+export function cancelInstall({ installId }: { installId: string }) {
+  const index = jobs.findIndex((job) => job.installId === installId);
+  if (index === -1) {
+    throw new AppError({
+      developerMessage: `Install '${installId}' not found in the install queue.`,
+      userMessage: "The installation is already over.",
+    });
+  }
+
+  const job = jobs[index];
+  job.controller.abort();
+
+  // the running install reports its own cancellation, a waiting one never starts.
+  if (index > 0) {
+    jobs.splice(index, 1);
+    if (job.mainWindow) {
+      sendToWindow(job.mainWindow, "installer:progress", {
+        installId,
+        step: "finish",
+        status: "cancelled",
+        message: "Installation cancelled",
+      });
+    }
+  }
+}
+
+/**
+ * Runs a task touching the clones or the Claude Desktop App config file outside of an install,
+ * e.g. the migration of the legacy clones, in turn with the installs: it starts once the
+ * installs queued before it are over and the installs queued after it wait for it.
+ * @param task - The task to run
+ * @returns The result of the task
+ */
+export function runExclusive<T>(task: () => Promise<T>) {
+  const result = queueTail.then(task);
+  // the caller handles the failure of the task, the queue goes on.
+  queueTail = result.then(
+    () => undefined,
+    () => undefined
+  );
+  return result;
+}
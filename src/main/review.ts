@@ -0,0 +1,251 @@
+/**
+ * Install review module for the main process.
+ * Installs come from iod:// urls any webpage can open, so nothing is installed before the user
+ * reviewed and approved what is about to be written in the Claude Desktop App config file.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import type { BrowserWindow } from "electron";
+
+import { AppError, InstallCancelledError } from "../shared/error";
+import { sendToWindow } from "../shared/ipc";
+
+import type {
+  ArchiveSource,
+  CollisionResolution,
+  GitSource,
+  ServerCollision,
+} from "./installer";
+import type { ConfigChange } from "./runtimes";
+import type { PayloadVerification } from "./signatures";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * What installing a MCP server writes in the Claude Desktop App config file.
+ */
+export type InstallReviewServer = {
+  serverName: string;
+  /**
+   * The repository cloned for the server, if any.
+   */
+  git?: GitSource;
+  /**
+   * The archive downloaded for the server, if any.
+   */
+  source?: ArchiveSource;
+  /**
+   * The command and arguments written in the config, once fixed for this machine.
+   */
+  command: string;
+  args: string[];
+  /**
+   * What fixing the config for this machine changed and why, by runtime. Only the env vars set
+   * or changed are listed, the other ones are in env.
+   */
+  changes?: ConfigChange[];
+  /**
+   * The env vars of the server, secret values masked.
+   */
+  env: { [key: string]: string };
+  /**
+   * The secret env vars left empty, e.g. by the export of a bundle, the user is asked for them.
+   */
+  missingSecrets?: string[];
+  /**
+   * The existing server (enabled or disabled) of the same name, if any.
+   */
+  collision?: ServerCollision;
+  /**
+   * Why the server can't be installed, if it can't.
+   */
+  error?: string;
+};
+
+/**
+ * An install waiting for the user approval.
+ */
+export type InstallReview = {
+  installId: string;
+  /**
+   * Whether the install comes from a trusted publisher.
+   */
+  verification: PayloadVerification;
+  servers: InstallReviewServer[];
+};
+
+/**
+ * The answer of the user to the review of an install.
+ */
+export type InstallReviewAnswer = {
+  approved: boolean;
+  /**
+   * What to do with the servers colliding with installed servers, by server name.
+   */
+  resolutions: { [serverName: string]: CollisionResolution };
+  /**
+   * The values given by the user for the missing secrets, by server name.
+   */
+  secrets?: { [serverName: string]: { [key: string]: string } };
+};
+
+// ============================
+// Constants
+// ============================
+
+// env vars whose name matches are considered secrets.
+const SECRET_ENV_PATTERN =
+  /key|token|secret|password|passwd|pwd|auth|credential|cookie|session|private/i;
+
+// shown instead of secret values.
+const SECRET_MASK = "••••••••";
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * The installs waiting for the user approval, by install id: settled with the answer of the
+ * user, or cancelled when the renderer showing the review is gone.
+ */
+const pendingReviews = new Map<
+  string,
+  {
+    settle: (answer: InstallReviewAnswer) => void;
+    cancel: () => void;
+  }
+>();
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Blanks the secret values of env vars, so that they can be shared without leaking.
+ * @param env - The env vars
+ * @returns The env vars with secret values emptied
+ */
+export function blankSecretEnv(env: { [key: string]: string } = {}) {
+  return Object.fromEntries(
+    Object.entries(env).map(([key, value]) => [
+      key,
+      SECRET_ENV_PATTERN.test(key) ? "" : value,
+    ])
+  );
+}
+
+/**
+ * Lists the secret env vars without a value, which the user must give before installing.
+ * @param env - The env vars
+ * @returns The names of the empty secret env vars
+ */
+export function getMissingSecrets(env: { [key: string]: string } = {}) {
+  return Object.keys(env).filter(
+    (key) => SECRET_ENV_PATTERN.test(key) && !env[key]
+  );
+}
+
+/**
+ * Masks the secret values of env vars, only the last characters of long secrets are kept
+ * so that the user can still recognize them.
+ * @param env - The env vars
+ * @returns The env vars with secret values masked
+ */
+export function maskEnv(env: { [key: string]: string } = {}) {
+  return Object.fromEntries(
+    Object.entries(env).map(([key, value]) => {
+      if (!SECRET_ENV_PATTERN.test(key) || !value) {
+        return [key, value];
+      }
+      return [
+        key,
+        value.length > 12 ? `${SECRET_MASK}${value.slice(-4)}` : SECRET_MASK,
+      ];
+    })
+  );
+}
+
+/**
+ * Asks the user to review an install in the renderer and waits for the answer.
+ * @param review - The install to review
+ * @param mainWindow - The main window of the app showing the review, without it the install is never approved
+ * @param signal - Cancels the review, as if the user rejected the install
+ * @returns The answer of the user
+ * @throws InstallCancelledError if the review is cancelled by cancelInstallReviews
+ */
+export function requestInstallReview(
+  review: InstallReview,
+  mainWindow?: BrowserWindow,
+  signal?: AbortSignal
+) {
+  return new Promise<InstallReviewAnswer>((resolve, reject) => {
+    if (!mainWindow || signal?.aborted) {
+      resolve({ approved: false, resolutions: {} });
+      return;
+    }
+
+    const cleanUp = () => {
+      pendingReviews.delete(review.installId);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const settle = (answer: InstallReviewAnswer) => {
+      cleanUp();
+      resolve(answer);
+    };
+    const cancel = () => {
+      cleanUp();
+      reject(
+        new InstallCancelledError({
+          developerMessage: "The review was closed before the user answered.",
+        })
+      );
+    };
+    const onAbort = () => settle({ approved: false, resolutions: {} });
+    signal?.addEventListener("abort", onAbort);
+
+    pendingReviews.set(review.installId, { settle, cancel });
+    sendToWindow(mainWindow, "installer:review-request", review);
+  });
+}
+
+/**
+ * Answers the review of an install.
+ * @param installId - The id of the reviewed install
+ * @param approved - Whether the user approved the install
+ * @param resolutions - What to do with the servers colliding with installed servers
+ * @param secrets - The values given for the missing secrets, by server name
+ * @throws AppError if the install is not waiting for a review anymore
+ */
+export function respondInstallReview({
+  installId,
+  approved,
+  resolutions = {},
+  secrets = {},
+}: {
+  installId: string;
+  approved: boolean;
+  resolutions?: InstallReviewAnswer["resolutions"];
+  secrets?: InstallReviewAnswer["secrets"];
+}) {
+  const pendingReview = pendingReviews.get(installId);
+  if (!pendingReview) {
+    throw new AppError({
+      developerMessage: `Install '${installId}' is not waiting for a review.`,
+      userMessage: "The installation is not waiting for your approval anymore.",
+    });
+  }
+  pendingReview.settle({ approved, resolutions, secrets });
+}
+
+/**
+ * Cancels the reviews waiting for the user answer, e.g. when the window showing them is closed
+ * or reloaded: they would never be answered and their installs would hold the install queue.
+ */
+export function cancelInstallReviews() {
+  Array.from(pendingReviews.values()).forEach(({ cancel }) => cancel());
+}
@@ -0,0 +1,873 @@
+/**
+ * Runtimes module for the main process.
+ * MCP servers are run by a runtime (uv, uvx, npx, ...) whose arguments, binaries and environment
+ * are adapted to the machine on install. Each runtime is described by an adapter in a registry,
+ * new runtimes are supported by registering their adapter.
+ * Adapters work on the parsed command line of the configs (see commandline.ts), adapting a config
+ * already adapted changes nothing. They also list the commands downloading the interpreter and the
+ * dependencies of a server at install time (see provisioning.ts).
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+import { existsSync } from "node:fs";
+import { app } from "electron";
+
+import type { MCPServerConfig } from "./claude";
+import {
+  type CommandNode,
+  type CommandSyntax,
+  getOptionValue,
+  parseCommandLine,
+  setOptionValue,
+} from "./commandline";
+import { type DiffLine, diffItems } from "./diff";
+import { IOD_HOME, isInIODHome } from "./storage";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * What an adapter knows about the MCP server it adapts.
+ */
+export type RuntimeContext = {
+  serverName: string;
+  /**
+   * The directory of the server when it was cloned or downloaded (see getServerDir).
+   */
+  repoDir?: string;
+  /**
+   * The versions the server must run with, the defaults of the runtimes otherwise.
+   */
+  versions?: RuntimeVersions;
+};
+
+/**
+ * Versions of the interpreters of the runtimes, as understood by fnmx (e.g. '22', 'v22.11.0',
+ * 'lts') and uv (e.g. '3.12', '>=3.11').
+ */
+export type RuntimeVersions = {
+  node?: string;
+  python?: string;
+};
+
+/**
+ * The command line of a MCP server config (its command followed by its args) and the programs
+ * it runs, outermost first.
+ */
+export type CommandLine = {
+  argv: string[];
+  commands: CommandNode[];
+};
+
+/**
+ * Adapts the MCP server configs run by a runtime to the machine they are installed on, and back.
+ */
+export type RuntimeAdapter = {
+  /**
+   * The name of the runtime, e.g. 'uv'.
+   */
+  name: string;
+  /**
+   * The binaries of the runtime shipped with the app, they replace the ones of the user's system.
+   */
+  binaries: string[];
+  /**
+   * The syntax of the commands of the runtime, by program name, e.g. 'uv'.
+   */
+  commands: { [program: string]: CommandSyntax };
+  /**
+   * The syntax of the packages running other programs, by package name, e.g. the omproxy wrapper.
+   */
+  packages?: { [name: string]: CommandSyntax };
+  /**
+   * The option of the commands of the runtime followed by the directory of the server, e.g.
+   * '--directory' for uv.
+   */
+  directoryFlag?: string;
+  /**
+   * Whether a command line is run by the runtime, by default when it runs one of its commands.
+   */
+  detect?: (commandLine: CommandLine) => boolean;
+  /**
+   * Rewrites a command line run by the runtime for this machine. It must leave a command line it
+   * already rewrote as is.
+   */
+  rewriteArgv?: (commandLine: CommandLine, context: RuntimeContext) => string[];
+  /**
+   * Reverts rewriteArgv, once binaries paths are stripped and before the directory of the server is.
+   */
+  restoreArgv?: (commandLine: CommandLine) => string[];
+  /**
+   * Resolves a binary of the runtime into an absolute path, the binaries shipped with the app by default.
+   */
+  resolveBinary?: (binary: string) => string;
+  /**
+   * Gets the env variables the runtime needs on this machine.
+   */
+  provisionEnv?: (context: RuntimeContext) => { [key: string]: string };
+  /**
+   * Removes the env variables set by provisionEnv.
+   */
+  restoreEnv?: (env: { [key: string]: string }) => { [key: string]: string };
+  /**
+   * Gets the commands installing what a command line adapted by the runtime needs to start, e.g.
+   * its interpreter and its dependencies, so that Claude doesn't wait for them on the first start.
+   */
+  provisionCommands?: (
+    commandLine: CommandLine,
+    context: RuntimeContext,
+    env: { [key: string]: string }
+  ) => ProvisionCommand[];
+};
+
+/**
+ * A command run at install time to provision a MCP server.
+ */
+export type ProvisionCommand = {
+  /**
+   * What the command does, shown to the user, e.g. 'Installing Python 3.12'.
+   */
+  description: string;
+  /**
+   * The command line, starting with a binary of a runtime, e.g. 'uv'.
+   */
+  argv: string[];
+  /**
+   * The directory the command runs in, if it matters.
+   */
+  cwd?: string;
+};
+
+/**
+ * A change made to a MCP server config while adapting it to this machine.
+ */
+export type ConfigChange = {
+  /**
+   * What made the change: the name of a runtime, or 'binaries' for the binaries shipped with the app.
+   */
+  reason: string;
+  /**
+   * The diff of the command line (the command followed by the args), one line per argument.
+   */
+  argv: DiffLine[];
+  /**
+   * The diff of the env, one 'KEY=value' line per variable.
+   */
+  env: DiffLine[];
+};
+
+// ============================
+// Constants
+// ============================
+
+// node version used by fnmx to run npx based MCP servers, when no version is required.
+const DEFAULT_NODE_VERSION = "v22";
+
+// options of uv and uvx setting the python version.
+const PYTHON_FLAGS = ["--python", "-p"];
+
+// options of uv and uvx followed by a value.
+const UV_OPTIONS_WITH_VALUE = [
+  "--directory",
+  "--project",
+  "--from",
+  "--with",
+  "--with-editable",
+  "--with-requirements",
+  "--python",
+  "-p",
+  "--python-preference",
+  "--package",
+  "--extra",
+  "--group",
+  "--only-group",
+  "--no-group",
+  "--env-file",
+  "--index",
+  "--default-index",
+  "--index-url",
+  "-i",
+  "--extra-index-url",
+  "--find-links",
+  "-f",
+  "--index-strategy",
+  "--keyring-provider",
+  "--resolution",
+  "--prerelease",
+  "--exclude-newer",
+  "--link-mode",
+  "--config-setting",
+  "-C",
+  "--cache-dir",
+  "--config-file",
+  "--color",
+  "--allow-insecure-host",
+];
+
+/**
+ * uv runs python MCP servers, from a cloned repository with --directory.
+ */
+const uvAdapter: RuntimeAdapter = {
+  name: "uv",
+  binaries: ["uv"],
+  commands: {
+    uv: {
+      optionsWithValue: UV_OPTIONS_WITH_VALUE,
+      // uv run <command>
+      positionals: 1,
+      runs: "command",
+    },
+  },
+  directoryFlag: "--directory",
+  rewriteArgv: (commandLine, { versions }) =>
+    pinPython(commandLine, "uv", versions?.python),
+  restoreArgv: (commandLine) => unpinPython(commandLine, "uv"),
+  provisionEnv: provisionUVEnv,
+  restoreEnv: restoreUVEnv,
+  provisionCommands: (commandLine, _context, env) =>
+    getUVProvisionCommands(commandLine, "uv", env),
+};
+
+/**
+ * uvx runs python MCP servers from a package, or from a cloned repository with --from.
+ */
+const uvxAdapter: RuntimeAdapter = {
+  name: "uvx",
+  binaries: ["uvx"],
+  commands: {
+    uvx: { optionsWithValue: UV_OPTIONS_WITH_VALUE, runs: "package" },
+  },
+  packages: {
+    // proxy of iod.ai wrapping the command of the MCP server.
+    omproxy: { optionsWithValue: ["--name"], runs: "command" },
+  },
+  directoryFlag: "--from",
+  rewriteArgv: (commandLine, { versions }) =>
+    pinPython(commandLine, "uvx", versions?.python),
+  restoreArgv: (commandLine) => unpinPython(commandLine, "uvx"),
+  provisionEnv: provisionUVEnv,
+  restoreEnv: restoreUVEnv,
+  // the environments of the packages run by uvx are only created when run, only python is installed.
+  provisionCommands: (commandLine, _context, env) =>
+    getUVProvisionCommands(commandLine, "uvx", env),
+};
+
+/**
+ * npx runs node MCP servers, with the node version installed (if necessary) by fnmx.
+ */
+const npxAdapter: RuntimeAdapter = {
+  name: "npx",
+  binaries: ["fnm", "fnmx"],
+  commands: {
+    npx: {
+      optionsWithValue: ["-p", "--package", "-c", "--call", "--registry"],
+      runs: "package",
+    },
+    // fnmx <node version> <command>
+    fnmx: { positionals: 1, runs: "command" },
+    // cmd.exe /c <command>
+    cmd: { positionals: 1, runs: "command" },
+  },
+  detect: ({ commands }) => commands.some(isNPX),
+  rewriteArgv: ({ argv, commands }, { versions }) => {
+    const returnedArgv = Array.from(argv);
+    const nodeVersion = versions?.node ?? DEFAULT_NODE_VERSION;
+    // from the end, so that the indexes of the commands before stay valid.
+    for (let i = commands.length - 1; i >= 0; i--) {
+      if (!isNPX(commands[i])) continue;
+      const fnmx = getFNMX(argv, commands, i);
+      if (fnmx) {
+        returnedArgv[fnmx.positionals[0]] = nodeVersion;
+        continue;
+      }
+
+      if (process.platform === "win32") {
+        // if we are on windows, we need to add cmd.exe /c before npx
+        // otherwise PATH is not correctly set and npx / npm are not found.
+        returnedArgv.splice(
+          commands[i].index,
+          0,
+          "fnmx",
+          nodeVersion,
+          "cmd.exe",
+          "/c"
+        );
+      } else {
+        // add fnmx which will install (if necessary) and use the node version.
+        returnedArgv.splice(commands[i].index, 0, "fnmx", nodeVersion);
+      }
+    }
+    return returnedArgv;
+  },
+  restoreArgv: ({ argv, commands }) => {
+    const returnedArgv = Array.from(argv);
+    for (let i = commands.length - 1; i >= 0; i--) {
+      const fnmx = isNPX(commands[i]) && getFNMX(argv, commands, i);
+      if (!fnmx) continue;
+      returnedArgv.splice(fnmx.index, commands[i].index - fnmx.index);
+    }
+    return returnedArgv;
+  },
+  provisionCommands: ({ argv, commands }, { repoDir }) => {
+    const provisionCommands: ProvisionCommand[] = [];
+    commands.forEach((command, i) => {
+      const fnmx = isNPX(command) && getFNMX(argv, commands, i);
+      if (!fnmx) return;
+      const nodeVersion = argv[fnmx.positionals[0]];
+      // fnmx installs the node version (if necessary) before running the command.
+      provisionCommands.push({
+        description: `Installing Node ${nodeVersion}`,
+        argv: ["fnmx", nodeVersion, "node", "--version"],
+      });
+      if (repoDir && existsSync(path.join(repoDir, "package-lock.json"))) {
+        provisionCommands.push({
+          description: "Installing the Node dependencies",
+          argv:
+            process.platform === "win32"
+              ? ["fnmx", nodeVersion, "cmd.exe", "/c", "npm", "ci"]
+              : ["fnmx", nodeVersion, "npm", "ci"],
+          cwd: repoDir,
+        });
+      }
+    });
+    return provisionCommands;
+  },
+};
+
+/**
+ * The registered adapters, in the order they adapt a config.
+ */
+const runtimeAdapters: RuntimeAdapter[] = [uvAdapter, uvxAdapter, npxAdapter];
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Whether a program of a command line is npx.
+ * @param command - The program
+ * @returns True if the program is the npx command
+ */
+function isNPX({ program, kind }: CommandNode) {
+  return kind === "command" && program === "npx";
+}
+
+/**
+ * Gets the fnmx running a program directly, or through cmd.exe /c.
+ * @param argv - The command line
+ * @param commands - The programs of the command line
+ * @param i - The index of the program in commands
+ * @returns The fnmx program or undefined if the program is not run by fnmx
+ */
+function getFNMX(argv: string[], commands: CommandNode[], i: number) {
+  let parent = commands[i - 1];
+  if (
+    parent?.program === "cmd" &&
+    argv[parent.positionals[0]]?.toLowerCase() === "/c"
+  ) {
+    parent = commands[i - 2];
+  }
+  return parent?.kind === "command" && parent.program === "fnmx"
+    ? parent
+    : undefined;
+}
+
+/**
+ * Pins the python version of the commands of uv or uvx which don't choose one already.
+ * The version is given as '--python=<version>' right after the command, for unpinPython to find it.
+ * @param commandLine - The command line
+ * @param program - 'uv' or 'uvx'
+ * @param python? - The python version, noop if not provided
+ * @returns A new command line updated
+ */
+function pinPython(
+  { argv, commands }: CommandLine,
+  program: string,
+  python?: string
+) {
+  const returnedArgv = Array.from(argv);
+  if (!python) return returnedArgv;
+  // from the end, so that the indexes of the commands before stay valid.
+  for (let i = commands.length - 1; i >= 0; i--) {
+    const command = commands[i];
+    if (
+      command.kind !== "command" ||
+      command.program !== program ||
+      command.options.some(({ flag }) => PYTHON_FLAGS.includes(flag))
+    ) {
+      continue;
+    }
+    returnedArgv.splice(command.index + 1, 0, `--python=${python}`);
+  }
+  return returnedArgv;
+}
+
+/**
+ * Removes the python versions pinned by pinPython.
+ * @param commandLine - The command line
+ * @param program - 'uv' or 'uvx'
+ * @returns A new command line updated
+ */
+function unpinPython({ argv, commands }: CommandLine, program: string) {
+  const returnedArgv = Array.from(argv);
+  for (let i = commands.length - 1; i >= 0; i--) {
+    const { kind, program: commandProgram, index } = commands[i];
+    if (
+      kind === "command" &&
+      commandProgram === program &&
+      argv[index + 1]?.startsWith("--python=")
+    ) {
+      returnedArgv.splice(index + 1, 1);
+    }
+  }
+  return returnedArgv;
+}
+
+/**
+ * Gets the commands of uv installing the python of the commands of uv or uvx, and the dependencies
+ * of the servers run by uv from their directory.
+ * @param commandLine - The adapted command line
+ * @param program - 'uv' or 'uvx'
+ * @param env - The env of the MCP server, its UV_PYTHON chooses the python version
+ * @returns The commands
+ */
+function getUVProvisionCommands(
+  { argv, commands }: CommandLine,
+  program: string,
+  env: { [key: string]: string }
+) {
+  const provisionCommands: ProvisionCommand[] = [];
+  commands.forEach(({ program: commandProgram, kind, options }) => {
+    if (kind !== "command" || commandProgram !== program) return;
+    const pythonOption = options.find(({ flag }) =>
+      PYTHON_FLAGS.includes(flag)
+    );
+    const python =
+      (pythonOption && getOptionValue(argv, pythonOption)) || env.UV_PYTHON;
+    provisionCommands.push({
+      description: python ? `Installing Python ${python}` : "Installing Python",
+      argv: ["uv", "python", "install", ...(python ? [python] : [])],
+    });
+
+    const directoryOption = options.find(({ flag }) => flag === "--directory");
+    const directory = directoryOption && getOptionValue(argv, directoryOption);
+    if (
+      program === "uv" &&
+      directory &&
+      existsSync(path.join(directory, "pyproject.toml"))
+    ) {
+      provisionCommands.push({
+        description: "Installing the Python dependencies",
+        argv: [
+          "uv",
+          "sync",
+          ...(python ? [`--python=${python}`] : []),
+          "--directory",
+          directory,
+        ],
+      });
+    }
+  });
+  return provisionCommands;
+}
+
+/**
+ * Gets the env of uv: on windows, the uv cache dir of each MCP server must be unique to avoid conflicts.
+ * @param context - The MCP server
+ * @returns The env variables to set
+ */
+function provisionUVEnv({ serverName }: RuntimeContext): {
+  [key: string]: string;
+} {
+  if (process.platform !== "win32") return {};
+  return { UV_CACHE_DIR: getUVCacheDir(serverName) };
+}
+
+/**
+ * Removes the uv cache dir set by provisionUVEnv.
+ * @param env - The env of the MCP server
+ * @returns A new env without the cache dir of iod
+ */
+function restoreUVEnv(env: { [key: string]: string }) {
+  const returnedEnv = { ...env };
+  if (returnedEnv.UV_CACHE_DIR && isInIODHome(returnedEnv.UV_CACHE_DIR)) {
+    delete returnedEnv.UV_CACHE_DIR;
+  }
+  return returnedEnv;
+}
+
+/**
+ * Looks for an executable in the directories listed in the PATH environment variable.
+ * @param execName - The executable name
+ * @returns The executable absolute path or undefined if not found
+ */
+function findBinaryOnPath(execName: string) {
+  const directories = (process.env.PATH || "").split(path.delimiter);
+  return directories
+    .filter((directory) => directory)
+    .map((directory) => path.join(directory, execName))
+    .find((candidate) => existsSync(candidate));
+}
+
+/**
+ * Resolves a binary of a registered runtime into an absolute path.
+ * @param program - The name of the binary, e.g. 'uv'
+ * @returns The absolute path or undefined if no runtime ships the binary
+ */
+function resolveRuntimeBinary(program: string) {
+  const adapter = runtimeAdapters.find(({ binaries }) =>
+    binaries.includes(program)
+  );
+  if (!adapter) return undefined;
+  return adapter.resolveBinary
+    ? adapter.resolveBinary(program)
+    : resolveBinaryPath(program);
+}
+
+/**
+ * Gets the commands of a command line run by a runtime.
+ * @param adapter - The adapter of the runtime
+ * @param commandLine - The command line
+ * @returns The commands of the runtime
+ */
+function getRuntimeCommands(
+  adapter: RuntimeAdapter,
+  { commands }: CommandLine
+) {
+  return commands.filter(
+    ({ program, kind }) => kind === "command" && program in adapter.commands
+  );
+}
+
+/**
+ * Whether a runtime runs a command line.
+ * @param adapter - The adapter of the runtime
+ * @param commandLine - The command line
+ * @returns True if the runtime runs the command line
+ */
+function isRunBy(adapter: RuntimeAdapter, commandLine: CommandLine) {
+  return adapter.detect
+    ? adapter.detect(commandLine)
+    : getRuntimeCommands(adapter, commandLine).length > 0;
+}
+
+/**
+ * Gets the directory options of the commands of a runtime in a command line.
+ * @param adapter - The adapter of the runtime
+ * @param commandLine - The command line
+ * @returns The options followed by a directory
+ */
+function getDirectoryOptions(
+  adapter: RuntimeAdapter,
+  commandLine: CommandLine
+) {
+  return getRuntimeCommands(adapter, commandLine).flatMap(({ options }) =>
+    options.filter(
+      ({ flag, valueIndex }) =>
+        flag === adapter.directoryFlag && valueIndex !== undefined
+    )
+  );
+}
+
+/**
+ * Lists the variables of an env as 'KEY=value' lines, sorted.
+ * @param env - The env
+ * @returns The lines
+ */
+function toEnvLines(env: { [key: string]: string } = {}) {
+  return Object.entries(env)
+    .map(([key, value]) => `${key}=${value}`)
+    .sort();
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Resolves the name of binary packaged in the app (e.g. 'uv') into an absolute path.
+ * @param binary - The binary name
+ * @returns The binary absolute path
+ * @throws Error if the returned path is not found
+ */
+export function resolveBinaryPath(binary: string) {
+  let execFolderPath = path.join(
+    __dirname,
+    "..",
+    "..",
+    "binaries",
+    process.platform,
+    process.arch
+  );
+
+  if (app.isPackaged) {
+    // when packaged, the binaries are in the Resources folder of the app
+    // we have to follow the way forge package the app to find the binaries
+    // in this case it keeps the arch but not the rest like: Resources/x64/uv
+    execFolderPath = path.join(process.resourcesPath, process.arch);
+  }
+
+  let execName = binary;
+  if (process.platform === "win32") {
+    execName += ".exe";
+  }
+
+  const binaryPath = path.join(execFolderPath, execName);
+  if (!existsSync(binaryPath)) {
+    // Linux builds may ship without bundled binaries, in that case we rely on the user's PATH.
+    const pathBinary =
+      process.platform === "linux" ? findBinaryOnPath(execName) : undefined;
+    if (pathBinary) {
+      return pathBinary;
+    }
+    throw new Error(`Binary ${binary} not found in ${binaryPath}`);
+  }
+
+  return binaryPath;
+}
+
+/**
+ * Gets the uv cache directory dedicated to a MCP server (only used on windows).
+ * @param serverName - The name of the MCP server
+ * @returns The absolute path of the cache directory
+ */
+export function getUVCacheDir(serverName: string) {
+  return path.join(IOD_HOME, "uv", "cache", serverName);
+}
+
+/**
+ * Registers the adapter of a runtime, it adapts the configs after the adapters registered before.
+ * @param adapter - The adapter
+ * @throws Error if an adapter of the same name, or shipping the same binaries, is registered
+ */
+export function registerRuntimeAdapter(adapter: RuntimeAdapter) {
+  const conflict = runtimeAdapters.find(
+    ({ name, binaries }) =>
+      name === adapter.name ||
+      binaries.some((binary) => adapter.binaries.includes(binary))
+  );
+  if (conflict) {
+    throw new Error(
+      `Runtime adapter '${adapter.name}' conflicts with the registered adapter '${conflict.name}'.`
+    );
+  }
+  runtimeAdapters.push(adapter);
+}
+
+/**
+ * Gets the registered runtime adapters.
+ * @returns The adapters, in the order they adapt a config
+ */
+export function getRuntimeAdapters() {
+  return Array.from(runtimeAdapters);
+}
+
+/**
+ * Parses a command line with the syntax of the programs known to the registered runtimes.
+ * @param argv - The command of a MCP server config followed by its args
+ * @returns The command line and the programs it runs
+ */
+export function parseRuntimeCommandLine(argv: string[]): CommandLine {
+  const commands = parseCommandLine(argv, (program, kind) => {
+    const adapter = runtimeAdapters.find((adapter) =>
+      kind === "command"
+        ? program in adapter.commands
+        : program in (adapter.packages ?? {})
+    );
+    return kind === "command"
+      ? adapter?.commands[program]
+      : adapter?.packages?.[program];
+  });
+  return { argv, commands };
+}
+
+/**
+ * Adapts a MCP server config to this machine with the registered runtimes: each runtime running
+ * the server sets the directory of the server, rewrites the command line and provisions the env,
+ * then the binaries of the runtimes are replaced with absolute paths.
+ * @param config - The config to adapt, already adapted or not
+ * @param context - The server
+ * @returns The adapted config and the changes made to it, by runtime
+ * @throws Error if a runtime needs the directory of the server and it is not provided
+ */
+export function adaptConfig(config: MCPServerConfig, context: RuntimeContext) {
+  const changes: ConfigChange[] = [];
+  let argv = [config.command, ...config.args];
+  let env = config.env;
+
+  const recordChange = (
+    reason: string,
+    beforeArgv: string[],
+    beforeEnv?: { [key: string]: string }
+  ) => {
+    const argvDiff = diffItems(beforeArgv, argv);
+    const envDiff = diffItems(toEnvLines(beforeEnv), toEnvLines(env));
+    if ([...argvDiff, ...envDiff].some(({ type }) => type !== "unchanged")) {
+      changes.push({ reason, argv: argvDiff, env: envDiff });
+    }
+  };
+
+  runtimeAdapters.forEach((adapter) => {
+    let commandLine = parseRuntimeCommandLine(argv);
+    if (!isRunBy(adapter, commandLine)) return;
+    const [beforeArgv, beforeEnv] = [argv, env];
+
+    getDirectoryOptions(adapter, commandLine).forEach((option) => {
+      if (!context.repoDir) {
+        throw new Error(
+          `MCP Config is using ${adapter.name} ${option.flag} option but no path to a cloned repository directory was provided.`
+        );
+      }
+      argv = setOptionValue(argv, option, context.repoDir);
+    });
+    if (adapter.rewriteArgv) {
+      commandLine = parseRuntimeCommandLine(argv);
+      argv = adapter.rewriteArgv(commandLine, context);
+    }
+    const provisionedEnv = adapter.provisionEnv?.(context) ?? {};
+    if (Object.keys(provisionedEnv).length > 0) {
+      env = { ...env, ...provisionedEnv };
+    }
+
+    recordChange(adapter.name, beforeArgv, beforeEnv);
+  });
+
+  // we replace binaries with binaries shipped with the app
+  // to reduce dependencies on the user's system to a minimum
+  // uv takes care of installing python env, fnm takes care of installing node/npm
+  const beforeArgv = argv;
+  argv = Array.from(argv);
+  parseRuntimeCommandLine(argv).commands.forEach(({ program, kind, index }) => {
+    if (kind !== "command" || path.isAbsolute(argv[index])) return;
+    argv[index] = resolveRuntimeBinary(program) ?? argv[index];
+  });
+  recordChange("binaries", beforeArgv, env);
+
+  const adaptedConfig = structuredClone(config);
+  adaptedConfig.command = argv[0];
+  adaptedConfig.args = argv.slice(1);
+  if (env) adaptedConfig.env = env;
+  return { config: adaptedConfig, changes };
+}
+
+/**
+ * Reverts the changes made by adaptConfig.
+ * @param config - A config adapted by adaptConfig
+ * @param repoDirPlaceholder - The value replacing the directory of the server
+ * @returns The config without machine specific values and the directory of the server it
+ * pointed to, if any
+ */
+export function restoreConfig(
+  config: MCPServerConfig,
+  repoDirPlaceholder: string
+) {
+  const originalConfig = structuredClone(config);
+  let repoDir: string | undefined = undefined;
+
+  // absolute paths to the binaries shipped with the app go back to the binary names.
+  let argv = [config.command, ...config.args];
+  parseRuntimeCommandLine(argv).commands.forEach(({ program, kind, index }) => {
+    if (
+      kind === "command" &&
+      path.isAbsolute(argv[index]) &&
+      runtimeAdapters.some(({ binaries }) => binaries.includes(program))
+    ) {
+      argv[index] = program;
+    }
+  });
+
+  // each runtime used by the server removes what it added to the command line and env.
+  runtimeAdapters.forEach((adapter) => {
+    let commandLine = parseRuntimeCommandLine(argv);
+    if (!isRunBy(adapter, commandLine)) return;
+
+    if (adapter.restoreArgv) {
+      argv = adapter.restoreArgv(commandLine);
+      commandLine = parseRuntimeCommandLine(argv);
+    }
+    getDirectoryOptions(adapter, commandLine).forEach((option) => {
+      const value = getOptionValue(argv, option);
+      if (value && isInIODHome(value)) {
+        repoDir = value;
+        argv = setOptionValue(argv, option, repoDirPlaceholder);
+      }
+    });
+    if (adapter.restoreEnv && originalConfig.env) {
+      originalConfig.env = adapter.restoreEnv(originalConfig.env);
+    }
+  });
+
+  originalConfig.command = argv[0];
+  originalConfig.args = argv.slice(1);
+  return { config: originalConfig, repoDir };
+}
+
+/**
+ * Gets the interpreter versions a MCP server config adapted by adaptConfig runs with.
+ * @param config - The adapted config
+ * @returns The node version given to fnmx and the python version given to uv, if any
+ */
+export function getInterpreterVersions(config: MCPServerConfig) {
+  const versions: RuntimeVersions = {};
+  const argv = [config.command, ...config.args];
+  parseRuntimeCommandLine(argv).commands.forEach(
+    ({ program, kind, options, positionals }) => {
+      if (kind !== "command") return;
+      if (program === "fnmx" && versions.node === undefined) {
+        versions.node = argv[positionals[0]];
+      }
+      const pythonOption = options.find(({ flag }) =>
+        PYTHON_FLAGS.includes(flag)
+      );
+      if (
+        (program === "uv" || program === "uvx") &&
+        pythonOption &&
+        versions.python === undefined
+      ) {
+        versions.python = getOptionValue(argv, pythonOption);
+      }
+    }
+  );
+  if (versions.python === undefined && config.env?.UV_PYTHON) {
+    versions.python = config.env.UV_PYTHON;
+  }
+  return versions;
+}
+
+/**
+ * Gets the commands provisioning a MCP server config adapted by adaptConfig with the registered
+ * runtimes, their binaries replaced with absolute paths. Commands needed by several runtimes of
+ * the config are only listed once.
+ * @param config - The adapted config
+ * @param context - The server
+ * @returns The commands, in the order to run them
+ * @throws Error if the binary of a command is not found
+ */
+export function getProvisionCommands(
+  config: MCPServerConfig,
+  context: RuntimeContext
+) {
+  const commandLine = parseRuntimeCommandLine([config.command, ...config.args]);
+  const provisionCommands: ProvisionCommand[] = [];
+  runtimeAdapters.forEach((adapter) => {
+    if (!adapter.provisionCommands || !isRunBy(adapter, commandLine)) return;
+    adapter
+      .provisionCommands(commandLine, context, config.env ?? {})
+      .forEach((command) => {
+        const [program, ...args] = command.argv;
+        const argv = [resolveRuntimeBinary(program) ?? program, ...args];
+        const isListed = provisionCommands.some(
+          (listed) =>
+            listed.cwd === command.cwd &&
+            JSON.stringify(listed.argv) === JSON.stringify(argv)
+        );
+        if (!isListed) provisionCommands.push({ ...command, argv });
+      });
+  });
+  return provisionCommands;
+}
@@ -0,0 +1,138 @@
+/**
+ * Settings module for the main process.
+ * It keeps the settings of the app under ~/.iod/settings.json.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+
+import { AppError } from "../shared/error";
+
+import type { RuntimeVersions } from "./runtimes";
+import type { PublisherKey } from "./signatures";
+import { IOD_HOME, readJSONFile, writeJSONFile } from "./storage";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * The settings of the app.
+ */
+export type AppSettings = {
+  /**
+   * What to do with install payloads that are unsigned or whose signature can't be verified:
+   * reject them or install them after a warning in the install review.
+   */
+  unverifiedPayloads: "reject" | "warn";
+  /**
+   * The publisher keys added by the user, trusted along the keys shipped with the app.
+   */
+  publisherKeys: PublisherKey[];
+  /**
+   * The versions of node and python the MCP servers run with when their install doesn't require
+   * any, the defaults of fnmx and uv when not set.
+   */
+  runtime: RuntimeVersions;
+};
+
+// ============================
+// Constants
+// ============================
+
+const SETTINGS_PATH = path.join(IOD_HOME, "settings.json");
+
+// characters of the versions given to fnmx and uv, e.g. 'v22.11.0', 'lts/iron' or '>=3.11,<3.13'.
+const VERSION_PATTERN = /^[\w.*+<>=!~,@/-]{1,64}$/;
+
+const DEFAULT_SETTINGS: AppSettings = {
+  unverifiedPayloads: "warn",
+  publisherKeys: [],
+  runtime: {},
+};
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Writes some settings of the app, the others are left untouched.
+ * @param changes - The settings to write
+ * @returns The updated settings
+ */
+function writeSettings(changes: Partial<AppSettings>) {
+  const settings = { ...getSettings(), ...changes };
+  writeJSONFile(SETTINGS_PATH, settings);
+  return settings;
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Checks the versions required for the interpreters of the runtimes.
+ * @param versions - The versions, e.g. from an install config or the settings
+ * @returns True if every given version is a version string, not an option or several arguments
+ */
+export function isValidRuntimeVersions(versions: unknown) {
+  if (versions === undefined) return true;
+  if (typeof versions !== "object" || versions === null) return false;
+  return Object.entries(versions).every(
+    ([runtime, version]) =>
+      (runtime === "node" || runtime === "python") &&
+      (version === undefined ||
+        (typeof version === "string" &&
+          VERSION_PATTERN.test(version) &&
+          !version.startsWith("-")))
+  );
+}
+
+/**
+ * Gets the settings of the app, defaults filled in for settings never set.
+ * @returns The settings
+ */
+export function getSettings(): AppSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...readJSONFile<Partial<AppSettings>>(SETTINGS_PATH, {}),
+  };
+}
+
+/**
+ * Updates some settings of the app, the others are left untouched.
+ * The publisher keys are not updated here but through the signatures module, which checks them.
+ * @param changes - The settings to update
+ * @returns The updated settings
+ * @throws AppError if the changes include publisher keys or invalid runtime versions
+ */
+export function updateSettings(changes: Partial<AppSettings>) {
+  if ("publisherKeys" in changes) {
+    throw new AppError({
+      developerMessage:
+        "The publisher keys can't be updated with the other settings.",
+      userMessage:
+        "Publisher keys can only be added or removed in the trusted publishers settings.",
+    });
+  }
+  if (!isValidRuntimeVersions(changes.runtime)) {
+    throw new AppError({
+      developerMessage: `Invalid runtime versions: ${JSON.stringify(changes.runtime)}.`,
+      userMessage:
+        "The node and python versions must be versions like '22' or '3.12'.",
+    });
+  }
+  return writeSettings(changes);
+}
+
+/**
+ * Replaces the publisher keys added by the user, once checked (see addPublisherKey).
+ * @param publisherKeys - The publisher keys
+ * @returns The updated settings
+ */
+export function setPublisherKeys(publisherKeys: PublisherKey[]) {
+  return writeSettings({ publisherKeys });
+}
@@ -0,0 +1,266 @@
+/**
+ * Signatures module for the main process.
+ * Install payloads can be signed by their publisher with Ed25519 over their canonical JSON.
+ * Signatures are verified against the publisher keys shipped with the app or added by the user,
+ * unverified payloads are rejected or installed after a warning depending on the settings.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import { createHash, createPublicKey, verify } from "node:crypto";
+
+import { AppError } from "../shared/error";
+import { logger } from "../shared/logger";
+import { DISCORD_URL } from "../shared/constants";
+
+import type { InstallConfig } from "./installer";
+import { getSettings, setPublisherKeys } from "./settings";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * A public key of a publisher of install payloads.
+ */
+export type PublisherKey = {
+  /**
+   * The name of the publisher, shown to the user.
+   */
+  name: string;
+  /**
+   * The Ed25519 public key, PEM encoded (SPKI).
+   */
+  publicKey: string;
+};
+
+/**
+ * The signature carried by an install payload.
+ */
+export type PayloadSignature = {
+  /**
+   * The fingerprint of the publisher key, see getKeyFingerprint.
+   */
+  key_id: string;
+  /**
+   * The Ed25519 signature of the canonical JSON of the payload (signature excluded), base64 encoded.
+   */
+  value: string;
+};
+
+/**
+ * The outcome of the verification of an install payload signature.
+ */
+export type PayloadVerification =
+  | { status: "verified"; publisher: string }
+  | { status: "unsigned" }
+  | { status: "invalid"; reason: string };
+
+// ============================
+// Constants
+// ============================
+
+// keys of the publishers trusted by every install of the app.
+const SHIPPED_PUBLISHER_KEYS: PublisherKey[] = [];
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Computes the fingerprint of a stored publisher key, e.g. of the settings file edited by hand.
+ * @param key - The publisher key
+ * @returns The fingerprint or undefined if the key is not a valid Ed25519 public key
+ */
+function findKeyFingerprint(key: PublisherKey) {
+  try {
+    return getKeyFingerprint(key.publicKey);
+  } catch (error) {
+    logger.warn(
+      `Ignored the invalid key of the publisher '${key.name}': ${(error as Error).message}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Gets the publisher keys trusted by the app, shipped or added by the user.
+ * Invalid keys are skipped, they can't verify any signature.
+ * @returns The keys by fingerprint
+ */
+function getTrustedKeys() {
+  const keys = new Map<string, PublisherKey>();
+  [...SHIPPED_PUBLISHER_KEYS, ...getSettings().publisherKeys].forEach((key) => {
+    const fingerprint = findKeyFingerprint(key);
+    if (fingerprint) keys.set(fingerprint, key);
+  });
+  return keys;
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Serializes a JSON value canonically: object keys sorted, no whitespace.
+ * The same value always gives the same string whatever the order its keys were written in.
+ * @param value - The JSON value
+ * @returns The canonical JSON
+ */
+export function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJSON(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Computes the fingerprint identifying a publisher key: the hex sha256 of its DER encoding.
+ * @param publicKey - The Ed25519 public key, PEM encoded
+ * @returns The fingerprint of the key
+ * @throws Error if the key is not a valid Ed25519 public key
+ */
+export function getKeyFingerprint(publicKey: string) {
+  const key = createPublicKey(publicKey);
+  if (key.asymmetricKeyType !== "ed25519") {
+    throw new Error(`Expected an ed25519 key, got ${key.asymmetricKeyType}`);
+  }
+  return createHash("sha256")
+    .update(key.export({ type: "spki", format: "der" }))
+    .digest("hex");
+}
+
+/**
+ * Verifies the signature of an install payload against the trusted publisher keys.
+ * @param installConfig - The install config, as received
+ * @returns The outcome of the verification
+ */
+export function verifyInstallConfig(
+  installConfig: InstallConfig
+): PayloadVerification {
+  const { signature, ...payload } = installConfig;
+  if (!signature) {
+    return { status: "unsigned" };
+  }
+
+  const key = getTrustedKeys().get(signature.key_id);
+  if (!key) {
+    return {
+      status: "invalid",
+      reason: `The payload is signed with a key iod doesn't trust (${signature.key_id}).`,
+    };
+  }
+
+  try {
+    const verified = verify(
+      null,
+      Buffer.from(canonicalJSON(payload), "utf-8"),
+      createPublicKey(key.publicKey),
+      Buffer.from(signature.value, "base64")
+    );
+    return verified
+      ? { status: "verified", publisher: key.name }
+      : {
+          status: "invalid",
+          reason: `The signature doesn't match the payload, it was modified after being signed by ${key.name}.`,
+        };
+  } catch (error) {
+    return {
+      status: "invalid",
+      reason: `The signature is malformed: ${(error as Error).message}`,
+    };
+  }
+}
+
+/**
+ * Checks an install payload is signed by a trusted publisher, as required by the settings.
+ * @param installConfig - The install config, as received
+ * @returns The outcome of the verification, for unverified payloads the settings allow
+ * @throws AppError if the payload is not verified and the settings reject unverified payloads
+ */
+export function checkInstallConfigSignature(installConfig: InstallConfig) {
+  const verification = verifyInstallConfig(installConfig);
+  if (
+    verification.status !== "verified" &&
+    getSettings().unverifiedPayloads === "reject"
+  ) {
+    const reason =
+      verification.status === "unsigned"
+        ? "The install request is not signed."
+        : verification.reason;
+    throw new AppError({
+      developerMessage: `Rejected an unverified install payload: ${reason}`,
+      userMessage: `The installation was blocked because it doesn't come from a trusted publisher. ${reason}
+      You can allow unverified installs in the settings or join our discord for support: ${DISCORD_URL}`,
+    });
+  }
+  return verification;
+}
+
+/**
+ * Lists the valid publisher keys added by the user.
+ * @returns The keys with their fingerprint
+ */
+export function listPublisherKeys() {
+  return getSettings().publisherKeys.flatMap((key) => {
+    const fingerprint = findKeyFingerprint(key);
+    return fingerprint ? [{ ...key, fingerprint }] : [];
+  });
+}
+
+/**
+ * Trusts a new publisher key.
+ * @param name - The name of the publisher
+ * @param publicKey - The Ed25519 public key of the publisher, PEM encoded
+ * @throws AppError if the key is not a valid Ed25519 public key or is already trusted
+ */
+export function addPublisherKey({ name, publicKey }: PublisherKey) {
+  let fingerprint: string;
+  try {
+    fingerprint = getKeyFingerprint(publicKey);
+  } catch (error) {
+    throw new AppError({
+      developerMessage: "Invalid publisher key.",
+      userMessage:
+        "The publisher key must be an Ed25519 public key in PEM format (-----BEGIN PUBLIC KEY-----).",
+      originalError: error as Error,
+    });
+  }
+
+  const trustedKey = getTrustedKeys().get(fingerprint);
+  if (trustedKey) {
+    throw new AppError({
+      developerMessage: `Publisher key ${fingerprint} already trusted.`,
+      userMessage: `This key is already trusted as the key of '${trustedKey.name}'.`,
+    });
+  }
+
+  setPublisherKeys([
+    ...getSettings().publisherKeys,
+    {
+      name: name.trim() || fingerprint.slice(0, 16),
+      publicKey: publicKey.trim(),
+    },
+  ]);
+}
+
+/**
+ * Stops trusting a publisher key added by the user.
+ * @param fingerprint - The fingerprint of the key
+ */
+export function removePublisherKey({ fingerprint }: { fingerprint: string }) {
+  setPublisherKeys(
+    getSettings().publisherKeys.filter(
+      (key) => findKeyFingerprint(key) !== fingerprint
+    )
+  );
+}
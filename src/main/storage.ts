@@ -0,0 +1,112 @@
+/**
+ * Storage module for the main process.
+ * It handles the iod home directory and safe writes of files on disk.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+import os from "node:os";
+import {
+  existsSync,
+  mkdirSync,
+  openSync,
+  writeSync,
+  fsyncSync,
+  closeSync,
+  renameSync,
+  rmSync,
+  readFileSync,
+} from "node:fs";
+
+// ============================
+// Constants
+// ============================
+
+// define a home directory for iod. used to store app data (cloned mcp servers...)
+// we create it if it doesn't exists and assume it exists in the rest of the codebase.
+export const IOD_HOME = path.join(os.homedir(), ".iod");
+if (!existsSync(IOD_HOME)) {
+  mkdirSync(IOD_HOME, { recursive: true });
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Writes a file atomically: the content is written to a temporary file in the same
+ * directory and then renamed over the destination. A crash or a concurrent reader never
+ * sees a truncated file, it either sees the previous or the new content.
+ * @param filePath - The absolute path of the file to write
+ * @param content - The content to write
+ * @param mode - The permissions of the file, e.g. 0o600 for secrets, the default ones otherwise
+ * @throws Error if the temporary file can't be written or renamed
+ */
+export function writeFileAtomic(
+  filePath: string,
+  content: string,
+  mode?: number
+) {
+  const tmpPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+
+  try {
+    const fd = openSync(tmpPath, "w", mode);
+    try {
+      writeSync(fd, content);
+      // make sure the content hit the disk before the rename makes it visible.
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tmpPath, filePath);
+  } catch (error) {
+    rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Checks if a path is inside the IOD_HOME directory (IOD_HOME itself excluded).
+ * @param filePath - The path to check
+ * @returns true if the path is inside IOD_HOME
+ */
+export function isInIODHome(filePath: string) {
+  const relativePath = path.relative(IOD_HOME, filePath);
+  return (
+    path.isAbsolute(filePath) &&
+    !!relativePath &&
+    !relativePath.startsWith("..") &&
+    !path.isAbsolute(relativePath)
+  );
+}
+
+/**
+ * Reads a JSON file owned by iod.
+ * @param filePath - The absolute path of the file to read
+ * @param defaultValue - The value returned if the file does not exist yet
+ * @returns The parsed content of the file
+ * @throws Error if the file can't be read or is not valid JSON
+ */
+export function readJSONFile<T>(filePath: string, defaultValue: T): T {
+  if (!existsSync(filePath)) {
+    return defaultValue;
+  }
+  return JSON.parse(readFileSync(filePath, "utf8")) as T;
+}
+
+/**
+ * Writes a JSON file owned by iod atomically.
+ * @param filePath - The absolute path of the file to write
+ * @param value - The value to serialize in the file
+ * @param mode - The permissions of the file, the default ones if not provided
+ * @throws Error if the file can't be written
+ */
+export function writeJSONFile(filePath: string, value: unknown, mode?: number) {
+  writeFileAtomic(filePath, JSON.stringify(value, null, 2), mode);
+}
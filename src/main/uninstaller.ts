@@ -0,0 +1,231 @@
+/**
+ * Uninstaller module for the main process.
+ * It removes MCP servers with everything iod created for them on disk: cloned repository,
+ * uv cache directory and metadata.
+ */
+
+// ============================
+// Imports
+// ============================
+
+import path from "node:path";
+import { existsSync, rmSync } from "node:fs";
+
+import { AppError } from "../shared/error";
+import { logger } from "../shared/logger";
+import { DISCORD_URL } from "../shared/constants";
+
+import {
+  type MCPServerConfig,
+  getMCPServers,
+  getDisabledMCPServers,
+  deleteMCPServer,
+} from "./claude";
+import { getCloneRoot, pruneCloneParents } from "./clones";
+import { unfixConfig } from "./installer";
+import { type InstallManifest, getInstallManifest } from "./manifest";
+import { listProfiles } from "./profiles";
+import { runExclusive } from "./queue";
+import { getUVCacheDir } from "./runtimes";
+import { isInIODHome } from "./storage";
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * What uninstalling a MCP server removes from disk.
+ */
+export type UninstallPreview = {
+  /**
+   * The paths removed with the server.
+   */
+  removedPaths: string[];
+  /**
+   * The paths of the server that are kept because other servers still use them.
+   */
+  sharedPaths: {
+    path: string;
+    /**
+     * The servers using the path.
+     */
+    usedBy: string[];
+  }[];
+};
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Gets the directory a MCP server was cloned into by iod.
+ * @param serverName - The name of the server
+ * @param serverConfig - The config of the server
+ * @param manifest - The install manifest
+ * @returns The absolute path of the clone or undefined if the server has no clone in IOD_HOME
+ */
+function getRepoDir(
+  serverName: string,
+  serverConfig: MCPServerConfig,
+  manifest: InstallManifest
+) {
+  const repoDir =
+    manifest[serverName]?.repoDir ?? unfixConfig(serverConfig).repoDir;
+  // servers of a monorepo point to their subdirectory, they share the whole clone.
+  return repoDir && isInIODHome(repoDir) ? getCloneRoot(repoDir) : undefined;
+}
+
+/**
+ * Gets the config of an enabled or disabled MCP server.
+ * @param serverName - The name of the server
+ * @param disabled - Whether the server is disabled
+ * @returns The config of the server
+ * @throws an AppError if the server is not found
+ */
+function getServerConfig(serverName: string, disabled: boolean) {
+  const serverConfig = (disabled ? getDisabledMCPServers() : getMCPServers())[
+    serverName
+  ];
+  if (!serverConfig) {
+    throw new AppError({
+      developerMessage: `MCP server '${serverName}' not found.`,
+      userMessage: `The MCP server '${serverName}' doesn't exist anymore.`,
+    });
+  }
+  return serverConfig;
+}
+
+/**
+ * Lists the servers, other than the given one, that use a cloned repository.
+ * Servers saved in profiles count as users since applying the profile brings them back.
+ * @param repoDir - The absolute path of the clone
+ * @param serverName - The name of the server being uninstalled
+ * @param disabled - Whether the server being uninstalled is disabled
+ * @param manifest - The install manifest
+ * @returns The descriptions of the servers using the clone
+ */
+function getRepoDirUsers(
+  repoDir: string,
+  serverName: string,
+  disabled: boolean,
+  manifest: InstallManifest
+) {
+  // an enabled and a disabled server can share a name, both are listed.
+  const installedServers = [
+    ...Object.entries(getMCPServers()).map(
+      ([name, config]) => [name, config, false] as const
+    ),
+    ...Object.entries(getDisabledMCPServers()).map(
+      ([name, config]) => [name, config, true] as const
+    ),
+  ];
+  const users = installedServers
+    .filter(
+      ([name, config, isDisabled]) =>
+        (name !== serverName || isDisabled !== disabled) &&
+        getRepoDir(name, config, manifest) === repoDir
+    )
+    .map(([name, , isDisabled]) => (isDisabled ? `${name} (disabled)` : name));
+
+  listProfiles().forEach((profile) => {
+    Object.entries(profile.servers)
+      .filter(([name, config]) => getRepoDir(name, config, {}) === repoDir)
+      .forEach(([name]) => users.push(`${name} (profile '${profile.name}')`));
+  });
+
+  return users;
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Lists what uninstalling a MCP server (enabled or disabled) removes from disk.
+ * @param serverName - The name of the server to uninstall
+ * @param disabled - Whether to uninstall the disabled server rather than the enabled one
+ * @returns The paths removed and the paths kept because they are shared
+ * @throws an AppError if the server is not found or the config can't be read
+ */
+export function previewUninstall({
+  serverName,
+  disabled = false,
+}: {
+  serverName: string;
+  disabled?: boolean;
+}): UninstallPreview {
+  const serverConfig = getServerConfig(serverName, disabled);
+
+  const manifest = getInstallManifest();
+  const preview: UninstallPreview = { removedPaths: [], sharedPaths: [] };
+
+  const repoDir = getRepoDir(serverName, serverConfig, manifest);
+  if (repoDir && existsSync(repoDir)) {
+    const usedBy = getRepoDirUsers(repoDir, serverName, disabled, manifest);
+    if (usedBy.length > 0) {
+      preview.sharedPaths.push({ path: repoDir, usedBy });
+    } else {
+      preview.removedPaths.push(repoDir);
+    }
+  }
+
+  // fixConfig gives each server its own uv cache directory on windows.
+  [serverConfig.env?.UV_CACHE_DIR, getUVCacheDir(serverName)]
+    .filter(
+      (cacheDir): cacheDir is string => !!cacheDir && isInIODHome(cacheDir)
+    )
+    .map((cacheDir) => path.resolve(cacheDir))
+    .filter((cacheDir) => existsSync(cacheDir))
+    .forEach((cacheDir) => {
+      if (!preview.removedPaths.includes(cacheDir)) {
+        preview.removedPaths.push(cacheDir);
+      }
+    });
+
+  return preview;
+}
+
+/**
+ * Uninstalls a MCP server: removes it from the Claude Desktop App config file (or from the
+ * disabled servers), forgets its metadata and removes its clone (unless shared) and uv cache.
+ * It runs in turn with the installs (see runExclusive): a queued install may clone into or
+ * reuse the clone removed here.
+ * @param serverName - The name of the server to uninstall
+ * @param disabled - Whether to uninstall the disabled server rather than the enabled one
+ * @throws an AppError if the server can't be removed or some of its paths can't be deleted
+ */
+export function uninstallMCPServer({
+  serverName,
+  disabled = false,
+}: {
+  serverName: string;
+  disabled?: boolean;
+}) {
+  // the clones in use are only known once the installs queued before are over.
+  return runExclusive(async () => {
+    const { removedPaths } = previewUninstall({ serverName, disabled });
+
+    // remove the server first so that Claude never runs it from a partially removed clone.
+    deleteMCPServer({ serverName, disabled });
+
+    const failedPaths = removedPaths.filter((removedPath) => {
+      try {
+        rmSync(removedPath, { recursive: true, force: true });
+        pruneCloneParents(removedPath);
+        return false;
+      } catch (error) {
+        logger.error(`Failed to remove '${removedPath}'`, error as Error);
+        return true;
+      }
+    });
+
+    if (failedPaths.length > 0) {
+      throw new AppError({
+        developerMessage: `Failed to remove the files of MCP server '${serverName}': ${failedPaths.join(", ")}.`,
+        userMessage: `The MCP server '${serverName}' was removed but we failed to delete some of its files:
+        ${failedPaths.join("\n")}
+        You can delete them manually or join our discord for support: ${DISCORD_URL}`,
+      });
+    }
+  });
+}
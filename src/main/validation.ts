@@ -0,0 +1,504 @@
+/**
+ * Validation module for the main process.
+ * It validates the content of the Claude Desktop App config file and repairs common issues.
+ */
+
+// ============================
+// Type Definitions
+// ============================
+
+/**
+ * An issue found in the Claude Desktop App config file.
+ */
+export type ConfigDiagnostic = {
+  /**
+   * errors prevent iod (and likely Claude) from using the config, warnings don't.
+   */
+  severity: "error" | "warning";
+  /**
+   * A human readable description of the issue.
+   */
+  message: string;
+  /**
+   * The path of keys to the invalid value (e.g. ['mcpServers', 'github', 'args']).
+   */
+  path?: string[];
+  /**
+   * The 1-based line of a JSON syntax error.
+   */
+  line?: number;
+  /**
+   * The 1-based column of a JSON syntax error.
+   */
+  column?: number;
+};
+
+/**
+ * The result of repairing the content of the Claude Desktop App config file.
+ */
+export type ConfigRepair = {
+  /**
+   * The repaired content.
+   */
+  content: string;
+  /**
+   * Human readable descriptions of the fixes applied.
+   */
+  fixes: string[];
+  /**
+   * The issues remaining in the repaired content.
+   */
+  diagnostics: ConfigDiagnostic[];
+};
+
+// ============================
+// Utility Functions
+// ============================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Converts a character offset in a text into a 1-based line and column.
+ */
+function getLineAndColumn(content: string, position: number) {
+  const lines = content.slice(0, position).split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+// thrown while scanning a JSON content, caught by findSyntaxError.
+class SyntaxIssue extends Error {}
+
+/**
+ * Scans a JSON content to locate its first syntax error.
+ * JSON.parse error messages don't consistently report where the error is across V8 versions.
+ * @returns the offset of the error and a description, undefined if the content is valid JSON
+ */
+function findSyntaxError(
+  content: string
+): { position: number; message: string } | undefined {
+  let i = 0;
+
+  const describe = () =>
+    i < content.length
+      ? `Unexpected character '${content[i]}'`
+      : "Unexpected end of file";
+  const skipWhitespace = () => {
+    while (/\s/.test(content[i] ?? "")) i++;
+  };
+  const expect = (char: string) => {
+    if (content[i] !== char) {
+      throw new SyntaxIssue(`${describe()}, expected '${char}'`);
+    }
+    i++;
+  };
+  const scanString = () => {
+    expect('"');
+    while (content[i] !== '"') {
+      if (i >= content.length || content[i] === "\n") {
+        throw new SyntaxIssue("Unterminated string");
+      }
+      i += content[i] === "\\" ? 2 : 1;
+    }
+    i++;
+  };
+  const scanValue = (): void => {
+    skipWhitespace();
+    const char = content[i];
+    if (char === "{" || char === "[") {
+      const close = char === "{" ? "}" : "]";
+      i++;
+      skipWhitespace();
+      if (content[i] === close) {
+        i++;
+        return;
+      }
+      for (;;) {
+        if (close === "}") {
+          skipWhitespace();
+          scanString();
+          skipWhitespace();
+          expect(":");
+        }
+        scanValue();
+        skipWhitespace();
+        if (content[i] === ",") {
+          i++;
+          skipWhitespace();
+          if (content[i] === close) {
+            throw new SyntaxIssue(`Trailing comma before '${close}'`);
+          }
+          continue;
+        }
+        expect(close);
+        return;
+      }
+    }
+    if (char === '"') {
+      scanString();
+      return;
+    }
+    const literal = /^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)/.exec(
+      content.slice(i)
+    );
+    if (!literal) {
+      throw new SyntaxIssue(describe());
+    }
+    i += literal[0].length;
+  };
+
+  try {
+    scanValue();
+    skipWhitespace();
+    if (i < content.length) {
+      throw new SyntaxIssue(`${describe()} after the end of the config`);
+    }
+    return undefined;
+  } catch (error) {
+    if (error instanceof SyntaxIssue) {
+      return { position: i, message: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parses a JSON content into a diagnostic when it is not valid JSON.
+ * @returns the parsed value or the syntax error diagnostic
+ */
+function parseContent(
+  content: string
+): { value: unknown } | { diagnostic: ConfigDiagnostic } {
+  try {
+    return { value: JSON.parse(content) };
+  } catch (error) {
+    const syntaxError = findSyntaxError(content);
+    if (!syntaxError) {
+      return {
+        diagnostic: {
+          severity: "error",
+          message: `Invalid JSON: ${(error as Error).message}`,
+        },
+      };
+    }
+    return {
+      diagnostic: {
+        severity: "error",
+        message: `Invalid JSON: ${syntaxError.message}.`,
+        ...getLineAndColumn(content, syntaxError.position),
+      },
+    };
+  }
+}
+
+/**
+ * Validates the structure of a parsed config against the ClaudeDesktopConfig schema,
+ * without the configs of its servers.
+ */
+function validateStructureValue(config: unknown): ConfigDiagnostic[] {
+  if (!isObject(config)) {
+    return [
+      {
+        severity: "error",
+        message: "The config must be a JSON object.",
+        path: [],
+      },
+    ];
+  }
+
+  if (config.mcpServers === undefined) {
+    return [
+      {
+        severity: "warning",
+        message: "The config has no 'mcpServers' field.",
+        path: ["mcpServers"],
+      },
+    ];
+  }
+
+  if (!isObject(config.mcpServers)) {
+    return [
+      {
+        severity: "error",
+        message: "'mcpServers' must be an object of server configs.",
+        path: ["mcpServers"],
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Validates a parsed config against the ClaudeDesktopConfig / MCPServerConfig schema.
+ */
+function validateConfigValue(config: unknown): ConfigDiagnostic[] {
+  const diagnostics = validateStructureValue(config);
+  if (!isObject(config) || !isObject(config.mcpServers)) {
+    return diagnostics;
+  }
+
+  return Object.entries(config.mcpServers).flatMap(([serverName, server]) =>
+    validateServerValue(serverName, server)
+  );
+}
+
+/**
+ * Validates a parsed server config against the MCPServerConfig schema.
+ */
+function validateServerValue(
+  serverName: string,
+  server: unknown
+): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const path = ["mcpServers", serverName];
+
+  if (!isObject(server)) {
+    return [
+      {
+        severity: "error",
+        message: `Server '${serverName}' must be an object.`,
+        path,
+      },
+    ];
+  }
+
+  if (typeof server.command !== "string" || !server.command) {
+    diagnostics.push({
+      severity: "error",
+      message: `Server '${serverName}' must have a 'command' string.`,
+      path: [...path, "command"],
+    });
+  }
+
+  if (server.args === undefined) {
+    diagnostics.push({
+      severity: "warning",
+      message: `Server '${serverName}' has no 'args'.`,
+      path: [...path, "args"],
+    });
+  } else if (!Array.isArray(server.args)) {
+    diagnostics.push({
+      severity: "error",
+      message: `'args' of server '${serverName}' must be an array.`,
+      path: [...path, "args"],
+    });
+  } else {
+    server.args.forEach((arg, i) => {
+      if (typeof arg !== "string") {
+        diagnostics.push({
+          severity: "error",
+          message: `Argument ${i} of server '${serverName}' must be a string.`,
+          path: [...path, "args", String(i)],
+        });
+      }
+    });
+  }
+
+  if (server.env !== undefined) {
+    if (!isObject(server.env)) {
+      diagnostics.push({
+        severity: "error",
+        message: `'env' of server '${serverName}' must be an object.`,
+        path: [...path, "env"],
+      });
+    } else {
+      Object.entries(server.env).forEach(([key, value]) => {
+        if (!key) {
+          diagnostics.push({
+            severity: "error",
+            message: `Server '${serverName}' has an env variable without a name.`,
+            path: [...path, "env", key],
+          });
+        } else if (typeof value !== "string") {
+          diagnostics.push({
+            severity: "error",
+            message: `Env variable '${key}' of server '${serverName}' must be a string.`,
+            path: [...path, "env", key],
+          });
+        }
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Removes commas directly followed by a closing bracket or brace (ignoring strings).
+ * @returns the content without trailing commas and the number of commas removed
+ */
+function removeTrailingCommas(content: string) {
+  let result = "";
+  let removed = 0;
+  let inString = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (char === "\\") {
+        result += char + (content[i + 1] ?? "");
+        i++;
+        continue;
+      }
+      if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ",") {
+      const next = content.slice(i + 1).match(/^\s*(.)/);
+      if (next && (next[1] === "}" || next[1] === "]")) {
+        removed++;
+        continue;
+      }
+    }
+    result += char;
+  }
+
+  return { content: result, removed };
+}
+
+// ============================
+// Exported Functions
+// ============================
+
+/**
+ * Validates the content of the Claude Desktop App config file.
+ * @param content - The content of the config file
+ * @returns The issues found, empty if the config is valid
+ */
+export function validateConfig(content: string): ConfigDiagnostic[] {
+  const parsed = parseContent(content);
+  if ("diagnostic" in parsed) {
+    return [parsed.diagnostic];
+  }
+  return validateConfigValue(parsed.value);
+}
+
+/**
+ * Validates the structure of the Claude Desktop App config file, without the configs of its servers:
+ * an invalid server config doesn't prevent reading the other servers.
+ * @param content - The content of the config file
+ * @returns The issues found, empty if the structure is valid
+ */
+export function validateConfigStructure(content: string): ConfigDiagnostic[] {
+  const parsed = parseContent(content);
+  if ("diagnostic" in parsed) {
+    return [parsed.diagnostic];
+  }
+  return validateStructureValue(parsed.value);
+}
+
+/**
+ * Validates a single MCP server config, e.g. before writing it to the config file.
+ * @param serverName - The name of the server
+ * @param serverConfig - The server config to validate
+ * @returns The issues found, empty if the server config is valid
+ */
+export function validateMCPServerConfig(
+  serverName: string,
+  serverConfig: unknown
+): ConfigDiagnostic[] {
+  return validateServerValue(serverName, serverConfig);
+}
+
+/**
+ * Repairs common issues of the Claude Desktop App config file:
+ * byte order mark, trailing commas, missing 'mcpServers', non-array 'args' and non-string env values.
+ * @param content - The content of the config file
+ * @returns The repaired content, the fixes applied and the remaining issues
+ */
+export function repairConfig(content: string): ConfigRepair {
+  const fixes: string[] = [];
+  let repaired = content;
+
+  if (repaired.charCodeAt(0) === 0xfeff) {
+    repaired = repaired.slice(1);
+    fixes.push("Removed the byte order mark at the start of the file.");
+  }
+
+  const parsedAsIs = parseContent(repaired);
+  if ("diagnostic" in parsedAsIs) {
+    const { content: withoutCommas, removed } = removeTrailingCommas(repaired);
+    if (removed > 0) {
+      repaired = withoutCommas;
+      fixes.push(`Removed ${removed} trailing comma(s).`);
+    }
+  }
+
+  const parsed = parseContent(repaired);
+  if ("diagnostic" in parsed || !isObject(parsed.value)) {
+    return { content: repaired, fixes, diagnostics: validateConfig(repaired) };
+  }
+
+  const config = parsed.value;
+  if (config.mcpServers === undefined || config.mcpServers === null) {
+    config.mcpServers = {};
+    fixes.push("Added the missing 'mcpServers' field.");
+  }
+
+  if (isObject(config.mcpServers)) {
+    Object.entries(config.mcpServers).forEach(([serverName, server]) => {
+      if (!isObject(server)) return;
+
+      if (server.args === undefined) {
+        server.args = [];
+        fixes.push(`Added empty 'args' to server '${serverName}'.`);
+      } else if (typeof server.args === "string") {
+        server.args = [server.args];
+        fixes.push(`Wrapped 'args' of server '${serverName}' in an array.`);
+      }
+
+      if (Array.isArray(server.args)) {
+        server.args.forEach((arg, i, args) => {
+          if (typeof arg === "number" || typeof arg === "boolean") {
+            args[i] = String(arg);
+            fixes.push(
+              `Converted argument ${i} of server '${serverName}' to a string.`
+            );
+          }
+        });
+      }
+
+      if (isObject(server.env)) {
+        const env = server.env;
+        Object.entries(env).forEach(([key, value]) => {
+          if (typeof value === "number" || typeof value === "boolean") {
+            env[key] = String(value);
+            fixes.push(
+              `Converted env variable '${key}' of server '${serverName}' to a string.`
+            );
+          }
+        });
+      }
+    });
+  }
+
+  // only rewrite the file when there is something to fix to preserve its formatting otherwise.
+  if (fixes.length > 0) {
+    repaired = JSON.stringify(config, null, 2);
+  }
+
+  return {
+    content: repaired,
+    fixes,
+    diagnostics: validateConfigValue(config),
+  };
+}
+
+/**
+ * Formats diagnostics into a human readable list, one diagnostic per line.
+ * @param diagnostics - The diagnostics to format
+ * @returns The formatted diagnostics
+ */
+export function formatDiagnostics(diagnostics: ConfigDiagnostic[]) {
+  return diagnostics
+    .map((diagnostic) => {
+      const location =
+        diagnostic.line !== undefined
+          ? `line ${diagnostic.line}, column ${diagnostic.column}: `
+          : "";
+      return `- ${location}${diagnostic.message}`;
+    })
+    .join("\n");
+}
@@ -4,7 +4,16 @@ import { Toaster } from "./components/ui/toaster";
 
 import { Header } from "./components/Header";
 import { Instructions } from "./components/Instructions";
+import { InstallProgressPanel } from "./components/InstallProgressPanel";
+import { InstallReviewDialog } from "./components/InstallReviewDialog";
+import { CredentialsDialog } from "./components/CredentialsDialog";
 import { ServersManager } from "./components/ServersManager";
+import { ServerProfiles } from "./components/ServerProfiles";
+import { ConfigBackups } from "./components/ConfigBackups";
+import { InstallSecurity } from "./components/InstallSecurity";
+import { RuntimeDefaults } from "./components/RuntimeDefaults";
+import { ConfigRepair } from "./components/ConfigRepair";
+import { ConfigConflictDialog } from "./components/ConfigConflictDialog";
 
 import { useNotifications } from "./hooks/useNotifications";
 
@@ -14,7 +23,16 @@ function App() {
     <>
       <Header />
       <Instructions />
+      <InstallProgressPanel />
+      <ConfigRepair />
       <ServersManager />
+      <ServerProfiles />
+      <ConfigBackups />
+      <InstallSecurity />
+      <RuntimeDefaults />
+      <ConfigConflictDialog />
+      <InstallReviewDialog />
+      <CredentialsDialog />
       <Toaster />
     </>
   );
@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+
+import { logger } from "../../shared/logger";
+import type { ConfigSnapshot } from "../../main/backups";
+import type { DiffLine } from "../../main/diff";
+
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableHeader,
+  TableRow,
+  TableCell,
+  TableBody,
+  TableHead,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { DiffView } from "@/components/DiffView";
+
+export function ConfigBackups() {
+  const { toast } = useToast();
+  const [snapshots, setSnapshots] = useState<ConfigSnapshot[]>([]);
+  const [diff, setDiff] = useState<{ snapshotId: string; lines: DiffLine[] }>();
+  const [isRestoring, setIsRestoring] = useState<{
+    [snapshotId: string]: boolean;
+  }>({});
+
+  const refreshSnapshots = async () => {
+    try {
+      const { success, data, error } = await window.ipc.invoke(
+        "claude:list-config-snapshots",
+        undefined
+      );
+      if (success && data) {
+        setSnapshots(data);
+      } else {
+        toast({
+          title: "Config Backups Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("list-config-snapshots error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Config Backups Error",
+        description:
+          "An unexpected error occurred while listing the backups of your Claude Desktop App config.",
+        variant: "destructive",
+      });
+      logger.error(
+        "Unexpected error during ipc.invoke('claude:list-config-snapshots'):",
+        error as Error
+      );
+    }
+  };
+
+  useEffect(() => {
+    refreshSnapshots();
+  }, []);
+
+  // every change made through iod takes a new snapshot.
+  useEffect(() => {
+    const unsubscribe = window.ipc.on("claude:config-changed", () => {
+      refreshSnapshots();
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const handleDiff = async (snapshotId: string) => {
+    if (diff?.snapshotId === snapshotId) {
+      setDiff(undefined);
+      return;
+    }
+
+    try {
+      const { success, data, error } = await window.ipc.invoke(
+        "claude:diff-config-snapshot",
+        { snapshotId }
+      );
+      if (success && data) {
+        setDiff({ snapshotId, lines: data });
+      } else {
+        toast({
+          title: "Diff Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("diff-config-snapshot error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Diff Error",
+        description: "An unexpected error occurred while comparing the backup.",
+        variant: "destructive",
+      });
+      logger.error("Unexpected diff error:", error as Error);
+    }
+  };
+
+  const handleRestore = async (snapshot: ConfigSnapshot) => {
+    if (
+      !window.confirm(
+        `Are you sure you want to restore the backup from ${new Date(
+          snapshot.createdAt
+        ).toLocaleString()}? Your current config will be backed up first.`
+      )
+    ) {
+      return;
+    }
+
+    setIsRestoring((prev) => ({ ...prev, [snapshot.id]: true }));
+
+    try {
+      const { success, error } = await window.ipc.invoke(
+        "claude:restore-config-snapshot",
+        { snapshotId: snapshot.id }
+      );
+      if (success) {
+        setDiff(undefined);
+        toast({
+          title: "Backup Restored",
+          description:
+            "Your Claude Desktop App config has been restored. Restart Claude Desktop to apply it.",
+        });
+      } else {
+        toast({
+          title: "Restore Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("restore-config-snapshot error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Restore Error",
+        description: "An unexpected error occurred while restoring the backup.",
+        variant: "destructive",
+      });
+      logger.error("Unexpected restore error:", error as Error);
+    } finally {
+      setIsRestoring((prev) => ({ ...prev, [snapshot.id]: false }));
+    }
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 p-4 m-4">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold">Config Backups</CardTitle>
+        <CardDescription>
+          A backup of your Claude Desktop App config is taken before every
+          change made by iod.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Taken At</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {snapshots.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={2} className="text-center">
+                  No backups yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              snapshots.map((snapshot) => (
+                <TableRow key={snapshot.id}>
+                  <TableCell>
+                    {new Date(snapshot.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDiff(snapshot.id)}
+                    >
+                      {diff?.snapshotId === snapshot.id ? "Hide Diff" : "Diff"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleRestore(snapshot)}
+                      disabled={isRestoring[snapshot.id]}
+                    >
+                      {isRestoring[snapshot.id] ? "Restoring..." : "Restore"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        {diff && (
+          <div className="mt-4">
+            <div className="mb-2 text-sm text-muted-foreground">
+              Changes applied to your current config if this backup is
+              restored:
+            </div>
+            <DiffView lines={diff.lines} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+
+import type { MergeConflict } from "../../main/merge";
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+  CardFooter,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Formats a conflicting value for display, undefined meaning the value was removed.
+ */
+function formatValue(value: unknown) {
+  return value === undefined ? "(removed)" : JSON.stringify(value, null, 2);
+}
+
+export function ConfigConflictDialog() {
+  const [conflicts, setConflicts] = useState<MergeConflict[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = window.ipc.on("claude:config-conflict", ({ conflicts }) => {
+      setConflicts(conflicts);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <Card className="max-h-full max-w-3xl w-full overflow-auto">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold">
+            Claude Desktop App Config Conflict
+          </CardTitle>
+          <CardDescription>
+            Your config file was changed outside of iod and the change
+            conflicts with ours. Your file was left untouched, review the
+            conflicting values below and try again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {conflicts.map((conflict) => (
+            <div key={conflict.path.join(".")}>
+              <div className="mb-2 font-medium">
+                {conflict.path.join(" › ") || "(whole config)"}
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div>
+                  <div className="mb-1 text-muted-foreground">
+                    iod&apos;s change
+                  </div>
+                  <pre className="overflow-auto rounded-md border p-2">
+                    {formatValue(conflict.ours)}
+                  </pre>
+                </div>
+                <div>
+                  <div className="mb-1 text-muted-foreground">
+                    Current config file
+                  </div>
+                  <pre className="overflow-auto rounded-md border p-2">
+                    {formatValue(conflict.theirs)}
+                  </pre>
+                </div>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+        <CardFooter className="justify-end">
+          <Button onClick={() => setConflicts([])}>Close</Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+
+import { logger } from "../../shared/logger";
+import type { ConfigRepairPreview } from "../../main/claude";
+import type { ConfigDiagnostic } from "../../main/validation";
+
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+  CardFooter,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { DiffView } from "@/components/DiffView";
+
+function DiagnosticsList({ diagnostics }: { diagnostics: ConfigDiagnostic[] }) {
+  return (
+    <ul className="space-y-1 text-sm">
+      {diagnostics.map((diagnostic, index) => (
+        <li
+          key={index}
+          className={
+            diagnostic.severity === "error" ? "text-destructive" : "text-muted-foreground"
+          }
+        >
+          {diagnostic.line !== undefined &&
+            `Line ${diagnostic.line}, column ${diagnostic.column}: `}
+          {diagnostic.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ConfigRepair() {
+  const { toast } = useToast();
+  const [diagnostics, setDiagnostics] = useState<ConfigDiagnostic[]>([]);
+  const [preview, setPreview] = useState<ConfigRepairPreview>();
+  const [isRepairing, setIsRepairing] = useState(false);
+
+  const refreshDiagnostics = async () => {
+    try {
+      const { success, data, error } = await window.ipc.invoke(
+        "claude:validate-config",
+        undefined
+      );
+      if (success && data) {
+        setDiagnostics(data);
+      } else {
+        logger.error("validate-config error:", new Error(error));
+      }
+    } catch (error) {
+      logger.error(
+        "Unexpected error during ipc.invoke('claude:validate-config'):",
+        error as Error
+      );
+    }
+  };
+
+  useEffect(() => {
+    refreshDiagnostics();
+  }, []);
+
+  useEffect(() => {
+    const unsubscribeInvalid = window.ipc.on(
+      "claude:config-invalid",
+      ({ diagnostics }) => {
+        setDiagnostics(diagnostics);
+        setPreview(undefined);
+      }
+    );
+    const unsubscribeChanged = window.ipc.on("claude:config-changed", () => {
+      refreshDiagnostics();
+      setPreview(undefined);
+    });
+    return () => {
+      unsubscribeInvalid();
+      unsubscribeChanged();
+    };
+  }, []);
+
+  const handlePreview = async () => {
+    try {
+      const { success, data, error } = await window.ipc.invoke(
+        "claude:preview-config-repair",
+        undefined
+      );
+      if (success && data) {
+        setPreview(data);
+      } else {
+        toast({
+          title: "Config Repair Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("preview-config-repair error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Config Repair Error",
+        description: "An unexpected error occurred while preparing the repair.",
+        variant: "destructive",
+      });
+      logger.error("Unexpected preview repair error:", error as Error);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsRepairing(true);
+    try {
+      const { success, error } = await window.ipc.invoke(
+        "claude:apply-config-repair",
+        undefined
+      );
+      if (success) {
+        setPreview(undefined);
+        await refreshDiagnostics();
+        toast({
+          title: "Config Repaired",
+          description:
+            "Your Claude Desktop App config has been repaired. A backup of the previous version was kept.",
+        });
+      } else {
+        toast({
+          title: "Config Repair Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("apply-config-repair error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Config Repair Error",
+        description: "An unexpected error occurred while repairing your config.",
+        variant: "destructive",
+      });
+      logger.error("Unexpected apply repair error:", error as Error);
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const hasErrors = diagnostics.some(
+    (diagnostic) => diagnostic.severity === "error"
+  );
+  if (!hasErrors) {
+    return null;
+  }
+
+  const canApply =
+    preview !== undefined &&
+    preview.fixes.length > 0 &&
+    !preview.diagnostics.some((diagnostic) => diagnostic.severity === "error");
+
+  return (
+    <Card className="flex flex-col gap-4 p-4 m-4 border-destructive">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold">
+          Claude Desktop App Config Issues
+        </CardTitle>
+        <CardDescription>
+          Your Claude Desktop App config file is invalid. iod can try to
+          repair common issues, review the changes before applying them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <DiagnosticsList diagnostics={diagnostics} />
+        {preview && (
+          <div className="space-y-2">
+            {preview.fixes.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                No automatic fix is available, please edit your config file by
+                hand.
+              </div>
+            ) : (
+              <>
+                <div className="text-sm font-medium">Proposed fixes:</div>
+                <ul className="list-disc pl-6 text-sm">
+                  {preview.fixes.map((fix, index) => (
+                    <li key={index}>{fix}</li>
+                  ))}
+                </ul>
+                <DiffView lines={preview.diff} />
+              </>
+            )}
+            {preview.diagnostics.length > 0 && (
+              <>
+                <div className="text-sm font-medium">
+                  Remaining issues after the repair:
+                </div>
+                <DiagnosticsList diagnostics={preview.diagnostics} />
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="justify-end gap-2">
+        <Button variant="outline" onClick={handlePreview}>
+          Preview Repair
+        </Button>
+        <Button onClick={handleApply} disabled={!canApply || isRepairing}>
+          {isRepairing ? "Repairing..." : "Apply Repair"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
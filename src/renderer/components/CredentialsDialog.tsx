@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { KeyRound } from "lucide-react";
+
+import { logger } from "../../shared/logger";
+import type {
+  CredentialsRequest,
+  GitCredentials,
+} from "../../main/credentials";
+
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+  CardFooter,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const EMPTY_FORM = { token: "", username: "", password: "" };
+
+export function CredentialsDialog() {
+  const { toast } = useToast();
+  // requests are answered one at a time, in the order they were made.
+  const [requests, setRequests] = useState<CredentialsRequest[]>([]);
+  const [type, setType] = useState<GitCredentials["type"]>("token");
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [remember, setRemember] = useState(true);
+  const [isResponding, setIsResponding] = useState(false);
+
+  useEffect(() => {
+    const unsubscribeRequest = window.ipc.on(
+      "installer:credentials-request",
+      (request) => {
+        setRequests((prev) => [...prev, request]);
+      }
+    );
+    // a request is over once its install is, e.g. when cancelled from the progress panel.
+    const unsubscribeProgress = window.ipc.on(
+      "installer:progress",
+      ({ installId, step }) => {
+        if (step === "finish") {
+          setRequests((prev) =>
+            prev.filter((request) => request.installId !== installId)
+          );
+        }
+      }
+    );
+    return () => {
+      unsubscribeRequest();
+      unsubscribeProgress();
+    };
+  }, []);
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  const request = requests[0];
+  const credentials: GitCredentials =
+    type === "token"
+      ? { type, token: form.token }
+      : { type, username: form.username, password: form.password };
+  const isComplete =
+    type === "token" ? !!form.token : !!form.username && !!form.password;
+
+  const handleRespond = async (given: boolean) => {
+    setIsResponding(true);
+    try {
+      const { success, error } = await window.ipc.invoke(
+        "installer:respond-credentials",
+        {
+          requestId: request.requestId,
+          credentials: given ? credentials : undefined,
+          remember,
+        }
+      );
+      if (!success) {
+        toast({
+          title: "Installation Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("respond-credentials error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Installation Error",
+        description:
+          "An unexpected error occurred while sending your credentials.",
+        variant: "destructive",
+      });
+      logger.error("Unexpected respond-credentials error:", error as Error);
+    } finally {
+      setIsResponding(false);
+      setForm(EMPTY_FORM);
+      setRequests((prev) =>
+        prev.filter(({ requestId }) => requestId !== request.requestId)
+      );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <Card className="max-w-lg w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl font-bold">
+            <KeyRound className="h-5 w-5" />
+            Credentials for {request.host}
+          </CardTitle>
+          <CardDescription>
+            {request.rejected
+              ? `${request.host} refused these credentials.`
+              : `${request.host} requires credentials to download`}{" "}
+            <span className="font-mono text-xs">{request.repoUrl}</span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant={type === "token" ? "default" : "outline"}
+              onClick={() => setType("token")}
+            >
+              Access token
+            </Button>
+            <Button
+              size="sm"
+              variant={type === "basic" ? "default" : "outline"}
+              onClick={() => setType("basic")}
+            >
+              Username and password
+            </Button>
+          </div>
+          {type === "token" ? (
+            <Input
+              type="password"
+              placeholder="Personal access token"
+              value={form.token}
+              onChange={(e) => setForm({ ...form, token: e.target.value })}
+            />
+          ) : (
+            <div className="space-y-2">
+              <Input
+                placeholder="Username"
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+              />
+              <Input
+                type="password"
+                placeholder="Password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+              />
+            </div>
+          )}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+            />
+            Remember for {request.host} (stored encrypted on this computer)
+          </label>
+        </CardContent>
+        <CardFooter className="justify-end space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => handleRespond(false)}
+            disabled={isResponding}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => handleRespond(true)}
+            disabled={isResponding || !isComplete}
+          >
+            Continue
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
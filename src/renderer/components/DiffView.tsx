@@ -0,0 +1,22 @@
+import type { DiffLine } from "../../main/diff";
+
+import { cn } from "@/lib/utils";
+
+export function DiffView({ lines }: { lines: DiffLine[] }) {
+  return (
+    <pre className="overflow-auto rounded-md border p-2 text-xs">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            line.type === "added" && "bg-green-100 text-green-800",
+            line.type === "removed" && "bg-red-100 text-red-800"
+          )}
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.line}
+        </div>
+      ))}
+    </pre>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { Ban, CheckCircle2, Loader2, X, XCircle } from "lucide-react";
+
+import { logger } from "../../shared/logger";
+import type { InstallProgress } from "../../main/installer";
+
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+type InstallTimeline = {
+  installId: string;
+  // one entry per step (and server for per-server steps), updated as the step progresses.
+  steps: Omit<InstallProgress, "installId">[];
+  finished: boolean;
+};
+
+/**
+ * Adds a progress event to the timeline of its install.
+ */
+function addProgress(timelines: InstallTimeline[], progress: InstallProgress) {
+  const { installId, ...step } = progress;
+  const timeline = timelines.find(
+    (timeline) => timeline.installId === installId
+  ) ?? { installId, steps: [], finished: false };
+
+  const steps = [...timeline.steps];
+  const index = steps.findIndex(
+    (existing) =>
+      existing.step === step.step && existing.serverName === step.serverName
+  );
+  if (index === -1) {
+    steps.push(step);
+  } else if (step.status === "failed" && !step.log) {
+    // the output of a failed step tells why it failed.
+    steps[index] = { ...step, log: steps[index].log };
+  } else {
+    steps[index] = step;
+  }
+
+  const updatedTimeline = {
+    installId,
+    steps,
+    finished: step.step === "finish",
+  };
+  // the latest install is shown first.
+  return [
+    updatedTimeline,
+    ...timelines.filter((timeline) => timeline.installId !== installId),
+  ];
+}
+
+function StepIcon({ status }: { status: InstallProgress["status"] }) {
+  if (status === "done") {
+    return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+  }
+  if (status === "failed") {
+    return <XCircle className="h-4 w-4 text-destructive" />;
+  }
+  if (status === "cancelled") {
+    return <Ban className="h-4 w-4 text-muted-foreground" />;
+  }
+  return <Loader2 className="h-4 w-4 animate-spin" />;
+}
+
+export function InstallProgressPanel() {
+  const { toast } = useToast();
+  const [timelines, setTimelines] = useState<InstallTimeline[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = window.ipc.on("installer:progress", (progress) => {
+      setTimelines((prev) => addProgress(prev, progress));
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const handleCancel = async (installId: string) => {
+    try {
+      const { success, error } = await window.ipc.invoke(
+        "installer:cancel-install",
+        { installId }
+      );
+      if (!success) {
+        toast({
+          title: "Cancel Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("cancel-install error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Cancel Error",
+        description:
+          "An unexpected error occurred while cancelling the install.",
+        variant: "destructive",
+      });
+      logger.error("Unexpected cancel-install error:", error as Error);
+    }
+  };
+
+  if (timelines.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="flex flex-col gap-4 p-4 m-4">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold">Installs</CardTitle>
+        <CardDescription>
+          Follow each step of your MCP server installs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {timelines.map((timeline) => (
+          <div
+            key={timeline.installId}
+            className="flex items-start justify-between gap-2 rounded-md border p-3"
+          >
+            <ol className="flex-1 space-y-2 text-sm">
+              {timeline.steps.map((step) => (
+                <li key={`${step.step}:${step.serverName ?? ""}`}>
+                  <div className="flex items-center gap-2">
+                    <StepIcon status={step.status} />
+                    <span
+                      className={
+                        step.status === "failed" ? "text-destructive" : ""
+                      }
+                    >
+                      {step.message}
+                    </span>
+                  </div>
+                  {step.step === "clone" &&
+                    step.status === "running" &&
+                    step.percent !== undefined && (
+                      <div className="ml-6 mt-1 h-1.5 rounded bg-muted">
+                        <div
+                          className="h-1.5 rounded bg-primary"
+                          style={{ width: `${step.percent}%` }}
+                        />
+                      </div>
+                    )}
+                  {step.step === "provision" &&
+                    step.status !== "done" &&
+                    step.log &&
+                    step.log.length > 0 && (
+                      <pre className="ml-6 mt-1 max-h-32 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">
+                        {step.log.join("\n")}
+                      </pre>
+                    )}
+                </li>
+              ))}
+            </ol>
+            {!timeline.finished && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleCancel(timeline.installId)}
+              >
+                Cancel
+              </Button>
+            )}
+            {timeline.finished && (
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Dismiss"
+                onClick={() =>
+                  setTimelines((prev) =>
+                    prev.filter(
+                      ({ installId }) => installId !== timeline.installId
+                    )
+                  )
+                }
+              >
+                <X />
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,339 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, ShieldAlert, ShieldCheck } from "lucide-react";
+
+import { logger } from "../../shared/logger";
+import type { CollisionResolution } from "../../main/installer";
+import type { InstallReview, InstallReviewServer } from "../../main/review";
+
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+  CardFooter,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DiffView } from "@/components/DiffView";
+
+/**
+ * Formats a command and its arguments as a shell command line.
+ */
+function formatCommandLine(command: string, args: string[]) {
+  return [command, ...args]
+    .map((arg) => (/\s/.test(arg) || arg === "" ? `"${arg}"` : arg))
+    .join(" ");
+}
+
+/**
+ * Describes what made a change to the config of a server.
+ */
+function describeChangeReason(reason: string) {
+  return reason === "binaries"
+    ? "Runs the runtimes shipped with iod"
+    : `Adapted for ${reason} on this computer`;
+}
+
+/**
+ * Describes what each resolution of a collision does to the installed server.
+ */
+function describeResolution(
+  resolution: CollisionResolution,
+  collision: NonNullable<InstallReviewServer["collision"]>
+) {
+  switch (resolution) {
+    case "replace":
+      return "Replace it";
+    case "keep-both":
+      return `Keep both, install as "${collision.suffixedName}"`;
+    case "merge-env":
+      return collision.newEnvKeys.length === 0
+        ? "Keep it as is"
+        : `Keep it, add ${collision.newEnvKeys.join(", ")}`;
+  }
+}
+
+const RESOLUTIONS: CollisionResolution[] = [
+  "keep-both",
+  "replace",
+  "merge-env",
+];
+
+export function InstallReviewDialog() {
+  const { toast } = useToast();
+  // reviews are answered one at a time, in the order they were requested.
+  const [reviews, setReviews] = useState<InstallReview[]>([]);
+  const [isResponding, setIsResponding] = useState(false);
+  // what to do with the servers named like installed servers, both are kept by default.
+  const [resolutions, setResolutions] = useState<{
+    [serverName: string]: CollisionResolution;
+  }>({});
+  // the values given for the secrets left empty, e.g. by the export of a bundle.
+  const [secrets, setSecrets] = useState<{
+    [serverName: string]: { [key: string]: string };
+  }>({});
+
+  useEffect(() => {
+    const unsubscribeReview = window.ipc.on(
+      "installer:review-request",
+      (review) => {
+        setReviews((prev) => [...prev, review]);
+      }
+    );
+    // a review is over once its install is, e.g. when cancelled from the progress panel.
+    const unsubscribeProgress = window.ipc.on(
+      "installer:progress",
+      ({ installId, step }) => {
+        if (step === "finish") {
+          setReviews((prev) =>
+            prev.filter((review) => review.installId !== installId)
+          );
+        }
+      }
+    );
+    return () => {
+      unsubscribeReview();
+      unsubscribeProgress();
+    };
+  }, []);
+
+  if (reviews.length === 0) {
+    return null;
+  }
+
+  const review = reviews[0];
+  const installableServers = review.servers.filter((server) => !server.error);
+
+  const handleRespond = async (approved: boolean) => {
+    setIsResponding(true);
+    try {
+      const { success, error } = await window.ipc.invoke(
+        "installer:respond-review",
+        {
+          installId: review.installId,
+          approved,
+          resolutions: Object.fromEntries(
+            review.servers
+              .filter((server) => server.collision)
+              .map((server) => [
+                server.serverName,
+                resolutions[server.serverName] ?? "keep-both",
+              ])
+          ),
+          secrets,
+        }
+      );
+      if (!success) {
+        toast({
+          title: "Installation Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("respond-review error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Installation Error",
+        description:
+          "An unexpected error occurred while answering the install review.",
+        variant: "destructive",
+      });
+      logger.error("Unexpected respond-review error:", error as Error);
+    } finally {
+      setIsResponding(false);
+      setResolutions({});
+      setSecrets({});
+      setReviews((prev) =>
+        prev.filter(({ installId }) => installId !== review.installId)
+      );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <Card className="max-h-full max-w-3xl w-full overflow-auto">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold">
+            Review the installation
+          </CardTitle>
+          <CardDescription>
+            A webpage asked to install the following MCP servers in your Claude
+            Desktop App. They will run these commands on your computer, only
+            approve if you trust their source.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {review.verification.status === "verified" ? (
+            <div className="flex items-center gap-2 text-green-600">
+              <ShieldCheck className="h-4 w-4" />
+              <span>
+                Signed by {review.verification.publisher}, a trusted publisher.
+              </span>
+            </div>
+          ) : (
+            <div className="flex items-start gap-2 rounded-md border border-destructive bg-destructive/10 p-3 font-medium text-destructive">
+              <ShieldAlert className="h-5 w-5 shrink-0" />
+              <span>
+                {review.verification.status === "unsigned"
+                  ? "This installation is not signed, iod can't tell who published it."
+                  : review.verification.reason}{" "}
+                It may have been crafted by any webpage, only approve it if you
+                know exactly what these commands do.
+              </span>
+            </div>
+          )}
+          {review.servers.map((server) => (
+            <div key={server.serverName} className="rounded-md border p-3">
+              <div className="mb-2 font-medium">{server.serverName}</div>
+              {server.collision && (
+                <div className="mb-2 space-y-2 rounded-md border border-destructive/50 p-2">
+                  <div className="flex items-center gap-2 text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <span>
+                      A server named &quot;{server.serverName}&quot; is already
+                      installed ({server.collision.existing}).
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {RESOLUTIONS.map((resolution) => (
+                      <Button
+                        key={resolution}
+                        size="sm"
+                        variant={
+                          (resolutions[server.serverName] ?? "keep-both") ===
+                          resolution
+                            ? "default"
+                            : "outline"
+                        }
+                        onClick={() =>
+                          setResolutions((prev) => ({
+                            ...prev,
+                            [server.serverName]: resolution,
+                          }))
+                        }
+                      >
+                        {server.collision &&
+                          describeResolution(resolution, server.collision)}
+                      </Button>
+                    ))}
+                  </div>
+                  {resolutions[server.serverName] === "merge-env" && (
+                    <div className="text-xs text-muted-foreground">
+                      The command below is not installed, the installed server
+                      keeps its own.
+                    </div>
+                  )}
+                </div>
+              )}
+              {server.error && (
+                <div className="mb-2 text-destructive">{server.error}</div>
+              )}
+              <div className="space-y-2">
+                <div>
+                  <div className="text-muted-foreground">Source</div>
+                  {server.git ? (
+                    <div className="font-mono text-xs">
+                      {server.git.repo_url} @ {server.git.commit}
+                      {server.git.subdirectory &&
+                        ` (in ${server.git.subdirectory})`}
+                    </div>
+                  ) : server.source ? (
+                    <div className="font-mono text-xs">
+                      {server.source.url} (sha256 {server.source.sha256})
+                      {server.source.subdirectory &&
+                        ` (in ${server.source.subdirectory})`}
+                    </div>
+                  ) : (
+                    <div className="text-xs">
+                      No repository, the command downloads what it runs.
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Command</div>
+                  <pre className="overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-2 text-xs">
+                    {formatCommandLine(server.command, server.args)}
+                  </pre>
+                </div>
+                {server.changes && server.changes.length > 0 && (
+                  <div>
+                    <div className="text-muted-foreground">
+                      Changes made by iod to the published config
+                    </div>
+                    {server.changes.map((change) => (
+                      <div key={change.reason} className="mt-1 space-y-1">
+                        <div className="text-xs">
+                          {describeChangeReason(change.reason)}
+                        </div>
+                        <DiffView lines={change.argv} />
+                        {change.env.length > 0 && (
+                          <DiffView lines={change.env} />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {server.missingSecrets && server.missingSecrets.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="text-muted-foreground">
+                      Secrets to provide, they were left out of what you
+                      received
+                    </div>
+                    {server.missingSecrets.map((key) => (
+                      <Input
+                        key={key}
+                        type="password"
+                        placeholder={key}
+                        value={secrets[server.serverName]?.[key] ?? ""}
+                        onChange={(e) =>
+                          setSecrets((prev) => ({
+                            ...prev,
+                            [server.serverName]: {
+                              ...prev[server.serverName],
+                              [key]: e.target.value,
+                            },
+                          }))
+                        }
+                      />
+                    ))}
+                  </div>
+                )}
+                {Object.keys(server.env).length > 0 && (
+                  <div>
+                    <div className="text-muted-foreground">
+                      Environment variables
+                    </div>
+                    <ul className="font-mono text-xs">
+                      {Object.entries(server.env).map(([key, value]) => (
+                        <li key={key}>
+                          {key}={value}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+        <CardFooter className="justify-end space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => handleRespond(false)}
+            disabled={isResponding}
+          >
+            Reject
+          </Button>
+          <Button
+            onClick={() => handleRespond(true)}
+            disabled={isResponding || installableServers.length === 0}
+          >
+            Approve and install
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useEffect, useState } from "react";
+
+import { logger } from "../../shared/logger";
+import type { IpcInvokeChannels } from "../../shared/ipc";
+import type { AppSettings } from "../../main/settings";
+
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableHeader,
+  TableRow,
+  TableCell,
+  TableBody,
+  TableHead,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type PublisherKeys =
+  IpcInvokeChannels["signatures:list-publisher-keys"]["response"];
+type CredentialsHosts = IpcInvokeChannels["credentials:list-hosts"]["response"];
+
+export function InstallSecurity() {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<AppSettings>();
+  const [publisherKeys, setPublisherKeys] = useState<PublisherKeys>([]);
+  const [credentialsHosts, setCredentialsHosts] = useState<CredentialsHosts>(
+    []
+  );
+  const [newKey, setNewKey] = useState({ name: "", publicKey: "" });
+  const [isBusy, setIsBusy] = useState(false);
+
+  const showError = (description?: string) =>
+    toast({
+      title: "Install Security Error",
+      description,
+      variant: "destructive",
+    });
+
+  const refresh = async () => {
+    try {
+      const [settingsResponse, keysResponse, hostsResponse] =
+        await Promise.all([
+          window.ipc.invoke("settings:get", undefined),
+          window.ipc.invoke("signatures:list-publisher-keys", undefined),
+          window.ipc.invoke("credentials:list-hosts", undefined),
+        ]);
+      if (settingsResponse.success && settingsResponse.data) {
+        setSettings(settingsResponse.data);
+      } else {
+        showError(settingsResponse.error);
+        logger.error("settings:get error:", new Error(settingsResponse.error));
+      }
+      if (keysResponse.success && keysResponse.data) {
+        setPublisherKeys(keysResponse.data);
+      } else {
+        showError(keysResponse.error);
+        logger.error(
+          "signatures:list-publisher-keys error:",
+          new Error(keysResponse.error)
+        );
+      }
+      if (hostsResponse.success && hostsResponse.data) {
+        setCredentialsHosts(hostsResponse.data);
+      } else {
+        showError(hostsResponse.error);
+        logger.error(
+          "credentials:list-hosts error:",
+          new Error(hostsResponse.error)
+        );
+      }
+    } catch (error) {
+      showError("An unexpected error occurred while loading your settings.");
+      logger.error("Unexpected install security error:", error as Error);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  /**
+   * Runs an update of the settings, toasting its failure and refreshing the settings.
+   * @returns whether the update succeeded
+   */
+  const runUpdate = async <
+    T extends
+      | "settings:update"
+      | "signatures:add-publisher-key"
+      | "signatures:remove-publisher-key"
+      | "credentials:forget",
+  >(
+    channel: T,
+    args: IpcInvokeChannels[T]["request"]
+  ) => {
+    setIsBusy(true);
+    try {
+      const { success, error } = await window.ipc.invoke(channel, args);
+      if (!success) {
+        showError(error);
+        logger.error(`${channel} error:`, new Error(error));
+      }
+      return success;
+    } catch (error) {
+      showError("An unexpected error occurred while updating your settings.");
+      logger.error(
+        `Unexpected error during ipc.invoke('${channel}'):`,
+        error as Error
+      );
+      return false;
+    } finally {
+      setIsBusy(false);
+      refresh();
+    }
+  };
+
+  const handleAddKey = async () => {
+    const added = await runUpdate("signatures:add-publisher-key", newKey);
+    if (added) {
+      setNewKey({ name: "", publicKey: "" });
+      toast({
+        title: "Publisher Key Added",
+        description: "Installs signed with this key are now trusted.",
+      });
+    }
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 p-4 m-4">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold">Install Security</CardTitle>
+        <CardDescription>
+          Installs can be signed by their publisher. Choose what happens to
+          installs that are not signed by a publisher you trust.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2 text-sm">
+          <span>Unsigned or badly signed installs:</span>
+          <Button
+            size="sm"
+            variant={
+              settings?.unverifiedPayloads === "warn" ? "default" : "outline"
+            }
+            disabled={!settings || isBusy}
+            onClick={() =>
+              runUpdate("settings:update", { unverifiedPayloads: "warn" })
+            }
+          >
+            Warn before installing
+          </Button>
+          <Button
+            size="sm"
+            variant={
+              settings?.unverifiedPayloads === "reject" ? "default" : "outline"
+            }
+            disabled={!settings || isBusy}
+            onClick={() =>
+              runUpdate("settings:update", { unverifiedPayloads: "reject" })
+            }
+          >
+            Block
+          </Button>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Publisher</TableHead>
+              <TableHead>Key fingerprint</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {publisherKeys.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-muted-foreground">
+                  No publisher key added, only the publishers shipped with iod
+                  are trusted.
+                </TableCell>
+              </TableRow>
+            ) : (
+              publisherKeys.map((key) => (
+                <TableRow key={key.fingerprint}>
+                  <TableCell>{key.name}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {key.fingerprint}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() =>
+                        runUpdate("signatures:remove-publisher-key", {
+                          fingerprint: key.fingerprint,
+                        })
+                      }
+                    >
+                      Remove
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <div className="space-y-2">
+          <Input
+            placeholder="Publisher name"
+            value={newKey.name}
+            onChange={(e) => setNewKey({ ...newKey, name: e.target.value })}
+          />
+          <textarea
+            className="flex min-h-[80px] w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            placeholder="-----BEGIN PUBLIC KEY-----"
+            value={newKey.publicKey}
+            onChange={(e) =>
+              setNewKey({ ...newKey, publicKey: e.target.value })
+            }
+          />
+          <Button
+            onClick={handleAddKey}
+            disabled={!newKey.publicKey.trim() || isBusy}
+          >
+            Add Publisher Key
+          </Button>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Git host</TableHead>
+              <TableHead>Credentials</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {credentialsHosts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-muted-foreground">
+                  No credentials saved, you are asked for them when installing
+                  from a private repository.
+                </TableCell>
+              </TableRow>
+            ) : (
+              credentialsHosts.map(({ host, type, encryption }) => (
+                <TableRow key={host}>
+                  <TableCell>{host}</TableCell>
+                  <TableCell className="text-xs">
+                    {type === "token" ? "Access token" : "Username and password"}
+                    {encryption === "safeStorage"
+                      ? ", encrypted with your system keychain"
+                      : ", encrypted by iod"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => runUpdate("credentials:forget", { host })}
+                    >
+                      Forget
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
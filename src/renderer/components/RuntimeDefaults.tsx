@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+
+import { logger } from "../../shared/logger";
+import type { RuntimeVersions } from "../../main/runtimes";
+
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export function RuntimeDefaults() {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<RuntimeVersions>({});
+  const [isBusy, setIsBusy] = useState(false);
+
+  const showError = (description?: string) =>
+    toast({
+      title: "Runtime Settings Error",
+      description,
+      variant: "destructive",
+    });
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const { success, data, error } = await window.ipc.invoke(
+          "settings:get",
+          undefined
+        );
+        if (success && data) {
+          setVersions(data.runtime);
+        } else {
+          showError(error);
+          logger.error("settings:get error:", new Error(error));
+        }
+      } catch (error) {
+        showError("An unexpected error occurred while loading your settings.");
+        logger.error("Unexpected runtime settings error:", error as Error);
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    try {
+      // empty fields fall back to the defaults of fnmx and uv.
+      const runtime: RuntimeVersions = {
+        node: versions.node?.trim() || undefined,
+        python: versions.python?.trim() || undefined,
+      };
+      const { success, data, error } = await window.ipc.invoke(
+        "settings:update",
+        { runtime }
+      );
+      if (success && data) {
+        setVersions(data.runtime);
+        toast({
+          title: "Runtime Settings Saved",
+          description: "New installs will run with these versions.",
+        });
+      } else {
+        showError(error);
+        logger.error("settings:update error:", new Error(error));
+      }
+    } catch (error) {
+      showError("An unexpected error occurred while updating your settings.");
+      logger.error(
+        "Unexpected error during ipc.invoke('settings:update'):",
+        error as Error
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 p-4 m-4">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold">Runtimes</CardTitle>
+        <CardDescription>
+          The versions of Node and Python new MCP servers run with, unless their
+          install requires others. Leave empty to use the latest versions
+          supported by iod.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center gap-2 text-sm">
+        <Input
+          placeholder="Node version, e.g. 22"
+          value={versions.node ?? ""}
+          onChange={(e) => setVersions({ ...versions, node: e.target.value })}
+        />
+        <Input
+          placeholder="Python version, e.g. 3.12"
+          value={versions.python ?? ""}
+          onChange={(e) => setVersions({ ...versions, python: e.target.value })}
+        />
+        <Button onClick={handleSave} disabled={isBusy}>
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
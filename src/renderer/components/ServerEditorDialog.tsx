@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Eye, EyeOff, Plus, Trash2 } from "lucide-react";
+
+import { logger } from "../../shared/logger";
+import type { MCPServerConfig } from "../../main/claude";
+
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+  CardFooter,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type EnvEntry = { key: string; value: string };
+
+/**
+ * Validates the editor fields before sending them to the main process.
+ * @returns the list of issues, empty if the fields are valid
+ */
+function validateFields(name: string, command: string, env: EnvEntry[]) {
+  const issues: string[] = [];
+  if (!name.trim()) {
+    issues.push("The name is required.");
+  }
+  if (!command.trim()) {
+    issues.push("The command is required.");
+  }
+  env.forEach(({ key }, index) => {
+    if (!key.trim()) {
+      issues.push(`Env variable ${index + 1} has no name.`);
+    } else if (env.findIndex((entry) => entry.key === key) !== index) {
+      issues.push(`Env variable '${key}' is defined more than once.`);
+    }
+  });
+  return issues;
+}
+
+export function ServerEditorDialog({
+  serverName,
+  serverConfig,
+  onClose,
+  onSaved,
+}: {
+  serverName: string;
+  serverConfig: MCPServerConfig;
+  onClose: () => void;
+  onSaved: (newServerName: string, serverConfig: MCPServerConfig) => void;
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState(serverName);
+  const [command, setCommand] = useState(serverConfig.command);
+  const [args, setArgs] = useState<string[]>(serverConfig.args ?? []);
+  const [env, setEnv] = useState<EnvEntry[]>(
+    Object.entries(serverConfig.env ?? {}).map(([key, value]) => ({
+      key,
+      value,
+    }))
+  );
+  const [showValues, setShowValues] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const issues = validateFields(name, command, env);
+
+  const moveArg = (index: number, offset: number) => {
+    setArgs((prev) => {
+      const updated = [...prev];
+      [updated[index], updated[index + offset]] = [
+        updated[index + offset],
+        updated[index],
+      ];
+      return updated;
+    });
+  };
+
+  const handleSave = async () => {
+    const updatedConfig: MCPServerConfig = {
+      ...serverConfig,
+      command: command.trim(),
+      args,
+      env: Object.fromEntries(env.map(({ key, value }) => [key.trim(), value])),
+    };
+    const newServerName = name.trim();
+
+    setIsSaving(true);
+    try {
+      const { success, error } = await window.ipc.invoke(
+        "claude:update-mcp-server",
+        {
+          serverName,
+          serverConfig: updatedConfig,
+          newServerName,
+        }
+      );
+      if (success) {
+        toast({
+          title: "Server Updated",
+          description: `The server "${newServerName}" has been updated. Restart Claude Desktop to apply the changes.`,
+        });
+        onSaved(newServerName, updatedConfig);
+      } else {
+        toast({
+          title: "Update Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("update-mcp-server error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Update Error",
+        description: `An unexpected error occurred while updating "${serverName}".`,
+        variant: "destructive",
+      });
+      logger.error("Unexpected update error:", error as Error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <Card className="max-h-full max-w-2xl w-full overflow-auto">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold">Edit {serverName}</CardTitle>
+          <CardDescription>
+            Changes are written to your Claude Desktop App config file.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Name</div>
+            <Input value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Command</div>
+            <Input
+              value={command}
+              onChange={(e) => setCommand(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Arguments</div>
+            {args.map((arg, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={arg}
+                  onChange={(e) =>
+                    setArgs((prev) =>
+                      prev.map((value, i) =>
+                        i === index ? e.target.value : value
+                      )
+                    )
+                  }
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => moveArg(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ArrowUp />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => moveArg(index, 1)}
+                  disabled={index === args.length - 1}
+                >
+                  <ArrowDown />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() =>
+                    setArgs((prev) => prev.filter((_, i) => i !== index))
+                  }
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setArgs((prev) => [...prev, ""])}
+            >
+              <Plus />
+              Add argument
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-medium">Environment variables</div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowValues((prev) => !prev)}
+              >
+                {showValues ? <EyeOff /> : <Eye />}
+                {showValues ? "Hide values" : "Show values"}
+              </Button>
+            </div>
+            {env.map((entry, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  placeholder="NAME"
+                  value={entry.key}
+                  onChange={(e) =>
+                    setEnv((prev) =>
+                      prev.map((item, i) =>
+                        i === index ? { ...item, key: e.target.value } : item
+                      )
+                    )
+                  }
+                />
+                <Input
+                  placeholder="value"
+                  type={showValues ? "text" : "password"}
+                  value={entry.value}
+                  onChange={(e) =>
+                    setEnv((prev) =>
+                      prev.map((item, i) =>
+                        i === index ? { ...item, value: e.target.value } : item
+                      )
+                    )
+                  }
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() =>
+                    setEnv((prev) => prev.filter((_, i) => i !== index))
+                  }
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setEnv((prev) => [...prev, { key: "", value: "" }])
+              }
+            >
+              <Plus />
+              Add variable
+            </Button>
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="space-y-1 text-sm text-destructive">
+              {issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+        <CardFooter className="justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={issues.length > 0 || isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
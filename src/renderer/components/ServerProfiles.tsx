@@ -0,0 +1,329 @@
+import { useEffect, useState } from "react";
+
+import { logger } from "../../shared/logger";
+import type { IpcInvokeChannels } from "../../shared/ipc";
+import type { ServerProfile } from "../../main/profiles";
+
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableHeader,
+  TableRow,
+  TableCell,
+  TableBody,
+  TableHead,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type ProfileChannel = Exclude<
+  Extract<keyof IpcInvokeChannels, `profiles:${string}`>,
+  "profiles:list"
+>;
+
+export function ServerProfiles() {
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<ServerProfile[]>([]);
+  const [newProfileName, setNewProfileName] = useState("");
+  // the profile being renamed or cloned, edited inline in its row.
+  const [namedProfile, setNamedProfile] = useState<{
+    profileName: string;
+    action: "rename" | "clone";
+    newProfileName: string;
+  }>();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refreshProfiles = async () => {
+    try {
+      const { success, data, error } = await window.ipc.invoke(
+        "profiles:list",
+        undefined
+      );
+      if (success && data) {
+        setProfiles(data);
+      } else {
+        toast({
+          title: "Server Profiles Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("profiles:list error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Server Profiles Error",
+        description:
+          "An unexpected error occurred while listing your profiles.",
+        variant: "destructive",
+      });
+      logger.error(
+        "Unexpected error during ipc.invoke('profiles:list'):",
+        error as Error
+      );
+    }
+  };
+
+  useEffect(() => {
+    refreshProfiles();
+  }, []);
+
+  /**
+   * Runs an action on a profile, toasting its outcome and refreshing the profiles.
+   * @returns whether the action succeeded
+   */
+  const runAction = async <T extends ProfileChannel>(
+    channel: T,
+    args: IpcInvokeChannels[T]["request"],
+    { title, description }: { title: string; description: string }
+  ) => {
+    setIsBusy(true);
+    try {
+      const { success, error } = await window.ipc.invoke(channel, args);
+      if (success) {
+        toast({ title, description });
+      } else {
+        toast({
+          title: "Server Profiles Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error(`${channel} error:`, new Error(error));
+      }
+      return success;
+    } catch (error) {
+      toast({
+        title: "Server Profiles Error",
+        description:
+          "An unexpected error occurred while updating your profiles.",
+        variant: "destructive",
+      });
+      logger.error(
+        `Unexpected error during ipc.invoke('${channel}'):`,
+        error as Error
+      );
+      return false;
+    } finally {
+      setIsBusy(false);
+      refreshProfiles();
+    }
+  };
+
+  const handleCreate = async () => {
+    const profileName = newProfileName.trim();
+    const created = await runAction(
+      "profiles:create",
+      { profileName },
+      {
+        title: "Profile Created",
+        description: `The profile "${profileName}" was created from your current servers.`,
+      }
+    );
+    if (created) {
+      setNewProfileName("");
+    }
+  };
+
+  const handleApply = async (profileName: string) => {
+    if (
+      !window.confirm(
+        `Apply the profile "${profileName}"? Your current servers will be replaced by its servers (servers not in the profile are disabled) and Claude Desktop will restart.`
+      )
+    ) {
+      return;
+    }
+    await runAction(
+      "profiles:apply",
+      { profileName },
+      {
+        title: "Profile Applied",
+        description: `The profile "${profileName}" was applied and Claude Desktop is restarting.`,
+      }
+    );
+  };
+
+  const handleDelete = async (profileName: string) => {
+    if (
+      !window.confirm(
+        `Are you sure you want to delete the profile "${profileName}"?`
+      )
+    ) {
+      return;
+    }
+    await runAction(
+      "profiles:delete",
+      { profileName },
+      {
+        title: "Profile Deleted",
+        description: `The profile "${profileName}" was deleted. Your current servers were left untouched.`,
+      }
+    );
+  };
+
+  const handleName = async () => {
+    if (!namedProfile) return;
+    const { profileName, action } = namedProfile;
+    const newProfileName = namedProfile.newProfileName.trim();
+    const done = await runAction(
+      action === "rename" ? "profiles:rename" : "profiles:clone",
+      { profileName, newProfileName },
+      action === "rename"
+        ? {
+            title: "Profile Renamed",
+            description: `The profile "${profileName}" was renamed to "${newProfileName}".`,
+          }
+        : {
+            title: "Profile Cloned",
+            description: `The profile "${profileName}" was cloned as "${newProfileName}".`,
+          }
+    );
+    if (done) {
+      setNamedProfile(undefined);
+    }
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 p-4 m-4">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold">Server Profiles</CardTitle>
+        <CardDescription>
+          Save your current servers as a named profile and switch between
+          profiles in one click.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Profile name"
+            value={newProfileName}
+            onChange={(event) => setNewProfileName(event.target.value)}
+          />
+          <Button
+            onClick={handleCreate}
+            disabled={isBusy || !newProfileName.trim()}
+          >
+            Save Current Servers
+          </Button>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Profile</TableHead>
+              <TableHead>Servers</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {profiles.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center">
+                  No profiles yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              profiles.map((profile) => (
+                <TableRow key={profile.name}>
+                  <TableCell>
+                    {namedProfile?.profileName === profile.name ? (
+                      <Input
+                        autoFocus
+                        value={namedProfile.newProfileName}
+                        onChange={(event) =>
+                          setNamedProfile({
+                            ...namedProfile,
+                            newProfileName: event.target.value,
+                          })
+                        }
+                      />
+                    ) : (
+                      profile.name
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {Object.keys(profile.servers).join(", ") || "(no servers)"}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    {namedProfile?.profileName === profile.name ? (
+                      <>
+                        <Button
+                          size="sm"
+                          onClick={handleName}
+                          disabled={
+                            isBusy || !namedProfile.newProfileName.trim()
+                          }
+                        >
+                          {namedProfile.action === "rename"
+                            ? "Rename"
+                            : "Clone"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setNamedProfile(undefined)}
+                        >
+                          Cancel
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button
+                          size="sm"
+                          onClick={() => handleApply(profile.name)}
+                          disabled={isBusy}
+                        >
+                          Apply
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setNamedProfile({
+                              profileName: profile.name,
+                              action: "clone",
+                              newProfileName: `${profile.name} copy`,
+                            })
+                          }
+                          disabled={isBusy}
+                        >
+                          Clone
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setNamedProfile({
+                              profileName: profile.name,
+                              action: "rename",
+                              newProfileName: profile.name,
+                            })
+                          }
+                          disabled={isBusy}
+                        >
+                          Rename
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleDelete(profile.name)}
+                          disabled={isBusy}
+                        >
+                          Delete
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
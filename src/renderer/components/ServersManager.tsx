@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 
 import { logger } from "../../shared/logger";
 import { MCPServerConfig } from "../../main/claude";
+import type { InstallManifest, InstalledServer } from "../../main/manifest";
+import type { ConfigDiagnostic } from "../../main/validation";
 
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -20,15 +22,64 @@ import {
   TableHead,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
+import { ServerEditorDialog } from "@/components/ServerEditorDialog";
+import { UninstallDialog } from "@/components/UninstallDialog";
+
+/**
+ * Shows where a server comes from: installed by iod (with its source) or added by hand.
+ */
+function ServerSource({
+  installedServer,
+}: {
+  installedServer?: InstalledServer;
+}) {
+  if (!installedServer) {
+    return <span className="text-muted-foreground">Added by hand</span>;
+  }
+
+  const { git, runtime, installedAt, appVersion } = installedServer;
+  const versions = [
+    runtime?.node && `Node ${runtime.node}`,
+    runtime?.python && `Python ${runtime.python}`,
+  ].filter(Boolean);
+  return (
+    <>
+      <div>Installed by iod</div>
+      <div className="text-xs text-muted-foreground">
+        {git && <div>{`${git.repo_url} @ ${git.commit.slice(0, 7)}`}</div>}
+        {versions.length > 0 && <div>{versions.join(" · ")}</div>}
+        <div>
+          {new Date(installedAt).toLocaleString()} · iod v{appVersion}
+        </div>
+      </div>
+    </>
+  );
+}
 
 export function ServersManager() {
   const { toast } = useToast();
   const [servers, setServers] = useState<{
     [serverName: string]: MCPServerConfig;
   }>({});
-  const [isDeleting, setIsDeleting] = useState<{
+  const [deletedServer, setDeletedServer] = useState<{
+    serverName: string;
+    disabled: boolean;
+  }>();
+  const [disabledServers, setDisabledServers] = useState<{
+    [serverName: string]: MCPServerConfig;
+  }>({});
+  const [isToggling, setIsToggling] = useState<{
     [serverName: string]: boolean;
   }>({});
+  const [installedServers, setInstalledServers] = useState<InstallManifest>({});
+  // the errors of the server configs Claude might not accept, iod lists the servers anyway.
+  const [serverErrors, setServerErrors] = useState<{
+    [serverName: string]: ConfigDiagnostic[];
+  }>({});
+  const [editedServer, setEditedServer] = useState<string>();
+  const [selectedServers, setSelectedServers] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
 
   useEffect(() => {
     window.ipc.invoke("claude:get-mcp-servers", undefined)
@@ -56,54 +107,238 @@ export function ServersManager() {
   }, []);
 
   useEffect(() => {
-    window.ipc.on("claude:config-changed", ({ config }) => {
+    window.ipc.invoke("claude:get-disabled-mcp-servers", undefined)
+      .then(({ success, data, error }) => {
+        if (success && data) {
+          setDisabledServers(data);
+        } else {
+          toast({
+            title: "Servers Manager Error",
+            description: error,
+            variant: "destructive",
+          });
+          logger.error("get-disabled-mcp-servers error:", new Error(error));
+        }
+      })
+      .catch((error) => {
+        toast({
+          title: "Servers Manager Error",
+          description:
+            "An unexpected error occurred while getting your disabled MCP servers.",
+          variant: "destructive",
+        });
+        logger.error("Unexpected error during ipc.invoke('claude:get-disabled-mcp-servers'):", error);
+      });
+  }, []);
+
+  const refreshInstalledServers = async () => {
+    try {
+      const { success, data, error } = await window.ipc.invoke(
+        "installer:get-installed-servers",
+        undefined
+      );
+      if (success && data) {
+        setInstalledServers(data);
+      } else {
+        logger.error("get-installed-servers error:", new Error(error));
+      }
+    } catch (error) {
+      logger.error(
+        "Unexpected error during ipc.invoke('installer:get-installed-servers'):",
+        error as Error
+      );
+    }
+  };
+
+  useEffect(() => {
+    refreshInstalledServers();
+  }, []);
+
+  const refreshServerErrors = async () => {
+    try {
+      const { success, data, error } = await window.ipc.invoke(
+        "claude:validate-config",
+        undefined
+      );
+      if (success && data) {
+        const errors: { [serverName: string]: ConfigDiagnostic[] } = {};
+        data.forEach((diagnostic) => {
+          const [field, serverName] = diagnostic.path ?? [];
+          if (diagnostic.severity === "error" && field === "mcpServers" && serverName) {
+            errors[serverName] = [...(errors[serverName] ?? []), diagnostic];
+          }
+        });
+        setServerErrors(errors);
+      } else {
+        logger.error("validate-config error:", new Error(error));
+      }
+    } catch (error) {
+      logger.error(
+        "Unexpected error during ipc.invoke('claude:validate-config'):",
+        error as Error
+      );
+    }
+  };
+
+  useEffect(() => {
+    refreshServerErrors();
+  }, []);
+
+  useEffect(() => {
+    window.ipc.on("claude:config-changed", ({ config, disabledServers }) => {
       setServers(config.mcpServers);
+      setDisabledServers(disabledServers);
+      // installs write the config, their provenance is recorded at the same time.
+      refreshInstalledServers();
+      refreshServerErrors();
     });
   }, []);
 
-  const handleDelete = async (serverName: string) => {
-    if (
-      !window.confirm(
-        `Are you sure you want to delete the server "${serverName}"?`
-      )
-    ) {
-      return;
+  const handleToggle = async (serverName: string, isDisabled: boolean) => {
+    setIsToggling((prev) => ({ ...prev, [serverName]: true }));
+
+    try {
+      const { success, error } = await window.ipc.invoke(
+        isDisabled ? "claude:enable-mcp-server" : "claude:disable-mcp-server",
+        { serverName }
+      );
+      if (success) {
+        // move the server config from one list to the other.
+        const [fromServers, toServers] = isDisabled
+          ? [disabledServers, servers]
+          : [servers, disabledServers];
+        const updatedFrom = { ...fromServers };
+        delete updatedFrom[serverName];
+        const updatedTo = { ...toServers, [serverName]: fromServers[serverName] };
+        setServers(isDisabled ? updatedTo : updatedFrom);
+        setDisabledServers(isDisabled ? updatedFrom : updatedTo);
+        toast({
+          title: isDisabled ? "Server Enabled" : "Server Disabled",
+          description: isDisabled
+            ? `The server "${serverName}" has been enabled. Restart Claude to use it.`
+            : `The server "${serverName}" has been disabled, its config is kept by iod.`,
+        });
+      } else {
+        toast({
+          title: isDisabled ? "Enable Error" : "Disable Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("toggle-mcp-server error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: isDisabled ? "Enable Error" : "Disable Error",
+        description: `An unexpected error occurred while ${isDisabled ? "enabling" : "disabling"} "${serverName}".`,
+        variant: "destructive",
+      });
+      logger.error("Unexpected toggle error:", error);
+    } finally {
+      setIsToggling((prev) => ({ ...prev, [serverName]: false }));
+    }
+  };
+
+  const handleUninstalled = (serverName: string, disabled: boolean) => {
+    // only the deleted one of an enabled and a disabled server of the same name is removed.
+    (disabled ? setDisabledServers : setServers)((prevServers) => {
+      const updatedServers = { ...prevServers };
+      delete updatedServers[serverName];
+      return updatedServers;
+    });
+    if (!(serverName in (disabled ? servers : disabledServers))) {
+      setSelectedServers((prev) => prev.filter((name) => name !== serverName));
     }
+    setDeletedServer(undefined);
+  };
+
+  const toggleSelected = (serverName: string) => {
+    setSelectedServers((prev) =>
+      prev.includes(serverName)
+        ? prev.filter((name) => name !== serverName)
+        : [...prev, serverName]
+    );
+  };
 
-    setIsDeleting((prev) => ({ ...prev, [serverName]: true }));
+  const handleExport = async () => {
+    setIsExporting(true);
 
     try {
-      const { success, error } = await window.ipc.invoke("claude:delete-mcp-server", { serverName });
+      const { success, data, error } = await window.ipc.invoke("bundles:export", {
+        serverNames: selectedServers,
+      });
       if (success) {
-        setServers((prevServers) => {
-          const updatedServers = { ...prevServers };
-          delete updatedServers[serverName];
-          return updatedServers;
-        });
+        if (data) {
+          toast({
+            title: "Servers Exported",
+            description: `${selectedServers.length} server(s) exported to ${data}.`,
+          });
+          setSelectedServers([]);
+        }
+      } else {
         toast({
-          title: "Server Deleted",
-          description: `The server "${serverName}" has been successfully deleted.`,
+          title: "Export Error",
+          description: error,
+          variant: "destructive",
         });
+        logger.error("bundles:export error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Export Error",
+        description: "An unexpected error occurred while exporting your servers.",
+        variant: "destructive",
+      });
+      logger.error("Unexpected export error:", error as Error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+
+    try {
+      const { success, data, error } = await window.ipc.invoke("bundles:import", undefined);
+      if (success) {
+        // each entry is reviewed and reported as an install of its own.
+        if (data && data.length > 0) {
+          toast({
+            title: "Bundle Imported",
+            description: `Review the ${data.length} install(s) of the bundle to add its servers to your Claude Desktop App.`,
+          });
+        }
       } else {
         toast({
-          title: "Delete Error",
+          title: "Import Error",
           description: error,
           variant: "destructive",
         });
-        logger.error("delete-mcp-server error:", new Error(error));
+        logger.error("bundles:import error:", new Error(error));
       }
     } catch (error) {
       toast({
-        title: "Delete Error",
-        description: `An unexpected error occurred while deleting "${serverName}".`,
+        title: "Import Error",
+        description: "An unexpected error occurred while importing the bundle.",
         variant: "destructive",
       });
-      logger.error("Unexpected delete error:", error);
+      logger.error("Unexpected import error:", error as Error);
     } finally {
-      setIsDeleting((prev) => ({ ...prev, [serverName]: false }));
+      setIsImporting(false);
     }
   };
 
+  // disabled servers are listed with the enabled ones, greyed out, even when they share a name.
+  const serverRows = [
+    ...Object.keys(servers).map((serverName) => ({
+      serverName,
+      disabled: false,
+    })),
+    ...Object.keys(disabledServers).map((serverName) => ({
+      serverName,
+      disabled: true,
+    })),
+  ];
+
   return (
     <Card className="flex flex-col gap-4 p-4 m-4">
       <CardHeader>
@@ -112,36 +347,108 @@ export function ServersManager() {
         </CardTitle>
         <CardDescription>
           Manage your MCP servers installed on the Claude Desktop App.
+          Disabled servers are kept by iod and can be enabled again at any
+          time.
         </CardDescription>
       </CardHeader>
       <CardContent>
+        <div className="mb-4 flex justify-end space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleImport}
+            disabled={isImporting}
+          >
+            {isImporting ? "Importing..." : "Import Bundle"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={isExporting || selectedServers.length === 0}
+          >
+            {isExporting ? "Exporting..." : "Export Selected"}
+          </Button>
+        </div>
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-8" />
               <TableHead>Server Name</TableHead>
+              <TableHead>Source</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {Object.keys(servers).length === 0 ? (
+            {serverRows.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={2} className="text-center">
+                <TableCell colSpan={4} className="text-center">
                   No servers installed. Follow the instructions above to install
                   a MCP server.
                 </TableCell>
               </TableRow>
             ) : (
-              Object.keys(servers).map((serverName) => (
-                <TableRow key={serverName}>
-                  <TableCell>{serverName}</TableCell>
-                  <TableCell className="text-right">
+              serverRows.map(({ serverName, disabled }) => (
+                <TableRow
+                  key={`${serverName}${disabled ? " (disabled)" : ""}`}
+                  className={disabled ? "text-muted-foreground" : ""}
+                >
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${serverName}`}
+                      checked={selectedServers.includes(serverName)}
+                      onChange={() => toggleSelected(serverName)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {serverName}
+                    {disabled && " (disabled)"}
+                    {!disabled && serverName in disabledServers && (
+                      <div className="text-xs text-destructive">
+                        A disabled server has the same name, delete or rename
+                        this one before enabling it.
+                      </div>
+                    )}
+                    {!disabled &&
+                      serverErrors[serverName]?.map((diagnostic) => (
+                        <div
+                          key={diagnostic.message}
+                          className="text-xs text-destructive"
+                        >
+                          {diagnostic.message}
+                        </div>
+                      ))}
+                  </TableCell>
+                  <TableCell>
+                    <ServerSource
+                      installedServer={installedServers[serverName]}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    {!disabled && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditedServer(serverName)}
+                      >
+                        Edit
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggle(serverName, disabled)}
+                      disabled={isToggling[serverName]}
+                    >
+                      {disabled ? "Enable" : "Disable"}
+                    </Button>
                     <Button
                       variant="destructive"
                       size="sm"
-                      onClick={() => handleDelete(serverName)}
-                      disabled={isDeleting[serverName]}
+                      onClick={() => setDeletedServer({ serverName, disabled })}
                     >
-                      {isDeleting[serverName] ? "Deleting..." : "Delete"}
+                      Delete
                     </Button>
                   </TableCell>
                 </TableRow>
@@ -149,6 +456,40 @@ export function ServersManager() {
             )}
           </TableBody>
         </Table>
+        {editedServer && servers[editedServer] && (
+          <ServerEditorDialog
+            serverName={editedServer}
+            serverConfig={servers[editedServer]}
+            onClose={() => setEditedServer(undefined)}
+            onSaved={(newServerName, serverConfig) => {
+              // a renamed server keeps its place in the list.
+              setServers((prevServers) =>
+                Object.fromEntries(
+                  Object.entries(prevServers).map(([name, config]) =>
+                    name === editedServer
+                      ? [newServerName, serverConfig]
+                      : [name, config]
+                  )
+                )
+              );
+              setSelectedServers((prev) =>
+                prev.map((name) => (name === editedServer ? newServerName : name))
+              );
+              setEditedServer(undefined);
+              refreshServerErrors();
+            }}
+          />
+        )}
+        {deletedServer && (
+          <UninstallDialog
+            serverName={deletedServer.serverName}
+            disabled={deletedServer.disabled}
+            onClose={() => setDeletedServer(undefined)}
+            onUninstalled={() =>
+              handleUninstalled(deletedServer.serverName, deletedServer.disabled)
+            }
+          />
+        )}
       </CardContent>
     </Card>
   );
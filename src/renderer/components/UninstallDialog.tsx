@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+
+import { logger } from "../../shared/logger";
+import type { UninstallPreview } from "../../main/uninstaller";
+
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+  CardFooter,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+export function UninstallDialog({
+  serverName,
+  disabled,
+  onClose,
+  onUninstalled,
+}: {
+  serverName: string;
+  /**
+   * Whether the server to delete is the disabled one, an enabled server can share its name.
+   */
+  disabled: boolean;
+  onClose: () => void;
+  onUninstalled: () => void;
+}) {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<UninstallPreview>();
+  const [isUninstalling, setIsUninstalling] = useState(false);
+
+  useEffect(() => {
+    window.ipc
+      .invoke("installer:preview-uninstall", { serverName, disabled })
+      .then(({ success, data, error }) => {
+        if (success && data) {
+          setPreview(data);
+        } else {
+          toast({
+            title: "Delete Error",
+            description: error,
+            variant: "destructive",
+          });
+          logger.error("preview-uninstall error:", new Error(error));
+          onClose();
+        }
+      })
+      .catch((error) => {
+        toast({
+          title: "Delete Error",
+          description: `An unexpected error occurred while preparing the deletion of "${serverName}".`,
+          variant: "destructive",
+        });
+        logger.error("Unexpected preview-uninstall error:", error as Error);
+        onClose();
+      });
+  }, [serverName, disabled]);
+
+  const handleUninstall = async () => {
+    setIsUninstalling(true);
+    try {
+      const { success, error } = await window.ipc.invoke(
+        "installer:uninstall-server",
+        { serverName, disabled }
+      );
+      if (success) {
+        toast({
+          title: "Server Deleted",
+          description: `The server "${serverName}" has been successfully deleted.`,
+        });
+        onUninstalled();
+      } else {
+        toast({
+          title: "Delete Error",
+          description: error,
+          variant: "destructive",
+        });
+        logger.error("uninstall-server error:", new Error(error));
+      }
+    } catch (error) {
+      toast({
+        title: "Delete Error",
+        description: `An unexpected error occurred while deleting "${serverName}".`,
+        variant: "destructive",
+      });
+      logger.error("Unexpected delete error:", error as Error);
+    } finally {
+      setIsUninstalling(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <Card className="max-h-full max-w-2xl w-full overflow-auto">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold">
+            Delete {serverName}
+            {disabled && " (disabled)"}
+          </CardTitle>
+          <CardDescription>
+            The server is removed from your Claude Desktop App config file along
+            with the files iod downloaded for it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {!preview ? (
+            <div className="text-muted-foreground">Loading...</div>
+          ) : (
+            <>
+              <div>
+                <div className="mb-1 font-medium">Files removed</div>
+                {preview.removedPaths.length === 0 ? (
+                  <div className="text-muted-foreground">
+                    No files, only the config of the server is removed.
+                  </div>
+                ) : (
+                  <ul className="space-y-1 font-mono text-xs">
+                    {preview.removedPaths.map((removedPath) => (
+                      <li key={removedPath}>{removedPath}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {preview.sharedPaths.length > 0 && (
+                <div>
+                  <div className="mb-1 font-medium">
+                    Files kept, still used by other servers
+                  </div>
+                  <ul className="space-y-1 text-xs">
+                    {preview.sharedPaths.map((sharedPath) => (
+                      <li key={sharedPath.path}>
+                        <span className="font-mono">{sharedPath.path}</span>
+                        <span className="text-muted-foreground">
+                          {" "}
+                          (used by {sharedPath.usedBy.join(", ")})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+        <CardFooter className="justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleUninstall}
+            disabled={!preview || isUninstalling}
+          >
+            {isUninstalling ? "Deleting..." : "Delete"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
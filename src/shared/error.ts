@@ -1,3 +1,5 @@
+import type { MergeConflict } from "../main/merge";
+
 /**
  * AppError: An error class that separates user-friendly messages
  * from a detailed stack trace and any additional debug info.
@@ -28,4 +30,42 @@ export class AppError extends Error {
     // Ensure the prototype chain is correct
     Object.setPrototypeOf(this, AppError.prototype);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * ConfigConflictError: raised when a change made by iod to the Claude Desktop App
+ * config file conflicts with a change made concurrently outside of iod.
+ */
+export class ConfigConflictError extends AppError {
+  /**
+   * The conflicting values between iod's change and the config file on disk.
+   */
+  public conflicts: MergeConflict[];
+
+  constructor({
+    developerMessage,
+    userMessage,
+    conflicts,
+  }: {
+    developerMessage: string;
+    userMessage: string;
+    conflicts: MergeConflict[];
+  }) {
+    super({ developerMessage, userMessage });
+    this.conflicts = conflicts;
+    // Ensure the prototype chain is correct
+    Object.setPrototypeOf(this, ConfigConflictError.prototype);
+  }
+}
+
+/**
+ * InstallCancelledError: raised when an install is cancelled by the user before
+ * the Claude Desktop App config file is written.
+ */
+export class InstallCancelledError extends AppError {
+  constructor({ developerMessage }: { developerMessage: string }) {
+    super({ developerMessage, userMessage: "The installation was cancelled." });
+    // Ensure the prototype chain is correct
+    Object.setPrototypeOf(this, InstallCancelledError.prototype);
+  }
+}
@@ -6,7 +6,28 @@
  * - invoke / handle channels to send from renderer to main via ipcRenderer.invoke() and ipcMain.handle()
  */
 import type { BrowserWindow } from "electron";
-import type { ClaudeDesktopConfig, MCPServerConfig } from "../main/claude";
+import type {
+  ClaudeDesktopConfig,
+  ConfigRepairPreview,
+  MCPServerConfig,
+} from "../main/claude";
+import type { ConfigSnapshot } from "../main/backups";
+import type { DisabledServers } from "../main/disabled";
+import type { CollisionResolution, InstallProgress } from "../main/installer";
+import type { DiffLine } from "../main/diff";
+import type { InstallManifest } from "../main/manifest";
+import type { MergeConflict } from "../main/merge";
+import type { ServerProfile } from "../main/profiles";
+import type { InstallReview } from "../main/review";
+import type {
+  CredentialsRequest,
+  GitCredentials,
+  StoredCredentialsHost,
+} from "../main/credentials";
+import type { AppSettings } from "../main/settings";
+import type { PublisherKey } from "../main/signatures";
+import type { UninstallPreview } from "../main/uninstaller";
+import type { ConfigDiagnostic } from "../main/validation";
 import { AppError } from "./error";
 import { logger } from "./logger";
 
@@ -44,7 +65,48 @@ export interface MainToRendererSendChannels {
    */
   "claude:config-changed": {
     config: ClaudeDesktopConfig;
+    /**
+     * The disabled MCP servers, kept in sync with the servers of the config.
+     */
+    disabledServers: DisabledServers;
+  };
+
+  /**
+   * Notify the renderer that a change made by iod to the Claude config was not saved
+   * because it conflicts with a change made to the config file outside of iod.
+   */
+  "claude:config-conflict": {
+    /**
+     * The conflicting values between iod's change and the config file on disk.
+     */
+    conflicts: MergeConflict[];
+  };
+
+  /**
+   * Notify the renderer that the Claude config changed but is not valid anymore.
+   */
+  "claude:config-invalid": {
+    /**
+     * The issues found in the config file.
+     */
+    diagnostics: ConfigDiagnostic[];
   };
+
+  /**
+   * Notify the renderer of the progress of an install, step by step.
+   */
+  "installer:progress": InstallProgress;
+
+  /**
+   * Ask the user to review an install, nothing is installed until it is approved.
+   * The review is over once the install reports its 'finish' step.
+   */
+  "installer:review-request": InstallReview;
+
+  /**
+   * Ask the user for the credentials of a git host refusing to clone a private repository.
+   */
+  "installer:credentials-request": CredentialsRequest;
 }
 
 /**
@@ -89,7 +151,7 @@ export interface IpcInvokeChannels {
   };
 
   /**
-   * Delete an MCP server from the main process.
+   * Delete an MCP server (enabled or disabled) from the main process.
    */
   "claude:delete-mcp-server": {
     request: {
@@ -97,9 +159,414 @@ export interface IpcInvokeChannels {
        * The name (key) of the MCP server to delete.
        */
       serverName: string;
+      /**
+       * Whether to delete the disabled server rather than the enabled one of the same name.
+       */
+      disabled?: boolean;
+    };
+    response: void;
+  };
+
+  /**
+   * Get the MCP servers disabled by iod (kept out of the Claude config).
+   */
+  "claude:get-disabled-mcp-servers": {
+    request: void;
+    response: DisabledServers;
+  };
+
+  /**
+   * Disable an MCP server without losing its config.
+   */
+  "claude:disable-mcp-server": {
+    request: {
+      /**
+       * The name (key) of the MCP server to disable.
+       */
+      serverName: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Enable a disabled MCP server.
+   */
+  "claude:enable-mcp-server": {
+    request: {
+      /**
+       * The name (key) of the MCP server to enable.
+       */
+      serverName: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Get the MCP servers installed by iod with their provenance (git source, install time...).
+   * Servers added by hand in the Claude config are not listed.
+   */
+  "installer:get-installed-servers": {
+    request: void;
+    response: InstallManifest;
+  };
+
+  /**
+   * List what uninstalling an MCP server removes from disk.
+   */
+  "installer:preview-uninstall": {
+    request: {
+      /**
+       * The name (key) of the MCP server to uninstall.
+       */
+      serverName: string;
+      /**
+       * Whether to uninstall the disabled server rather than the enabled one of the same name.
+       */
+      disabled?: boolean;
+    };
+    response: UninstallPreview;
+  };
+
+  /**
+   * Uninstall an MCP server (enabled or disabled) with its clone, uv cache and metadata.
+   */
+  "installer:uninstall-server": {
+    request: {
+      /**
+       * The name (key) of the MCP server to uninstall.
+       */
+      serverName: string;
+      /**
+       * Whether to uninstall the disabled server rather than the enabled one of the same name.
+       */
+      disabled?: boolean;
+    };
+    response: void;
+  };
+
+  /**
+   * Cancel an install, waiting in the install queue or running.
+   */
+  "installer:cancel-install": {
+    request: {
+      /**
+       * The id of the install, as sent in its progress events.
+       */
+      installId: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Approve or reject an install waiting for its review.
+   */
+  "installer:respond-review": {
+    request: {
+      /**
+       * The id of the reviewed install.
+       */
+      installId: string;
+      /**
+       * Whether the user approved the install.
+       */
+      approved: boolean;
+      /**
+       * What to do with the servers named like installed servers, by server name.
+       * Both servers are kept for the collisions left out.
+       */
+      resolutions?: { [serverName: string]: CollisionResolution };
+      /**
+       * The values given for the secret env vars left empty, by server name.
+       */
+      secrets?: { [serverName: string]: { [key: string]: string } };
+    };
+    response: void;
+  };
+
+  /**
+   * Give the credentials asked by an install, or decline.
+   */
+  "installer:respond-credentials": {
+    request: {
+      /**
+       * The id of the credentials request.
+       */
+      requestId: string;
+      /**
+       * The credentials of the host, undefined to decline.
+       */
+      credentials?: GitCredentials;
+      /**
+       * Whether to store the credentials for the next installs from the host.
+       */
+      remember: boolean;
+    };
+    response: void;
+  };
+
+  /**
+   * List the git hosts credentials are stored for.
+   */
+  "credentials:list-hosts": {
+    request: void;
+    response: StoredCredentialsHost[];
+  };
+
+  /**
+   * Forget the credentials stored for a git host.
+   */
+  "credentials:forget": {
+    request: {
+      /**
+       * The host to forget the credentials of.
+       */
+      host: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Update the config of an existing MCP server.
+   */
+  "claude:update-mcp-server": {
+    request: {
+      /**
+       * The name (key) of the MCP server to update.
+       */
+      serverName: string;
+      /**
+       * The new config of the MCP server.
+       */
+      serverConfig: MCPServerConfig;
+      /**
+       * The new name of the MCP server, unchanged if not provided.
+       */
+      newServerName?: string;
     };
     response: void;
   };
+
+  /**
+   * List the snapshots taken of the Claude Desktop App config file, newest first.
+   */
+  "claude:list-config-snapshots": {
+    request: void;
+    response: ConfigSnapshot[];
+  };
+
+  /**
+   * Diff the current Claude Desktop App config file against a snapshot.
+   */
+  "claude:diff-config-snapshot": {
+    request: {
+      /**
+       * The id of the snapshot to compare the current config with.
+       */
+      snapshotId: string;
+    };
+    /**
+     * The lines changed to go from the current config to the snapshot.
+     */
+    response: DiffLine[];
+  };
+
+  /**
+   * Restore a snapshot of the Claude Desktop App config file.
+   */
+  "claude:restore-config-snapshot": {
+    request: {
+      /**
+       * The id of the snapshot to restore.
+       */
+      snapshotId: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Validate the Claude Desktop App config file.
+   */
+  "claude:validate-config": {
+    request: void;
+    /**
+     * The issues found in the config file, empty if valid.
+     */
+    response: ConfigDiagnostic[];
+  };
+
+  /**
+   * Preview the automatic repair of the Claude Desktop App config file without writing it.
+   */
+  "claude:preview-config-repair": {
+    request: void;
+    response: ConfigRepairPreview;
+  };
+
+  /**
+   * Apply the automatic repair of the Claude Desktop App config file.
+   */
+  "claude:apply-config-repair": {
+    request: void;
+    response: void;
+  };
+
+  /**
+   * List the server profiles, sorted by name.
+   */
+  "profiles:list": {
+    request: void;
+    response: ServerProfile[];
+  };
+
+  /**
+   * Create a profile from the MCP servers currently in the Claude Desktop App config file.
+   */
+  "profiles:create": {
+    request: {
+      /**
+       * The name of the new profile.
+       */
+      profileName: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Create a copy of a profile under a new name.
+   */
+  "profiles:clone": {
+    request: {
+      /**
+       * The name of the profile to clone.
+       */
+      profileName: string;
+      /**
+       * The name of the copy.
+       */
+      newProfileName: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Rename a profile.
+   */
+  "profiles:rename": {
+    request: {
+      /**
+       * The current name of the profile.
+       */
+      profileName: string;
+      /**
+       * The new name of the profile.
+       */
+      newProfileName: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Delete a profile.
+   */
+  "profiles:delete": {
+    request: {
+      /**
+       * The name of the profile to delete.
+       */
+      profileName: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Replace the MCP servers of the Claude Desktop App config file by the ones of a profile
+   * and restart Claude.
+   */
+  "profiles:apply": {
+    request: {
+      /**
+       * The name of the profile to apply.
+       */
+      profileName: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Get the settings of the app.
+   */
+  "settings:get": {
+    request: void;
+    response: AppSettings;
+  };
+
+  /**
+   * Update some settings of the app, publisher keys are managed through their own channels.
+   */
+  "settings:update": {
+    request: Partial<Omit<AppSettings, "publisherKeys">>;
+    /**
+     * The updated settings.
+     */
+    response: AppSettings;
+  };
+
+  /**
+   * List the publisher keys added by the user to verify install payloads.
+   */
+  "signatures:list-publisher-keys": {
+    request: void;
+    response: (PublisherKey & { fingerprint: string })[];
+  };
+
+  /**
+   * Trust a new publisher key to verify install payloads.
+   */
+  "signatures:add-publisher-key": {
+    request: PublisherKey;
+    response: void;
+  };
+
+  /**
+   * Stop trusting a publisher key added by the user.
+   */
+  "signatures:remove-publisher-key": {
+    request: {
+      /**
+       * The fingerprint of the key, as listed.
+       */
+      fingerprint: string;
+    };
+    response: void;
+  };
+
+  /**
+   * Export MCP servers to a .iod.json bundle file chosen by the user.
+   */
+  "bundles:export": {
+    request: {
+      /**
+       * The names of the MCP servers to export.
+       */
+      serverNames: string[];
+    };
+    /**
+     * The path of the written bundle, undefined if the user cancelled.
+     */
+    response: string | undefined;
+  };
+
+  /**
+   * Queue the install of the MCP servers of a .iod.json bundle file chosen by the user, one
+   * install per entry of the bundle, reviewed and reported like the installs of iod.ai urls.
+   */
+  "bundles:import": {
+    request: void;
+    /**
+     * The ids of the queued installs, undefined if the user cancelled.
+     */
+    response: string[] | undefined;
+  };
 }
 
 /**
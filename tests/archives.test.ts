@@ -0,0 +1,134 @@
+import { expect, test, vi, beforeAll, beforeEach, afterAll } from "vitest";
+import "./helpers/home";
+import path from "node:path";
+import http from "node:http";
+import { createHash } from "node:crypto";
+import { execFileSync } from "node:child_process";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import type { AddressInfo } from "node:net";
+
+vi.mock("electron", () => ({
+  app: {
+    isPackaged: false,
+  },
+}));
+
+const serverDir = path.join(homedir(), "..", `iod-archives-server-${process.pid}`);
+const archivesDir = path.join(homedir(), ".iod", "archives");
+let server: http.Server;
+let baseUrl: string;
+const requestedUrls: string[] = [];
+
+function sha256(fileName: string) {
+  return createHash("sha256")
+    .update(readFileSync(path.join(serverDir, fileName)))
+    .digest("hex");
+}
+
+beforeAll(async () => {
+  rmSync(serverDir, { recursive: true, force: true });
+  const projectDir = path.join(serverDir, "weather-1.0.0");
+  mkdirSync(path.join(projectDir, "src"), { recursive: true });
+  writeFileSync(path.join(projectDir, "pyproject.toml"), '[project]\nname = "weather"\n');
+  writeFileSync(path.join(projectDir, "src", "server.py"), "print('weather')\n");
+  writeFileSync(path.join(projectDir, "run.sh"), "#!/bin/sh\n", { mode: 0o755 });
+  execFileSync("tar", ["-czf", "weather.tar.gz", "weather-1.0.0"], { cwd: serverDir });
+  execFileSync("zip", ["-qr", "weather.zip", "weather-1.0.0"], { cwd: serverDir });
+  // an archive writing outside of the directory it is extracted into.
+  execFileSync(
+    "python3",
+    [
+      "-c",
+      "import io, tarfile\n" +
+        "with tarfile.open('evil.tar.gz', 'w:gz') as tar:\n" +
+        "  info = tarfile.TarInfo('../evil.txt'); info.size = 4\n" +
+        "  tar.addfile(info, io.BytesIO(b'evil'))",
+    ],
+    { cwd: serverDir }
+  );
+
+  server = http.createServer((req, res) => {
+    requestedUrls.push(req.url ?? "");
+    const filePath = path.join(serverDir, path.basename(req.url ?? ""));
+    if (!existsSync(filePath)) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    const content = readFileSync(filePath);
+    res.writeHead(200, { "Content-Length": content.length });
+    res.end(content);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+beforeEach(() => {
+  rmSync(homedir(), { recursive: true, force: true });
+  requestedUrls.length = 0;
+  vi.resetModules();
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(serverDir, { recursive: true, force: true });
+});
+
+test.each(["weather.tar.gz", "weather.zip"])(
+  "downloadArchive verifies and extracts %s once",
+  async (fileName) => {
+    const { downloadArchive } = await import("../src/main/archives");
+    const source = { url: `${baseUrl}/${fileName}`, sha256: sha256(fileName) };
+
+    const archiveDir = await downloadArchive(source);
+
+    expect(archiveDir).toBe(path.join(archivesDir, source.sha256));
+    // the directory wrapping the release is stripped.
+    expect(readdirSync(archiveDir).sort()).toEqual(["pyproject.toml", "run.sh", "src"]);
+    expect(readFileSync(path.join(archiveDir, "src", "server.py"), "utf8")).toBe("print('weather')\n");
+    if (process.platform !== "win32") {
+      expect(statSync(path.join(archiveDir, "run.sh")).mode & 0o111).not.toBe(0);
+    }
+
+    // the archive is already extracted, it is not downloaded again.
+    await expect(downloadArchive(source)).resolves.toBe(archiveDir);
+    expect(requestedUrls).toEqual([`/${fileName}`]);
+  }
+);
+
+test("downloadArchive rejects an archive that doesn't match its sha256", async () => {
+  const { downloadArchive } = await import("../src/main/archives");
+  const source = { url: `${baseUrl}/weather.tar.gz`, sha256: sha256("weather.zip") };
+
+  await expect(downloadArchive(source)).rejects.toThrow(
+    `has sha256 ${sha256("weather.tar.gz")}, expected ${source.sha256}`
+  );
+  expect(existsSync(path.join(archivesDir, source.sha256))).toBe(false);
+});
+
+test("downloadArchive never writes outside of the archive directory", async () => {
+  const { downloadArchive } = await import("../src/main/archives");
+  const source = { url: `${baseUrl}/evil.tar.gz`, sha256: sha256("evil.tar.gz") };
+
+  await expect(downloadArchive(source)).rejects.toThrow("Failed to extract the archive");
+  expect(existsSync(path.join(archivesDir, "evil.txt"))).toBe(false);
+  // nothing is left of the extraction.
+  expect(existsSync(archivesDir) ? readdirSync(archivesDir) : []).toEqual([]);
+});
+
+test("downloadArchive reports a missing archive", async () => {
+  const { downloadArchive } = await import("../src/main/archives");
+
+  await expect(
+    downloadArchive({ url: `${baseUrl}/missing.zip`, sha256: "0".repeat(64) })
+  ).rejects.toThrow("Failed to download the archive");
+});
@@ -0,0 +1,47 @@
+import { expect, test } from "vitest";
+import { homeDir } from "./helpers/home";
+import path from "node:path";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+
+import { createSnapshot, listSnapshots, readSnapshot } from "../src/main/backups";
+import { writeFileAtomic } from "../src/main/storage";
+import { diffLines } from "../src/main/diff";
+
+test("writeFileAtomic replaces the file without leaving temporary files", () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "iod-atomic-"));
+  const filePath = path.join(dir, "config.json");
+
+  writeFileAtomic(filePath, "first");
+  writeFileAtomic(filePath, "second");
+
+  expect(readFileSync(filePath, "utf8")).toBe("second");
+  expect(readdirSync(dir)).toEqual(["config.json"]);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test("snapshots are listed newest first and can be read back", () => {
+  const firstId = createSnapshot('{"mcpServers": {}}');
+  const secondId = createSnapshot('{"mcpServers": {"a": {}}}');
+
+  expect(firstId).not.toBe(secondId);
+  const snapshots = listSnapshots();
+  expect(snapshots.map((snapshot) => snapshot.id)).toEqual([secondId, firstId]);
+  expect(readSnapshot(firstId)).toBe('{"mcpServers": {}}');
+  expect(readdirSync(path.join(homeDir, ".iod", "backups"))).toHaveLength(2);
+});
+
+test("readSnapshot rejects ids escaping the backups directory", () => {
+  expect(() => readSnapshot("../claude_desktop_config.json")).toThrow(
+    "Invalid config snapshot id"
+  );
+});
+
+test("diffLines reports added and removed lines", () => {
+  expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([
+    { type: "unchanged", line: "a" },
+    { type: "removed", line: "b" },
+    { type: "unchanged", line: "c" },
+    { type: "added", line: "d" },
+  ]);
+});
@@ -0,0 +1,137 @@
+import { expect, test, vi } from "vitest";
+import path from "node:path";
+import os from "node:os";
+
+import { MCPServerConfig } from "../src/main/claude";
+import { fixConfig, unfixConfig } from "../src/main/installer";
+import { createBundle, installBundle, parseBundle } from "../src/main/bundles";
+import { enqueueInstall } from "../src/main/queue";
+
+vi.mock("node:fs", async (importOriginal) =>
+  (await import("./helpers/binaries")).mockBinaries(importOriginal)
+);
+
+// the installs of the bundle are queued like the installs of iod.ai urls.
+vi.mock("../src/main/queue", () => ({
+  enqueueInstall: vi.fn((url: string) => `install-${url.length}`),
+}));
+
+const githubServer = {
+  command: "npx",
+  args: ["-y", "@modelcontextprotocol/server-github"],
+  env: { GITHUB_TOKEN: "ghp_secret", GITHUB_HOST: "github.com" },
+};
+
+vi.mock("../src/main/claude", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/main/claude")>()),
+  getMCPServers: vi.fn(() => ({ github: githubServer })),
+  getDisabledMCPServers: vi.fn(() => ({})),
+}));
+
+vi.mock("../src/main/installer", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/main/installer")>()),
+  getInstalledServers: vi.fn(() => ({})),
+}));
+
+vi.mock("electron", () => ({
+  app: {
+    isPackaged: false,
+  },
+  BrowserWindow: vi.fn(),
+  dialog: {},
+}));
+
+const repoDir = path.join(os.homedir(), ".iod", "spotify-mcp");
+
+test("unfixConfig reverts the machine specific changes of fixConfig", () => {
+  const configs: MCPServerConfig[] = [
+    {
+      command: "uvx",
+      args: [
+        "omproxy@latest",
+        "uv",
+        "--directory",
+        "{local_cloned_repository_path}",
+        "run",
+        "spotify-mcp",
+      ],
+      env: { NODE_ENV: "development" },
+    },
+    {
+      command: "npx",
+      args: ["npx", "some-package", "--flag"],
+      env: {},
+    },
+  ];
+
+  configs.forEach((config) => {
+    const fixedConfig = fixConfig(config, "spotify", repoDir);
+    expect(fixedConfig).not.toEqual(config);
+
+    expect(unfixConfig(fixedConfig)).toEqual({
+      config,
+      repoDir: config.args.includes("--directory") ? repoDir : undefined,
+    });
+  });
+});
+
+test("unfixConfig leaves paths outside of iod untouched", () => {
+  const config = {
+    command: "/usr/local/bin/python",
+    args: ["--directory", "/home/me/server", "run"],
+    env: {},
+  };
+
+  expect(unfixConfig(config)).toEqual({ config, repoDir: undefined });
+});
+
+test("parseBundle rejects bundles it can't install", () => {
+  const server = { command: "uvx", args: [], env: {} };
+
+  expect(
+    parseBundle(
+      JSON.stringify({
+        version: 1,
+        exportedAt: "2024-01-01T00:00:00.000Z",
+        servers: [{ config: { a: server } }],
+      })
+    ).servers
+  ).toHaveLength(1);
+  expect(() =>
+    parseBundle(
+      JSON.stringify({
+        version: 1,
+        servers: [{ config: {} }],
+      })
+    )
+  ).toThrow("Failed to parse the server bundle.");
+  expect(() => parseBundle("{}")).toThrow();
+});
+
+test("installBundle queues the install of each entry of the bundle", () => {
+  const entries = [
+    { config: { fetch: { command: "uvx", args: ["mcp-server-fetch"], env: {} } } },
+    {
+      config: { spotify: { command: "uv", args: ["--directory", "", "run", "spotify-mcp"], env: {} } },
+      git: { repo_url: "https://github.com/varunneal/spotify-mcp", commit: "036a87c146c7cfffccc1996c36ad178b5dd3f87f" },
+    },
+  ];
+  const bundle = parseBundle(JSON.stringify({ version: 1, exportedAt: "2025-01-01T00:00:00.000Z", servers: entries }));
+
+  const installIds = installBundle(bundle);
+
+  expect(installIds).toHaveLength(2);
+  const urls = vi.mocked(enqueueInstall).mock.calls.map(([url]) => url);
+  expect(
+    urls.map((url) => JSON.parse(Buffer.from(url.replace("iod://", ""), "base64").toString("utf-8")))
+  ).toEqual(entries);
+});
+
+test("createBundle leaves the secret env values out of the bundle", async () => {
+  const bundle = await createBundle(["github"]);
+
+  expect(bundle.servers).toEqual([
+    { config: { github: { ...githubServer, env: { GITHUB_TOKEN: "", GITHUB_HOST: "github.com" } } } },
+  ]);
+  expect(JSON.stringify(bundle)).not.toContain("ghp_secret");
+});
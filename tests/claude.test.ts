@@ -0,0 +1,76 @@
+import { expect, test, vi, beforeEach, afterEach, MockInstance } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import * as mockedFs from "node:fs";
+
+// Mocking fs functions used in claude.ts
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual<typeof import("node:fs")>("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    mkdirSync: vi.fn(),
+    writeFileSync: vi.fn(),
+  };
+});
+
+const originalPlatform = process.platform;
+const originalXdgConfigHome = process.env.XDG_CONFIG_HOME;
+
+function setPlatform(platform: NodeJS.Platform) {
+  Object.defineProperty(process, "platform", { value: platform });
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  // claude.ts resolves the config path at import time.
+  vi.resetModules();
+  (mockedFs.existsSync as unknown as MockInstance).mockReturnValue(false);
+});
+
+afterEach(() => {
+  setPlatform(originalPlatform);
+  if (originalXdgConfigHome === undefined) {
+    delete process.env.XDG_CONFIG_HOME;
+  } else {
+    process.env.XDG_CONFIG_HOME = originalXdgConfigHome;
+  }
+});
+
+test("creates the config file under ~/.config on linux", async () => {
+  setPlatform("linux");
+  delete process.env.XDG_CONFIG_HOME;
+
+  await import("../src/main/claude");
+
+  const configPath = path.join(
+    os.homedir(),
+    ".config",
+    "Claude",
+    "claude_desktop_config.json"
+  );
+  expect(mockedFs.mkdirSync).toHaveBeenCalledWith(path.dirname(configPath), {
+    recursive: true,
+  });
+  expect(mockedFs.writeFileSync).toHaveBeenCalledWith(configPath, "{}");
+});
+
+test("honors XDG_CONFIG_HOME on linux", async () => {
+  setPlatform("linux");
+  process.env.XDG_CONFIG_HOME = "/tmp/xdg-config";
+
+  await import("../src/main/claude");
+
+  expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+    path.join("/tmp/xdg-config", "Claude", "claude_desktop_config.json"),
+    "{}"
+  );
+});
+
+test("throws at import time on unsupported platforms", async () => {
+  setPlatform("aix");
+
+  await expect(import("../src/main/claude")).rejects.toThrow(
+    "Unsupported platform"
+  );
+});
@@ -0,0 +1,181 @@
+import { expect, test, vi, beforeEach } from "vitest";
+import { claudeConfigDir, claudeConfigPath } from "./helpers/home";
+import path from "node:path";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+
+vi.mock("electron", () => ({
+  app: {
+    isPackaged: false,
+  },
+}));
+
+const IOD_HOME = path.join(homedir(), ".iod");
+const commit = "036a87c146c7cfffccc1996c36ad178b5dd3f87f";
+
+function readJSON(filePath: string) {
+  return JSON.parse(readFileSync(filePath, "utf8"));
+}
+
+beforeEach(() => {
+  rmSync(homedir(), { recursive: true, force: true });
+  mkdirSync(claudeConfigDir, { recursive: true });
+  vi.resetModules();
+});
+
+test("getCloneDir keys clones by host, owner, repository and commit", async () => {
+  const { getCloneDir } = await import("../src/main/clones");
+  const reposDir = path.join(IOD_HOME, "repos");
+
+  expect(
+    getCloneDir({
+      repo_url: "https://github.com/varunneal/spotify-mcp.git",
+      commit,
+    })
+  ).toBe(path.join(reposDir, "github.com", "varunneal", "spotify-mcp", commit));
+  expect(
+    getCloneDir({ repo_url: "git@GitHub.com:someone/spotify-mcp.git", commit })
+  ).toBe(path.join(reposDir, "github.com", "someone", "spotify-mcp", commit));
+  expect(
+    getCloneDir({
+      repo_url: "https://git.example.com:8443/group/sub/server",
+      commit,
+    })
+  ).toBe(
+    path.join(
+      reposDir,
+      "git.example.com_8443",
+      "group",
+      "sub",
+      "server",
+      commit
+    )
+  );
+});
+
+test("getCloneDir rejects urls escaping the repos directory", async () => {
+  const { getCloneDir } = await import("../src/main/clones");
+
+  expect(() =>
+    getCloneDir({ repo_url: "https://github.com/spotify-mcp", commit: ".." })
+  ).toThrow();
+  expect(() =>
+    getCloneDir({ repo_url: "git@github.com:../../etc", commit })
+  ).toThrow();
+  expect(() => getCloneDir({ repo_url: "not a url", commit })).toThrow();
+});
+
+test("migrateLegacyClones moves the clones and updates their servers", async () => {
+  const legacyDir = path.join(IOD_HOME, "spotify-mcp");
+  const newDir = path.join(
+    IOD_HOME,
+    "repos",
+    "github.com",
+    "varunneal",
+    "spotify-mcp",
+    commit
+  );
+  const server = (repoDir: string) => ({
+    command: "uv",
+    args: ["--directory", repoDir, "run", "spotify-mcp"],
+    env: {},
+  });
+  mkdirSync(path.join(legacyDir, ".git"), { recursive: true });
+  mkdirSync(path.join(legacyDir, ".venv"), { recursive: true });
+  writeFileSync(
+    path.join(legacyDir, ".venv", "pyvenv.cfg"),
+    `home = ${legacyDir}`
+  );
+  writeFileSync(
+    claudeConfigPath,
+    JSON.stringify({ mcpServers: { spotify: server(legacyDir) } })
+  );
+  writeFileSync(
+    path.join(IOD_HOME, "installed.json"),
+    JSON.stringify({
+      spotify: {
+        git: {
+          repo_url: "https://github.com/varunneal/spotify-mcp",
+          commit,
+        },
+        config: server(""),
+        repoDir: legacyDir,
+        installedAt: new Date().toISOString(),
+        appVersion: "0.0.0",
+      },
+    })
+  );
+  const { createProfile } = await import("../src/main/profiles");
+  createProfile({ profileName: "work" });
+
+  const { migrateLegacyClones } = await import("../src/main/clones");
+  await migrateLegacyClones();
+
+  expect(existsSync(legacyDir)).toBe(false);
+  expect(existsSync(path.join(newDir, ".git"))).toBe(true);
+  expect(existsSync(path.join(newDir, ".venv"))).toBe(false);
+  expect(readJSON(claudeConfigPath).mcpServers.spotify).toEqual(server(newDir));
+  expect(
+    readJSON(path.join(IOD_HOME, "installed.json")).spotify.repoDir
+  ).toBe(newDir);
+  expect(
+    readJSON(path.join(IOD_HOME, "profiles.json")).work.servers.spotify
+  ).toEqual(server(newDir));
+
+  // nothing is left to migrate, running it again changes nothing.
+  await migrateLegacyClones();
+  expect(existsSync(path.join(newDir, ".git"))).toBe(true);
+});
+
+test("migrateLegacyClones leaves a clone it can't identify in place", async () => {
+  const legacyDir = path.join(IOD_HOME, "unknown");
+  mkdirSync(path.join(legacyDir, ".git"), { recursive: true });
+  const config = {
+    mcpServers: {
+      unknown: {
+        command: "uv",
+        args: ["--directory", legacyDir, "run", "server"],
+        env: {},
+      },
+    },
+  };
+  writeFileSync(claudeConfigPath, JSON.stringify(config));
+
+  const { migrateLegacyClones } = await import("../src/main/clones");
+  await migrateLegacyClones();
+
+  expect(existsSync(legacyDir)).toBe(true);
+  expect(readJSON(claudeConfigPath)).toEqual(config);
+});
+
+test("getClonedCommit only trusts complete clones of the repository", async () => {
+  const git = await import("isomorphic-git");
+  const fs = await import("node:fs");
+  const { getClonedCommit } = await import("../src/main/clones");
+  const repoUrl = "https://github.com/varunneal/spotify-mcp";
+  const repoDir = path.join(IOD_HOME, "repos", "github.com", "clone");
+
+  // a clone interrupted before its checkout has no HEAD commit.
+  await git.init({ fs, dir: repoDir });
+  await git.addRemote({ fs, dir: repoDir, remote: "origin", url: repoUrl });
+  expect(await getClonedCommit(repoDir, repoUrl)).toBeUndefined();
+
+  writeFileSync(path.join(repoDir, "README.md"), "spotify-mcp");
+  await git.add({ fs, dir: repoDir, filepath: "README.md" });
+  const oid = await git.commit({
+    fs,
+    dir: repoDir,
+    message: "init",
+    author: { name: "iod", email: "iod@example.com" },
+  });
+  expect(await getClonedCommit(repoDir, repoUrl)).toBe(oid);
+  expect(
+    await getClonedCommit(repoDir, "https://github.com/someone/spotify-mcp")
+  ).toBeUndefined();
+});
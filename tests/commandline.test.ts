@@ -0,0 +1,341 @@
+import { expect, test, vi } from "vitest";
+import path from "node:path";
+import os from "node:os";
+
+import { MCPServerConfig } from "../src/main/claude";
+import {
+  explainFixConfig,
+  fixConfig,
+  unfixConfig,
+} from "../src/main/installer";
+import {
+  getInterpreterVersions,
+  getProvisionCommands,
+  parseRuntimeCommandLine,
+} from "../src/main/runtimes";
+
+vi.mock("node:fs", async (importOriginal) =>
+  (await import("./helpers/binaries")).mockBinaries(importOriginal)
+);
+
+vi.mock("electron", () => ({
+  app: {
+    isPackaged: false,
+  },
+}));
+
+const PLACEHOLDER = "{local_cloned_repository_path}";
+const repoDir = path.join(
+  os.homedir(),
+  ".iod",
+  "repos",
+  "github.com",
+  "a",
+  "b"
+);
+
+test("parseRuntimeCommandLine follows wrapper chains", () => {
+  const argv = [
+    "uvx",
+    "--quiet",
+    "omproxy@latest",
+    "--name",
+    "uv",
+    "uv",
+    "--directory",
+    PLACEHOLDER,
+    "run",
+    "arxiv-mcp-server",
+    "--directory",
+    "npx",
+  ];
+  const { commands } = parseRuntimeCommandLine(argv);
+
+  expect(
+    commands.map(({ program, kind, index }) => [program, kind, index])
+  ).toEqual([
+    ["uvx", "command", 0],
+    ["omproxy", "package", 2],
+    ["uv", "command", 5],
+    ["arxiv-mcp-server", "command", 9],
+  ]);
+  expect(commands[2].options).toEqual([
+    { flag: "--directory", index: 6, valueIndex: 7 },
+  ]);
+  expect(commands[2].positionals).toEqual([8]);
+});
+
+test("fixConfig only rewrites programs, not arguments equal to their names", () => {
+  const config: MCPServerConfig = {
+    command: "npx",
+    args: ["-y", "uv", "--from", "npx"],
+    env: {},
+  };
+
+  const fixedConfig = fixConfig(config, "uv-package");
+  expect(path.basename(fixedConfig.command)).toBe("fnmx");
+  expect(fixedConfig.args).toEqual(["v22", "npx", "-y", "uv", "--from", "npx"]);
+  expect(unfixConfig(fixedConfig)).toEqual({ config, repoDir: undefined });
+});
+
+test("explainFixConfig lists the changes by runtime", () => {
+  const config: MCPServerConfig = {
+    command: "uv",
+    args: ["--directory", PLACEHOLDER, "run", "server"],
+    env: {},
+  };
+
+  const { changes } = explainFixConfig(config, "server", repoDir);
+  expect(changes.map(({ reason }) => reason)).toEqual(["uv", "binaries"]);
+  expect(changes[0].argv.filter(({ type }) => type !== "unchanged")).toEqual([
+    { type: "removed", line: PLACEHOLDER },
+    { type: "added", line: repoDir },
+  ]);
+  expect(
+    explainFixConfig(fixConfig(config, "server", repoDir), "server", repoDir)
+      .changes
+  ).toEqual([]);
+});
+
+/**
+ * A pseudo random generator, seeded for the failures to be reproducible.
+ */
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// arguments of the servers and values of options, including names of runtimes.
+const TOKENS = [
+  "uv",
+  "uvx",
+  "npx",
+  "fnmx",
+  "run",
+  "--directory",
+  "--from",
+  "-y",
+  "3.12",
+  "server",
+];
+
+/**
+ * Generates the command line of a MCP server config, possibly wrapped by omproxy.
+ * @returns The command line, how many programs are runtime binaries, how many npx are run and
+ * whether the directory of the server is used
+ */
+function generateCommandLine(random: () => number) {
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const tokens = (max: number) =>
+    Array.from({ length: Math.floor(random() * (max + 1)) }, () =>
+      pick(TOKENS)
+    );
+  // packages, options would be read as such.
+  const packageName = () =>
+    pick(TOKENS.filter((token) => !token.startsWith("-")));
+  const uvOptions = () =>
+    pick([
+      [],
+      ["--quiet"],
+      ["--python", pick(TOKENS)],
+      ["--with", pick(TOKENS)],
+    ]);
+
+  let binaries = 0;
+  let npxCount = 0;
+  let usesDirectory = false;
+  const inner = (): string[] => {
+    switch (pick(["uv", "uvx-from", "uvx", "npx", "plain"])) {
+      case "uv":
+        binaries++;
+        usesDirectory = true;
+        return [
+          "uv",
+          ...uvOptions(),
+          "--directory",
+          PLACEHOLDER,
+          "run",
+          pick(["server", "run", "3.12"]),
+          ...tokens(4),
+        ];
+      case "uvx-from":
+        binaries++;
+        usesDirectory = true;
+        return [
+          "uvx",
+          ...uvOptions(),
+          "--from",
+          PLACEHOLDER,
+          packageName(),
+          ...tokens(4),
+        ];
+      case "uvx":
+        binaries++;
+        return ["uvx", ...uvOptions(), packageName(), ...tokens(4)];
+      case "npx":
+        // npx comes from the node installed by fnmx, the binary shipped with the app.
+        npxCount++;
+        return ["npx", ...pick([[], ["-y"]]), packageName(), ...tokens(4)];
+      default:
+        return ["python", ...tokens(4)];
+    }
+  };
+
+  let argv = inner();
+  if (random() < 0.5) {
+    binaries++;
+    argv = [
+      "uvx",
+      ...uvOptions(),
+      "omproxy@latest",
+      "--name",
+      pick(TOKENS),
+      ...argv,
+    ];
+  }
+  return { argv, binaries, npxCount, usesDirectory };
+}
+
+test("fixConfig properties hold for generated configs", () => {
+  const random = createRandom(42);
+
+  for (let run = 0; run < 500; run++) {
+    const { argv, binaries, npxCount, usesDirectory } =
+      generateCommandLine(random);
+    const config: MCPServerConfig = {
+      command: argv[0],
+      args: argv.slice(1),
+      env: {},
+    };
+    const context = `config ${JSON.stringify(argv)}`;
+
+    const { config: fixedConfig, changes } = explainFixConfig(
+      config,
+      "server",
+      repoDir
+    );
+    const fixedArgv = [fixedConfig.command, ...fixedConfig.args];
+
+    // only the runtime binaries are resolved, fnmx is only added in front of npx.
+    expect(
+      fixedArgv.filter((arg) => path.isAbsolute(arg)),
+      context
+    ).toHaveLength(binaries + npxCount + (usesDirectory ? 1 : 0));
+    expect(fixedArgv, context).toHaveLength(argv.length + 2 * npxCount);
+    expect(fixedArgv.includes(PLACEHOLDER), context).toBe(false);
+
+    // fixing twice changes nothing.
+    expect(fixConfig(fixedConfig, "server", repoDir), context).toEqual(
+      fixedConfig
+    );
+
+    // unfixing gives the original config back.
+    expect(unfixConfig(fixedConfig), context).toEqual({
+      config,
+      repoDir: usesDirectory ? repoDir : undefined,
+    });
+
+    // the changes lead from the original command line to the fixed one.
+    const sides = changes.map((change) => ({
+      before: change.argv
+        .filter(({ type }) => type !== "added")
+        .map(({ line }) => line),
+      after: change.argv
+        .filter(({ type }) => type !== "removed")
+        .map(({ line }) => line),
+    }));
+    expect([argv, ...sides.map(({ after }) => after)], context).toEqual([
+      ...sides.map(({ before }) => before),
+      fixedArgv,
+    ]);
+  }
+});
+
+test("fixConfig runs the servers with the required versions", () => {
+  const config: MCPServerConfig = {
+    command: "uvx",
+    args: ["omproxy@latest", "npx", "server"],
+    env: {},
+  };
+  const versions = { node: "20", python: "3.11" };
+
+  const fixedConfig = fixConfig(config, "server", undefined, versions);
+  expect(fixedConfig.args).toEqual([
+    "--python=3.11",
+    "omproxy@latest",
+    expect.stringContaining("fnmx"),
+    "20",
+    "npx",
+    "server",
+  ]);
+  expect(fixConfig(fixedConfig, "server", undefined, versions)).toEqual(
+    fixedConfig
+  );
+  expect(getInterpreterVersions(fixedConfig)).toEqual(versions);
+  expect(unfixConfig(fixedConfig)).toEqual({ config, repoDir: undefined });
+
+  // a python version chosen by the config is kept.
+  const pinnedConfig = { ...config, args: ["-p", "3.10", ...config.args] };
+  expect(fixConfig(pinnedConfig, "server", undefined, versions).args).toEqual([
+    "-p",
+    "3.10",
+    ...fixedConfig.args.slice(1),
+  ]);
+});
+
+test("getProvisionCommands installs the interpreters and dependencies once", () => {
+  const config: MCPServerConfig = {
+    command: "uvx",
+    args: [
+      "omproxy@latest",
+      "uv",
+      "--directory",
+      PLACEHOLDER,
+      "run",
+      "server",
+    ],
+    env: {},
+  };
+  const fixedConfig = fixConfig(config, "server", repoDir, { python: "3.11" });
+
+  // pyproject.toml exists, the fs is mocked.
+  const commands = getProvisionCommands(fixedConfig, { serverName: "server", repoDir });
+  expect(commands).toEqual([
+    {
+      description: "Installing Python 3.11",
+      argv: [expect.stringContaining("uv"), "python", "install", "3.11"],
+    },
+    {
+      description: "Installing the Python dependencies",
+      argv: [
+        expect.stringContaining("uv"),
+        "sync",
+        "--python=3.11",
+        "--directory",
+        repoDir,
+      ],
+    },
+  ]);
+  expect(commands.every(({ argv }) => path.isAbsolute(argv[0]))).toBe(true);
+
+  const npxConfig = fixConfig(
+    { command: "npx", args: ["-y", "server"], env: {} },
+    "server",
+    undefined,
+    { node: "20" }
+  );
+  expect(
+    getProvisionCommands(npxConfig, { serverName: "server", repoDir }).map(
+      ({ argv }) => argv.slice(1)
+    )
+  ).toEqual([
+    ["20", "node", "--version"],
+    process.platform === "win32"
+      ? ["20", "cmd.exe", "/c", "npm", "ci"]
+      : ["20", "npm", "ci"],
+  ]);
+});
@@ -0,0 +1,87 @@
+import { expect, test, vi, beforeEach } from "vitest";
+import { claudeConfigDir, claudeConfigPath } from "./helpers/home";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+
+function writeConfig(config: unknown) {
+  writeFileSync(claudeConfigPath, JSON.stringify(config, null, 2));
+}
+
+function readConfig() {
+  return JSON.parse(readFileSync(claudeConfigPath, "utf8"));
+}
+
+beforeEach(() => {
+  mkdirSync(claudeConfigDir, { recursive: true });
+  // claude.ts remembers the last config read at the module level.
+  vi.resetModules();
+});
+
+test("merges iod's change with a change made on disk since the last read", async () => {
+  writeConfig({ mcpServers: { a: { command: "uvx", args: [], env: {} } } });
+  const claude = await import("../src/main/claude");
+  claude.getMCPServers();
+
+  // the user edits the file in a text editor.
+  writeConfig({
+    mcpServers: { a: { command: "uvx", args: [], env: {} } },
+    globalShortcut: "Ctrl+Space",
+  });
+
+  claude.writeMCPServerConfig("b", { command: "npx", args: [], env: {} });
+
+  expect(readConfig()).toEqual({
+    mcpServers: {
+      a: { command: "uvx", args: [], env: {} },
+      b: { command: "npx", args: [], env: {} },
+    },
+    globalShortcut: "Ctrl+Space",
+  });
+});
+
+test("does not overwrite a conflicting change made on disk", async () => {
+  writeConfig({ mcpServers: { a: { command: "uvx", args: [], env: {} } } });
+  const claude = await import("../src/main/claude");
+  const { ConfigConflictError } = await import("../src/shared/error");
+  claude.getMCPServers();
+
+  const editedConfig = {
+    mcpServers: { a: { command: "uvx", args: [], env: { API_KEY: "new" } } },
+  };
+  writeConfig(editedConfig);
+
+  expect(() => claude.deleteMCPServer({ serverName: "a" })).toThrow(
+    ConfigConflictError
+  );
+  expect(readConfig()).toEqual(editedConfig);
+});
+
+test("lists the servers of a config with an invalid server but only writes valid ones", async () => {
+  // Claude accepts a hand-edited numeric env value.
+  writeConfig({
+    mcpServers: {
+      a: { command: "uvx", args: [], env: { PORT: 8080 } },
+      b: { command: "npx", args: [], env: {} },
+    },
+  });
+  const claude = await import("../src/main/claude");
+  const { AppError } = await import("../src/shared/error");
+
+  expect(Object.keys(claude.getMCPServers())).toEqual(["a", "b"]);
+  expect(claude.getConfigDiagnostics()).toEqual([
+    expect.objectContaining({
+      severity: "error",
+      path: ["mcpServers", "a", "env", "PORT"],
+    }),
+  ]);
+
+  claude.deleteMCPServer({ serverName: "b" });
+  expect(Object.keys(readConfig().mcpServers)).toEqual(["a"]);
+  expect(() =>
+    claude.writeMCPServerConfig("c", {
+      command: "npx",
+      args: [],
+      env: { PORT: 8080 as unknown as string },
+    })
+  ).toThrow(AppError);
+  expect(Object.keys(readConfig().mcpServers)).toEqual(["a"]);
+});
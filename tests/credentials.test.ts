@@ -0,0 +1,193 @@
+import { expect, test, vi, beforeAll, beforeEach, afterAll, type Mock } from "vitest";
+import "./helpers/home";
+import path from "node:path";
+import http from "node:http";
+import { execFileSync, spawn } from "node:child_process";
+import * as fs from "node:fs";
+import { homedir } from "node:os";
+import type { AddressInfo } from "node:net";
+import type { BrowserWindow } from "electron";
+import { clone } from "isomorphic-git";
+import gitHttp from "isomorphic-git/http/node";
+
+// no OS keychain in the tests, credentials use the fallback encryption.
+vi.mock("electron", () => ({
+  safeStorage: { isEncryptionAvailable: () => false },
+}));
+
+const TOKEN = "glpat-0123456789abcdef";
+const serverDir = path.join(homedir(), "..", `iod-credentials-server-${process.pid}`);
+let server: http.Server;
+let repoUrl: string;
+
+/**
+ * Serves the repositories of serverDir with git http-backend, only to clients sending TOKEN.
+ */
+function createGitServer() {
+  return http.createServer(async (req, res) => {
+    const expected = `Basic ${Buffer.from(`oauth2:${TOKEN}`).toString("base64")}`;
+    if (req.headers.authorization !== expected) {
+      res.writeHead(401, { "WWW-Authenticate": 'Basic realm="git"' });
+      res.end();
+      return;
+    }
+
+    const body: Buffer[] = [];
+    for await (const chunk of req) body.push(chunk);
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const backend = spawn("git", ["http-backend"], {
+      env: {
+        ...process.env,
+        GIT_PROJECT_ROOT: serverDir,
+        GIT_HTTP_EXPORT_ALL: "1",
+        REQUEST_METHOD: req.method,
+        PATH_INFO: url.pathname,
+        QUERY_STRING: url.search.slice(1),
+        CONTENT_TYPE: req.headers["content-type"] ?? "",
+        CONTENT_LENGTH: String(Buffer.concat(body).length),
+      },
+    });
+    backend.stdin.end(Buffer.concat(body));
+    const output: Buffer[] = [];
+    backend.stdout.on("data", (chunk) => output.push(chunk));
+    backend.on("close", () => {
+      // the CGI output is the headers of the response, a blank line and the body.
+      const response = Buffer.concat(output);
+      const headerEnd = response.indexOf("\r\n\r\n");
+      const headers = response.subarray(0, headerEnd).toString().split("\r\n");
+      let status = 200;
+      headers.forEach((header) => {
+        const [name, ...value] = header.split(": ");
+        if (name.toLowerCase() === "status") {
+          status = parseInt(value.join(": "), 10);
+        } else {
+          res.setHeader(name, value.join(": "));
+        }
+      });
+      res.writeHead(status);
+      res.end(response.subarray(headerEnd + 4));
+    });
+  });
+}
+
+beforeAll(async () => {
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-c", "user.name=iod", "-c", "user.email=iod@example.com", ...args], {
+      cwd: serverDir,
+      stdio: "ignore",
+    });
+  fs.rmSync(serverDir, { recursive: true, force: true });
+  fs.mkdirSync(path.join(serverDir, "work"), { recursive: true });
+  fs.writeFileSync(path.join(serverDir, "work", "README.md"), "private server");
+  git("-C", "work", "init", "-q");
+  git("-C", "work", "add", "README.md");
+  git("-C", "work", "commit", "-q", "-m", "init");
+  git("clone", "-q", "--bare", "work", "private.git");
+
+  server = createGitServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  repoUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/private.git`;
+});
+
+beforeEach(() => {
+  fs.rmSync(homedir(), { recursive: true, force: true });
+  vi.resetModules();
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(serverDir, { recursive: true, force: true });
+});
+
+test("asks for credentials when the host refuses a clone and remembers them", async () => {
+  const { createGitAuth, listCredentialsHosts } = await import("../src/main/credentials");
+  const prompt = vi.fn().mockResolvedValue({
+    credentials: { type: "token", token: TOKEN },
+    remember: true,
+  });
+
+  await clone({ fs, http: gitHttp, dir: path.join(homedir(), "first"), url: repoUrl, ...createGitAuth(repoUrl, prompt) });
+
+  expect(fs.readFileSync(path.join(homedir(), "first", "README.md"), "utf8")).toBe("private server");
+  expect(prompt).toHaveBeenCalledWith({ host: `http://${new URL(repoUrl).host}`, repoUrl, rejected: false });
+  expect(listCredentialsHosts()).toEqual([
+    { host: `http://${new URL(repoUrl).host}`, type: "token", encryption: "aes-256-gcm" },
+  ]);
+  // the token is stored encrypted.
+  expect(fs.readFileSync(path.join(homedir(), ".iod", "credentials.json"), "utf8")).not.toContain(TOKEN);
+
+  // the stored credentials are used without asking again.
+  const nextPrompt = vi.fn();
+  await clone({ fs, http: gitHttp, dir: path.join(homedir(), "second"), url: repoUrl, ...createGitAuth(repoUrl, nextPrompt) });
+  expect(nextPrompt).not.toHaveBeenCalled();
+});
+
+test("asks again when credentials are rejected until the user declines", async () => {
+  const { createGitAuth, listCredentialsHosts } = await import("../src/main/credentials");
+  const prompt = vi
+    .fn()
+    .mockResolvedValueOnce({ credentials: { type: "basic", username: "me", password: "wrong" }, remember: true })
+    .mockResolvedValueOnce({ remember: false });
+
+  await expect(
+    clone({ fs, http: gitHttp, dir: path.join(homedir(), "clone"), url: repoUrl, ...createGitAuth(repoUrl, prompt) })
+  ).rejects.toMatchObject({ code: "UserCanceledError" });
+
+  expect(prompt).toHaveBeenCalledTimes(2);
+  expect(prompt).toHaveBeenLastCalledWith(expect.objectContaining({ rejected: true }));
+  // rejected credentials are never remembered.
+  expect(listCredentialsHosts()).toEqual([]);
+});
+
+test("cancelCredentialsRequests cancels the requests the user can't answer anymore", async () => {
+  const { requestCredentials, respondCredentials, cancelCredentialsRequests } = await import(
+    "../src/main/credentials"
+  );
+  const { InstallCancelledError } = await import("../src/shared/error");
+  const mainWindow = { webContents: { send: vi.fn() } } as unknown as BrowserWindow;
+
+  const request = requestCredentials({ installId: "install-1", host: "gitlab.com", repoUrl, rejected: false }, mainWindow);
+  const [, { requestId }] = (mainWindow.webContents.send as Mock).mock.calls[0];
+  // e.g. the window showing the request is closed.
+  cancelCredentialsRequests();
+
+  await expect(request).rejects.toBeInstanceOf(InstallCancelledError);
+  expect(() => respondCredentials({ requestId, remember: false })).toThrow();
+});
+
+test("forgetCredentials removes the credentials of a host", async () => {
+  const { storeCredentials, getStoredCredentials, forgetCredentials } = await import(
+    "../src/main/credentials"
+  );
+
+  storeCredentials("gitlab.com", { type: "basic", username: "me", password: "secret" });
+  expect(getStoredCredentials("gitlab.com")).toEqual({ type: "basic", username: "me", password: "secret" });
+
+  forgetCredentials({ host: "gitlab.com" });
+  expect(getStoredCredentials("gitlab.com")).toBeUndefined();
+});
+
+test("getCredentialsHost reads the host of scp-like urls and credentials are only readable by the user", async () => {
+  const { getCredentialsHost, storeCredentials } = await import("../src/main/credentials");
+
+  expect(getCredentialsHost("git@GitLab.example.com:team/server.git")).toBe("gitlab.example.com");
+  expect(getCredentialsHost("https://git.example.com:8443/team/server.git")).toBe("git.example.com:8443");
+
+  storeCredentials("gitlab.com", { type: "token", token: TOKEN });
+  if (process.platform !== "win32") {
+    expect(fs.statSync(path.join(homedir(), ".iod", "credentials.json")).mode & 0o777).toBe(0o600);
+  }
+});
+
+test("the credentials of a host are not sent to its http urls", async () => {
+  const { createGitAuth, getCredentialsHost, storeCredentials } = await import("../src/main/credentials");
+  storeCredentials("github.com", { type: "token", token: TOKEN });
+  const httpsUrl = "https://github.com/team/server.git";
+  const httpUrl = "http://GitHub.com/team/server.git";
+  const prompt = vi.fn().mockResolvedValue({ remember: false });
+
+  expect(getCredentialsHost(httpUrl)).toBe("http://github.com");
+  expect(await createGitAuth(httpsUrl).onAuth(httpsUrl, {})).toEqual({ username: "oauth2", password: TOKEN });
+  expect(await createGitAuth(httpUrl, prompt).onAuth(httpUrl, {})).toEqual({ cancel: true });
+  expect(prompt).toHaveBeenCalledWith({ host: "http://github.com", repoUrl: httpUrl, rejected: false });
+});
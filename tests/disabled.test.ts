@@ -0,0 +1,72 @@
+import { expect, test, vi, beforeEach } from "vitest";
+import { claudeConfigDir, claudeConfigPath } from "./helpers/home";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+
+const server = { command: "uvx", args: ["mcp-server"], env: { KEY: "value" } };
+
+function readConfig() {
+  return JSON.parse(readFileSync(claudeConfigPath, "utf8"));
+}
+
+beforeEach(() => {
+  rmSync(homedir(), { recursive: true, force: true });
+  mkdirSync(claudeConfigDir, { recursive: true });
+  writeFileSync(claudeConfigPath, JSON.stringify({ mcpServers: { a: server } }));
+  vi.resetModules();
+});
+
+test("moves a disabled server out of the config and back when enabled", async () => {
+  const claude = await import("../src/main/claude");
+
+  claude.disableMCPServer({ serverName: "a" });
+
+  expect(readConfig()).toEqual({ mcpServers: {} });
+  expect(claude.getDisabledMCPServers()).toEqual({ a: server });
+
+  claude.enableMCPServer({ serverName: "a" });
+
+  expect(readConfig()).toEqual({ mcpServers: { a: server } });
+  expect(claude.getDisabledMCPServers()).toEqual({});
+});
+
+test("does not enable a server over another one with the same name", async () => {
+  const claude = await import("../src/main/claude");
+  claude.disableMCPServer({ serverName: "a" });
+  claude.writeMCPServerConfig("a", { command: "npx", args: [], env: {} });
+
+  expect(() => claude.enableMCPServer({ serverName: "a" })).toThrow(
+    /already exists/
+  );
+});
+
+test("deletes a disabled server from the disabled servers", async () => {
+  const claude = await import("../src/main/claude");
+  claude.disableMCPServer({ serverName: "a" });
+
+  claude.deleteMCPServer({ serverName: "a", disabled: true });
+
+  expect(claude.getDisabledMCPServers()).toEqual({});
+  expect(readConfig()).toEqual({ mcpServers: {} });
+});
+
+test("deletes the enabled or the disabled server of a shared name as asked", async () => {
+  const claude = await import("../src/main/claude");
+  const other = { command: "npx", args: [], env: {} };
+  claude.disableMCPServer({ serverName: "a" });
+  claude.writeMCPServerConfig("a", other);
+
+  claude.deleteMCPServer({ serverName: "a" });
+
+  expect(readConfig()).toEqual({ mcpServers: {} });
+  expect(claude.getDisabledMCPServers()).toEqual({ a: server });
+  expect(() => claude.deleteMCPServer({ serverName: "a" })).toThrow(
+    /not found/
+  );
+
+  claude.writeMCPServerConfig("a", other);
+  claude.deleteMCPServer({ serverName: "a", disabled: true });
+
+  expect(readConfig()).toEqual({ mcpServers: { a: other } });
+  expect(claude.getDisabledMCPServers()).toEqual({});
+});
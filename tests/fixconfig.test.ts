@@ -2,6 +2,10 @@ import { describe, it, vi } from 'vitest'
 import { MCPServerConfig } from "../src/main/claude";
 import { fixConfig } from "../src/main/installer";
 
+vi.mock('node:fs', async (importOriginal) =>
+  (await import('./helpers/binaries')).mockBinaries(importOriginal)
+);
+
 vi.mock('electron', () => ({
     app: {
         isPackaged: false
@@ -44,7 +48,7 @@ describe('fixConfig', () => {
     testConfigs.forEach((config, index) => {
       console.log(`\nTest case ${index + 1}:`);
       console.log('Input:', JSON.stringify(config, null, 2));
-      console.log('Output:', JSON.stringify(fixConfig(config, repoPath), null, 2));
+      console.log('Output:', JSON.stringify(fixConfig(config, `server-${index}`, repoPath), null, 2));
     });
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,16 @@
+import type * as fs from "node:fs";
+import { vi } from "vitest";
+
+/**
+ * Mocks node:fs for the binaries resolved in the app binaries folder: pretend they all exist.
+ * Nothing is written either, e.g. the Claude config created by claude.ts when it doesn't exist.
+ * Used as the factory of vi.mock("node:fs"), which can't refer to the imports of the test file.
+ */
+export async function mockBinaries(importOriginal: () => Promise<typeof fs>) {
+  return {
+    ...(await importOriginal()),
+    existsSync: vi.fn(() => true),
+    mkdirSync: vi.fn(),
+    writeFileSync: vi.fn(),
+  };
+}
@@ -0,0 +1,35 @@
+import path from "node:path";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { afterAll } from "vitest";
+
+// iod and the Claude config live in the user home directory, use a temporary one instead.
+// os.homedir() reads it from the environment: import this module before the modules under test.
+export const homeDir = mkdtempSync(path.join(tmpdir(), "iod-home-"));
+process.env.HOME = homeDir;
+process.env.USERPROFILE = homeDir;
+// the Claude config is looked up in the home directory on Linux too.
+delete process.env.XDG_CONFIG_HOME;
+
+const CLAUDE_CONFIG_DIRS: { [platform: string]: string } = {
+  darwin: path.join(homeDir, "Library", "Application Support", "Claude"),
+  win32: path.join(homeDir, "AppData", "Roaming", "Claude"),
+  linux: path.join(homeDir, ".config", "Claude"),
+};
+
+/**
+ * The directory of the Claude Desktop App config file on this platform.
+ */
+export const claudeConfigDir = CLAUDE_CONFIG_DIRS[process.platform];
+
+/**
+ * The Claude Desktop App config file on this platform.
+ */
+export const claudeConfigPath = path.join(
+  claudeConfigDir,
+  "claude_desktop_config.json"
+);
+
+afterAll(() => {
+  rmSync(homeDir, { recursive: true, force: true });
+});
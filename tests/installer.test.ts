@@ -5,12 +5,50 @@ import os from "node:os";
 import * as mockedFs from "node:fs";
 
 import { install } from "../src/main/installer";
-import { clone } from "isomorphic-git";
-import { writeMCPServerConfig, restartClaudeDesktop, MCPServerConfig } from "../src/main/claude";
+import { checkout, clone, fetch } from "isomorphic-git";
+import {
+  writeMCPServerConfigs,
+  restartClaudeDesktop,
+  getMCPServers,
+  getDisabledMCPServers,
+  MCPServerConfig,
+} from "../src/main/claude";
+import { recordInstall } from "../src/main/manifest";
+import { requestInstallReview } from "../src/main/review";
+import { removeDisabledServers } from "../src/main/disabled";
+import { getClonedCommit } from "../src/main/clones";
+import { downloadArchive } from "../src/main/archives";
+import { provisionServer } from "../src/main/provisioning";
+import { AppError } from "../src/shared/error";
 
 // Mocking isomorphic-git clone function
 vi.mock("isomorphic-git", () => ({
   clone: vi.fn(),
+  fetch: vi.fn(),
+  checkout: vi.fn(),
+}));
+
+// Mocking the download of release archives
+vi.mock("../src/main/archives", async () => {
+  const actual = await vi.importActual<typeof import("../src/main/archives")>("../src/main/archives");
+  return {
+    ...actual,
+    downloadArchive: vi.fn(),
+  };
+});
+
+// Mocking the inspection of existing clones
+vi.mock("../src/main/clones", async () => {
+  const actual = await vi.importActual<typeof import("../src/main/clones")>("../src/main/clones");
+  return {
+    ...actual,
+    getClonedCommit: vi.fn(),
+  };
+});
+
+// Mocking the provisioning of the servers, which runs the binaries of their runtimes
+vi.mock("../src/main/provisioning", () => ({
+  provisionServer: vi.fn(),
 }));
 
 // Mocking fs functions used in installer.ts
@@ -20,13 +58,37 @@ vi.mock("node:fs", async () => {
     ...actual,
     existsSync: vi.fn(),
     mkdirSync: vi.fn(),
+    rmSync: vi.fn(),
   };
 });
 
 // Mocking claude.ts functions
 vi.mock("../src/main/claude", () => ({
-  writeMCPServerConfig: vi.fn(),
+  writeMCPServerConfigs: vi.fn(),
   restartClaudeDesktop: vi.fn(),
+  getMCPServers: vi.fn(),
+  getDisabledMCPServers: vi.fn(),
+}));
+
+// Mocking the install review, answered by the user in the renderer
+vi.mock("../src/main/review", async () => {
+  const actual = await vi.importActual<typeof import("../src/main/review")>("../src/main/review");
+  return {
+    ...actual,
+    requestInstallReview: vi.fn(),
+  };
+});
+
+// Mocking the disabled servers, kept in the user home directory
+vi.mock("../src/main/disabled", () => ({
+  addDisabledServer: vi.fn(),
+  removeDisabledServers: vi.fn(),
+}));
+
+// Mocking the install manifest, kept in the user home directory
+vi.mock("../src/main/manifest", () => ({
+  recordInstall: vi.fn(),
+  getInstallManifest: vi.fn(),
 }));
 
 // Add mock for electron app
@@ -34,6 +96,7 @@ vi.mock("electron", () => ({
   BrowserWindow: vi.fn(),
   app: {
     isPackaged: false,
+    getVersion: () => "0.0.1",
   },
 }));
 
@@ -49,6 +112,13 @@ function createMockBrowserWindow() {
 beforeEach(() => {
   // Reset all mocks before each test
   vi.resetAllMocks();
+  // no server is installed yet
+  (getMCPServers as unknown as MockInstance).mockReturnValue({});
+  (getDisabledMCPServers as unknown as MockInstance).mockReturnValue({});
+  // the user approves the installs unless a test says otherwise
+  (requestInstallReview as unknown as MockInstance).mockResolvedValue({ approved: true, resolutions: {} });
+  // the servers need no provisioning unless a test says otherwise
+  (provisionServer as unknown as MockInstance).mockResolvedValue([]);
 });
 
 test("install clones the repo and writes the correct config", async () => {
@@ -78,7 +148,14 @@ test("install clones the repo and writes the correct config", async () => {
 
   // Mock fs.existsSync to return true for IOD_HOME directory
   const IOD_HOME = path.join(os.homedir(), ".iod");
-  const repoName = "spotify-mcp";
+  const repoDir = path.join(
+    IOD_HOME,
+    "repos",
+    "github.com",
+    "varunneal",
+    "spotify-mcp",
+    installConfig.git.commit
+  );
 
   (mockedFs.existsSync as unknown as MockInstance).mockImplementation((dirPath: string) => {
     if (dirPath === IOD_HOME) {
@@ -104,25 +181,43 @@ test("install clones the repo and writes the correct config", async () => {
 
   // Assert
 
+  // Verify the user was asked to review the final config before the install
+  expect(requestInstallReview).toHaveBeenCalledWith(
+    {
+      installId: expect.any(String),
+      verification: { status: "unsigned" },
+      servers: [
+        expect.objectContaining({
+          serverName: "spotify",
+          git: installConfig.git,
+          args: expect.arrayContaining(["--directory", repoDir]),
+          collision: undefined,
+        }),
+      ],
+    },
+    mockMainWindow,
+    undefined
+  );
+
   // Verify clone was called with correct repo URL and commit
   expect(clone).toHaveBeenCalledWith(
     expect.objectContaining({
       url: installConfig.git.repo_url,
       ref: installConfig.git.commit,
-      dir: path.join(IOD_HOME, repoName),
+      dir: repoDir,
       singleBranch: true,
       depth: 1,
     })
   );
 
-  // Verify writeMCPServerConfig was called with correct parameters
+  // Verify writeMCPServerConfigs was called with correct parameters
   const expectedConfig: Partial<MCPServerConfig> = {
     command: expect.stringContaining("uvx"), // Assuming resolveBinaryPath appends path
     args: expect.arrayContaining([
       "omproxy@latest",
       expect.stringContaining("uv"), // Resolved binary path for 'uv'
       "--directory",
-      path.join(IOD_HOME, repoName),
+      repoDir,
       "run",
       "spotify-mcp",
     ]),
@@ -131,7 +226,16 @@ test("install clones the repo and writes the correct config", async () => {
     },
   };
 
-  expect(writeMCPServerConfig).toHaveBeenCalledWith("spotify", expectedConfig);
+  expect(writeMCPServerConfigs).toHaveBeenCalledWith({ spotify: expectedConfig });
+
+  // Verify the provenance of the server was recorded
+  expect(recordInstall).toHaveBeenCalledWith("spotify", {
+    git: installConfig.git,
+    config: installConfig.config.spotify,
+    repoDir: repoDir,
+    installedAt: expect.any(String),
+    appVersion: "0.0.1",
+  });
 
   // Verify restartClaudeDesktop was called
   expect(restartClaudeDesktop).toHaveBeenCalled();
@@ -145,4 +249,435 @@ test("install clones the repo and writes the correct config", async () => {
       message: `Successfully installed spotify in your Claude Desktop App.`
     }
   );
-});
\ No newline at end of file
+
+  // Verify the progress of the install was streamed, ending with its completion
+  expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+    "installer:progress",
+    expect.objectContaining({ step: "clone", status: "done", serverName: "spotify" })
+  );
+  expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+    "installer:progress",
+    expect.objectContaining({ installId: expect.any(String), step: "finish", status: "done" })
+  );
+});
+test("install writes all the servers of a payload at once and reports each of them", async () => {
+  const installConfig = {
+    config: {
+      fetch: { command: "uvx", args: ["mcp-server-fetch"], env: {} },
+      arxiv: {
+        command: "uv",
+        args: ["--directory", "", "run", "arxiv-mcp-server"],
+        env: {},
+      },
+    },
+    git_by_server: {
+      arxiv: {
+        repo_url: "https://github.com/blazickjp/arxiv-mcp-server",
+        commit: "0123456789abcdef0123456789abcdef01234567",
+      },
+    },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+
+  (mockedFs.existsSync as unknown as MockInstance).mockImplementation(
+    (filePath: string) => filePath.includes("binaries")
+  );
+  (clone as unknown as MockInstance).mockRejectedValueOnce(new Error("network error"));
+
+  const mockMainWindow = createMockBrowserWindow();
+  const results = await install(url, mockMainWindow);
+
+  expect(results).toEqual([
+    { serverName: "fetch", success: true },
+    { serverName: "arxiv", success: false, error: expect.stringContaining("arxiv-mcp-server") },
+  ]);
+  expect(writeMCPServerConfigs).toHaveBeenCalledTimes(1);
+  expect(writeMCPServerConfigs).toHaveBeenCalledWith({ fetch: expect.any(Object) });
+  expect(restartClaudeDesktop).toHaveBeenCalledTimes(1);
+  expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+    "notify",
+    expect.objectContaining({ type: "error", title: "MCP Server Installation Error" })
+  );
+});
+
+test("install cancelled while cloning removes the partial clone and writes nothing", async () => {
+  const installConfig = {
+    config: {
+      spotify: { command: "uv", args: ["--directory", "", "run", "spotify-mcp"], env: {} },
+    },
+    git: {
+      repo_url: "https://github.com/varunneal/spotify-mcp",
+      commit: "036a87c146c7cfffccc1996c36ad178b5dd3f87f",
+    },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+  const controller = new AbortController();
+
+  (mockedFs.existsSync as unknown as MockInstance).mockReturnValue(false);
+  (clone as unknown as MockInstance).mockImplementationOnce(async ({ onProgress }) => {
+    await onProgress({ phase: "Receiving objects", loaded: 1, total: 10 });
+    controller.abort();
+    await onProgress({ phase: "Receiving objects", loaded: 2, total: 10 });
+  });
+
+  const mockMainWindow = createMockBrowserWindow();
+  const results = await install(url, mockMainWindow, { installId: "install-1", signal: controller.signal });
+
+  expect(results).toBeUndefined();
+  expect(mockedFs.rmSync).toHaveBeenCalledWith(
+    path.join(os.homedir(), ".iod", "repos", "github.com", "varunneal", "spotify-mcp", installConfig.git.commit),
+    { recursive: true, force: true }
+  );
+  expect(writeMCPServerConfigs).not.toHaveBeenCalled();
+  expect(restartClaudeDesktop).not.toHaveBeenCalled();
+  expect(mockMainWindow.webContents.send).toHaveBeenCalledWith("installer:progress", {
+    installId: "install-1",
+    step: "finish",
+    status: "cancelled",
+    message: "Installation cancelled",
+  });
+});
+
+test("install rejected during its review clones and writes nothing", async () => {
+  const installConfig = {
+    config: {
+      spotify: { command: "uv", args: ["--directory", "", "run", "spotify-mcp"], env: {} },
+    },
+    git: {
+      repo_url: "https://github.com/varunneal/spotify-mcp",
+      commit: "036a87c146c7cfffccc1996c36ad178b5dd3f87f",
+    },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+
+  (mockedFs.existsSync as unknown as MockInstance).mockImplementation(
+    (filePath: string) => filePath.includes("binaries")
+  );
+  (requestInstallReview as unknown as MockInstance).mockResolvedValue({ approved: false, resolutions: {} });
+
+  const mockMainWindow = createMockBrowserWindow();
+  const results = await install(url, mockMainWindow);
+
+  expect(results).toBeUndefined();
+  expect(clone).not.toHaveBeenCalled();
+  expect(writeMCPServerConfigs).not.toHaveBeenCalled();
+  expect(restartClaudeDesktop).not.toHaveBeenCalled();
+  expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+    "installer:progress",
+    expect.objectContaining({ step: "finish", status: "cancelled" })
+  );
+});
+
+test("install resolves name collisions as chosen by the user", async () => {
+  const installConfig = {
+    config: {
+      fetch: { command: "uvx", args: ["mcp-server-fetch"], env: { TIMEOUT: "10", USER_AGENT: "iod" } },
+      time: { command: "uvx", args: ["mcp-server-time"], env: {} },
+      git: { command: "uvx", args: ["mcp-server-git"], env: {} },
+    },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+  const tunedFetch = { command: "/usr/bin/uvx", args: ["mcp-server-fetch", "--tuned"], env: { TIMEOUT: "60" } };
+  const disabledTime = { command: "uvx", args: ["mcp-server-time"], env: {} };
+
+  (mockedFs.existsSync as unknown as MockInstance).mockImplementation(
+    (filePath: string) => filePath.includes("binaries")
+  );
+  (getMCPServers as unknown as MockInstance).mockReturnValue({ fetch: tunedFetch, git: {}, "git-2": {} });
+  (getDisabledMCPServers as unknown as MockInstance).mockReturnValue({ time: disabledTime });
+  (requestInstallReview as unknown as MockInstance).mockImplementation(async ({ servers }) => {
+    // the review tells the user how each collision can be resolved
+    expect(servers.map(({ collision }: { collision: unknown }) => collision)).toEqual([
+      { existing: "enabled", suffixedName: "fetch-2", newEnvKeys: ["USER_AGENT"] },
+      { existing: "disabled", suffixedName: "time-2", newEnvKeys: [] },
+      { existing: "enabled", suffixedName: "git-3", newEnvKeys: [] },
+    ]);
+    return { approved: true, resolutions: { fetch: "merge-env", time: "replace" } };
+  });
+
+  const results = await install(url, createMockBrowserWindow());
+
+  // the collisions left out keep both servers
+  expect(results).toEqual([
+    { serverName: "fetch", success: true },
+    { serverName: "time", success: true },
+    { serverName: "git-3", success: true },
+  ]);
+  expect(writeMCPServerConfigs).toHaveBeenCalledWith({
+    fetch: { ...tunedFetch, env: { TIMEOUT: "60", USER_AGENT: "iod" } },
+    time: expect.objectContaining({ args: ["mcp-server-time"] }),
+    "git-3": expect.objectContaining({ args: ["mcp-server-git"] }),
+  });
+  expect(removeDisabledServers).toHaveBeenCalledWith(["time"]);
+  // the merged server keeps the provenance of its original install
+  expect(recordInstall).toHaveBeenCalledTimes(2);
+  expect(recordInstall).toHaveBeenCalledWith("git-3", expect.objectContaining({ config: installConfig.config.git }));
+});
+
+test.each([
+  ["reuses a clone at the requested commit", "036a87c146c7cfffccc1996c36ad178b5dd3f87f"],
+  ["updates a clone at another commit in place", "0123456789abcdef0123456789abcdef01234567"],
+  ["replaces a partial or corrupt clone", undefined],
+])("reinstall %s", async (_, clonedCommit) => {
+  const git = {
+    repo_url: "https://github.com/varunneal/spotify-mcp",
+    commit: "036a87c146c7cfffccc1996c36ad178b5dd3f87f",
+  };
+  const installConfig = {
+    config: {
+      spotify: {
+        command: "uvx",
+        args: ["omproxy@latest", "uv", "--directory", "", "run", "spotify-mcp"],
+        env: {},
+      },
+    },
+    git,
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+  const repoDir = path.join(os.homedir(), ".iod", "repos", "github.com", "varunneal", "spotify-mcp", git.commit);
+
+  // the clone and the bundled binaries exist
+  (mockedFs.existsSync as unknown as MockInstance).mockImplementation(
+    (dirPath: string) => dirPath === repoDir || (dirPath.includes("binaries") && /uvx?$/.test(dirPath))
+  );
+  (getClonedCommit as unknown as MockInstance).mockResolvedValue(clonedCommit);
+
+  const results = await install(url, createMockBrowserWindow());
+
+  expect(results).toEqual([{ serverName: "spotify", success: true }]);
+  expect(getClonedCommit).toHaveBeenCalledWith(repoDir, git.repo_url);
+  if (clonedCommit === git.commit) {
+    expect(clone).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  } else if (clonedCommit) {
+    expect(fetch).toHaveBeenCalledWith(expect.objectContaining({ dir: repoDir, ref: git.commit }));
+    expect(checkout).toHaveBeenCalledWith(expect.objectContaining({ dir: repoDir, ref: git.commit, force: true }));
+    expect(clone).not.toHaveBeenCalled();
+    expect(mockedFs.rmSync).not.toHaveBeenCalled();
+  } else {
+    expect(mockedFs.rmSync).toHaveBeenCalledWith(repoDir, { recursive: true, force: true });
+    expect(clone).toHaveBeenCalledWith(expect.objectContaining({ dir: repoDir, ref: git.commit }));
+  }
+  expect(writeMCPServerConfigs).toHaveBeenCalledWith({
+    spotify: expect.objectContaining({ args: expect.arrayContaining(["--directory", repoDir]) }),
+  });
+});
+
+test("servers of a monorepo share its clone and run from their subdirectory", async () => {
+  const monorepo = {
+    repo_url: "https://github.com/modelcontextprotocol/servers",
+    commit: "0123456789abcdef0123456789abcdef01234567",
+  };
+  const server = {
+    command: "uvx",
+    args: ["omproxy@latest", "uv", "--directory", "", "run", "server"],
+    env: {},
+  };
+  const installConfig = {
+    config: { fetch: server, git: server },
+    git_by_server: {
+      fetch: { ...monorepo, subdirectory: "src/fetch" },
+      git: { ...monorepo, subdirectory: "src/git" },
+    },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+  const cloneDir = path.join(os.homedir(), ".iod", "repos", "github.com", "modelcontextprotocol", "servers", monorepo.commit);
+
+  // the subdirectories of the clone and the bundled binaries exist
+  (mockedFs.existsSync as unknown as MockInstance).mockImplementation(
+    (dirPath: string) =>
+      dirPath.startsWith(path.join(cloneDir, "src")) || (dirPath.includes("binaries") && /uvx?$/.test(dirPath))
+  );
+
+  const results = await install(url, createMockBrowserWindow());
+
+  expect(results).toEqual([
+    { serverName: "fetch", success: true },
+    { serverName: "git", success: true },
+  ]);
+  expect(clone).toHaveBeenCalledTimes(1);
+  expect(clone).toHaveBeenCalledWith(expect.objectContaining({ dir: cloneDir, ref: monorepo.commit }));
+  expect(writeMCPServerConfigs).toHaveBeenCalledWith({
+    fetch: expect.objectContaining({
+      args: expect.arrayContaining(["--directory", path.join(cloneDir, "src", "fetch")]),
+    }),
+    git: expect.objectContaining({
+      args: expect.arrayContaining(["--directory", path.join(cloneDir, "src", "git")]),
+    }),
+  });
+  expect(recordInstall).toHaveBeenCalledWith(
+    "fetch",
+    expect.objectContaining({ git: installConfig.git_by_server.fetch, repoDir: cloneDir })
+  );
+});
+
+test("install rejects a subdirectory outside of the repository", async () => {
+  const installConfig = {
+    config: { fetch: { command: "uvx", args: ["--from", "", "mcp-server-fetch"], env: {} } },
+    git: {
+      repo_url: "https://github.com/modelcontextprotocol/servers",
+      commit: "0123456789abcdef0123456789abcdef01234567",
+      subdirectory: "../../.ssh",
+    },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+
+  const results = await install(url, createMockBrowserWindow());
+
+  expect(results).toBeUndefined();
+  expect(clone).not.toHaveBeenCalled();
+  expect(writeMCPServerConfigs).not.toHaveBeenCalled();
+});
+
+test("install downloads the release archive of a source and runs the server from it", async () => {
+  const source = {
+    url: "https://github.com/example/weather/releases/download/v1.0.0/weather.tar.gz",
+    sha256: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+  };
+  const installConfig = {
+    config: {
+      weather: { command: "uvx", args: ["omproxy@latest", "uvx", "--from", "", "weather"], env: {} },
+    },
+    source,
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+  const archiveDir = path.join(os.homedir(), ".iod", "archives", source.sha256);
+
+  (mockedFs.existsSync as unknown as MockInstance).mockImplementation(
+    (dirPath: string) => dirPath.includes("binaries") && /uvx?$/.test(dirPath)
+  );
+  (downloadArchive as unknown as MockInstance).mockResolvedValue(archiveDir);
+
+  const results = await install(url, createMockBrowserWindow());
+
+  expect(results).toEqual([{ serverName: "weather", success: true }]);
+  expect(clone).not.toHaveBeenCalled();
+  expect(downloadArchive).toHaveBeenCalledWith(source, expect.any(Function), undefined);
+  expect(writeMCPServerConfigs).toHaveBeenCalledWith({
+    weather: expect.objectContaining({
+      args: ["omproxy@latest", expect.stringContaining("uvx"), "--from", archiveDir, "weather"],
+    }),
+  });
+  expect(recordInstall).toHaveBeenCalledWith(
+    "weather",
+    expect.objectContaining({ source, repoDir: archiveDir })
+  );
+});
+
+test("install rejects a source without its sha256", async () => {
+  const installConfig = {
+    config: { weather: { command: "uvx", args: ["--from", "", "weather"], env: {} } },
+    source: { url: "https://example.com/weather.zip" },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+
+  const results = await install(url, createMockBrowserWindow());
+
+  expect(results).toBeUndefined();
+  expect(downloadArchive).not.toHaveBeenCalled();
+  expect(writeMCPServerConfigs).not.toHaveBeenCalled();
+});
+
+test("install runs the servers with the node and python versions of the payload", async () => {
+  const installConfig = {
+    config: {
+      weather: { command: "uvx", args: ["omproxy@latest", "uvx", "weather"], env: {} },
+      fetch: { command: "npx", args: ["-y", "mcp-server-fetch"], env: {} },
+    },
+    runtime: { node: "20", python: "3.11" },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+
+  (mockedFs.existsSync as unknown as MockInstance).mockImplementation(
+    (dirPath: string) => dirPath.includes("binaries") && /(uvx|fnmx)$/.test(dirPath)
+  );
+
+  const results = await install(url, createMockBrowserWindow());
+
+  expect(results).toEqual([
+    { serverName: "weather", success: true },
+    { serverName: "fetch", success: true },
+  ]);
+  expect(writeMCPServerConfigs).toHaveBeenCalledWith({
+    weather: expect.objectContaining({
+      args: ["--python=3.11", "omproxy@latest", expect.stringContaining("uvx"), "--python=3.11", "weather"],
+    }),
+    fetch: expect.objectContaining({
+      command: expect.stringContaining("fnmx"),
+      args: ["20", "npx", "-y", "mcp-server-fetch"],
+    }),
+  });
+  expect(recordInstall).toHaveBeenCalledWith(
+    "weather",
+    expect.objectContaining({ runtime: { python: "3.11" } })
+  );
+  expect(recordInstall).toHaveBeenCalledWith(
+    "fetch",
+    expect.objectContaining({ runtime: { node: "20" } })
+  );
+});
+
+test("install rejects runtime versions that are not versions", async () => {
+  const installConfig = {
+    config: { fetch: { command: "npx", args: ["-y", "mcp-server-fetch"], env: {} } },
+    runtime: { node: "--eval=process.exit()" },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+
+  const results = await install(url, createMockBrowserWindow());
+
+  expect(results).toBeUndefined();
+  expect(writeMCPServerConfigs).not.toHaveBeenCalled();
+});
+
+test("install provisions each server and leaves out the servers failing to provision", async () => {
+  const installConfig = {
+    config: {
+      fetch: { command: "uvx", args: ["mcp-server-fetch"], env: {} },
+      weather: { command: "npx", args: ["-y", "weather-mcp"], env: {} },
+    },
+  };
+  const url = `iod://${Buffer.from(JSON.stringify(installConfig), "utf-8").toString("base64")}`;
+
+  (mockedFs.existsSync as unknown as MockInstance).mockImplementation(
+    (filePath: string) => filePath.includes("binaries")
+  );
+  const command = { description: "Installing Node v22", argv: ["fnmx", "v22", "node", "--version"] };
+  (provisionServer as unknown as MockInstance)
+    .mockResolvedValueOnce([])
+    .mockImplementationOnce(async (_config, { serverName }, onProgress) => {
+      onProgress(command, ["Installing Node v22.11.0 (x64)", "error: network unreachable"]);
+      throw new AppError({
+        developerMessage: "'fnmx v22 node --version' failed.",
+        userMessage: `We couldn't prepare the MCP server '${serverName}' on your computer.`,
+      });
+    });
+
+  const mockMainWindow = createMockBrowserWindow();
+  const results = await install(url, mockMainWindow, { installId: "install-1" });
+
+  expect(provisionServer).toHaveBeenCalledWith(
+    expect.objectContaining({ command: expect.stringContaining("uvx") }),
+    { serverName: "fetch", repoDir: undefined, versions: { node: undefined, python: undefined } },
+    expect.any(Function),
+    undefined
+  );
+  expect(results).toEqual([
+    { serverName: "fetch", success: true },
+    { serverName: "weather", success: false, error: expect.stringContaining("weather") },
+  ]);
+  expect(writeMCPServerConfigs).toHaveBeenCalledWith({ fetch: expect.any(Object) });
+  expect(recordInstall).toHaveBeenCalledTimes(1);
+  expect(mockMainWindow.webContents.send).toHaveBeenCalledWith("installer:progress", {
+    installId: "install-1",
+    step: "provision",
+    status: "running",
+    serverName: "weather",
+    message: "Installing Node v22 for weather",
+    log: ["Installing Node v22.11.0 (x64)", "error: network unreachable"],
+  });
+  expect(mockMainWindow.webContents.send).toHaveBeenCalledWith(
+    "installer:progress",
+    expect.objectContaining({ step: "provision", status: "failed", serverName: "weather" })
+  );
+});
@@ -0,0 +1,42 @@
+import { expect, test } from "vitest";
+
+import { threeWayMerge } from "../src/main/merge";
+
+test("keeps changes made to different keys on both sides", () => {
+  const base = { mcpServers: { a: { command: "uvx" } }, theme: "light" };
+  const ours = { mcpServers: { a: { command: "uvx" }, b: { command: "npx" } }, theme: "light" };
+  const theirs = { mcpServers: { a: { command: "uvx" } }, theme: "dark" };
+
+  expect(threeWayMerge(base, ours, theirs)).toEqual({
+    merged: { mcpServers: { a: { command: "uvx" }, b: { command: "npx" } }, theme: "dark" },
+    conflicts: [],
+  });
+});
+
+test("applies our deletion when they did not touch the value", () => {
+  const base = { mcpServers: { a: { command: "uvx" }, b: { command: "npx" } } };
+  const ours = { mcpServers: { b: { command: "npx" } } };
+  const theirs = { mcpServers: { a: { command: "uvx" }, b: { command: "npx" }, c: { command: "uv" } } };
+
+  expect(threeWayMerge(base, ours, theirs).merged).toEqual({
+    mcpServers: { b: { command: "npx" }, c: { command: "uv" } },
+  });
+});
+
+test("reports conflicts when both sides changed the same value", () => {
+  const base = { mcpServers: { a: { args: ["one"] } } };
+  const ours = { mcpServers: {} };
+  const theirs = { mcpServers: { a: { args: ["two"] } } };
+
+  const { merged, conflicts } = threeWayMerge<Record<string, unknown>>(base, ours, theirs);
+
+  expect(conflicts).toEqual([
+    {
+      path: ["mcpServers", "a"],
+      base: { args: ["one"] },
+      ours: undefined,
+      theirs: { args: ["two"] },
+    },
+  ]);
+  expect(merged).toEqual(theirs);
+});
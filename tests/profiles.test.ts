@@ -0,0 +1,91 @@
+import { expect, test, vi, beforeEach } from "vitest";
+import { claudeConfigDir, claudeConfigPath } from "./helpers/home";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+
+vi.mock("../src/main/claude", async () => ({
+  ...(await vi.importActual<typeof import("../src/main/claude")>(
+    "../src/main/claude"
+  )),
+  restartClaudeDesktop: vi.fn(),
+}));
+
+const arxiv = { command: "uvx", args: ["arxiv-mcp"], env: {} };
+const github = { command: "npx", args: ["github-mcp"], env: { TOKEN: "x" } };
+
+function writeServers(mcpServers: unknown) {
+  writeFileSync(claudeConfigPath, JSON.stringify({ mcpServers }, null, 2));
+}
+
+function readConfig() {
+  return JSON.parse(readFileSync(claudeConfigPath, "utf8"));
+}
+
+beforeEach(() => {
+  rmSync(homedir(), { recursive: true, force: true });
+  mkdirSync(claudeConfigDir, { recursive: true });
+  vi.resetModules();
+});
+
+test("switches between profiles created from the current config", async () => {
+  const profiles = await import("../src/main/profiles");
+  const claude = await import("../src/main/claude");
+
+  writeServers({ arxiv });
+  profiles.createProfile({ profileName: "research" });
+  writeServers({ github });
+  profiles.createProfile({ profileName: "ops" });
+
+  profiles.applyProfile({ profileName: "research" });
+
+  expect(readConfig()).toEqual({ mcpServers: { arxiv } });
+  // the servers dropped by the profile are kept as disabled servers.
+  expect(claude.getDisabledMCPServers()).toEqual({ github });
+  expect(claude.restartClaudeDesktop).toHaveBeenCalledOnce();
+
+  profiles.applyProfile({ profileName: "ops" });
+
+  expect(readConfig()).toEqual({ mcpServers: { github } });
+  expect(claude.getDisabledMCPServers()).toEqual({ arxiv });
+});
+
+test("keeps the disabled servers named like a server of the applied profile with another config", async () => {
+  const profiles = await import("../src/main/profiles");
+  const claude = await import("../src/main/claude");
+  const otherGithub = { ...github, env: { TOKEN: "y" } };
+
+  writeServers({ arxiv, github });
+  profiles.createProfile({ profileName: "all" });
+  claude.disableMCPServer({ serverName: "arxiv" });
+  writeServers({ github: otherGithub });
+  claude.getMCPServers();
+  claude.disableMCPServer({ serverName: "github" });
+
+  profiles.applyProfile({ profileName: "all" });
+
+  expect(readConfig()).toEqual({ mcpServers: { arxiv, github } });
+  // the disabled arxiv is the one enabled by the profile, the other github is kept.
+  expect(claude.getDisabledMCPServers()).toEqual({ "github-2": otherGithub });
+});
+
+test("clones and renames profiles under available names", async () => {
+  const profiles = await import("../src/main/profiles");
+  writeServers({ arxiv });
+  profiles.createProfile({ profileName: "research" });
+
+  profiles.cloneProfile({ profileName: "research", newProfileName: "copy" });
+  profiles.renameProfile({
+    profileName: "research",
+    newProfileName: " papers ",
+  });
+
+  expect(
+    profiles.listProfiles().map(({ name, servers }) => ({ name, servers }))
+  ).toEqual([
+    { name: "copy", servers: { arxiv } },
+    { name: "papers", servers: { arxiv } },
+  ]);
+  expect(() =>
+    profiles.renameProfile({ profileName: "copy", newProfileName: "papers" })
+  ).toThrow(/already exists/);
+});
@@ -0,0 +1,78 @@
+import { expect, test, vi } from "vitest";
+
+import { MCPServerConfig } from "../src/main/claude";
+import { provisionServer } from "../src/main/provisioning";
+import { registerRuntimeAdapter } from "../src/main/runtimes";
+import { AppError, InstallCancelledError } from "../src/shared/error";
+
+vi.mock("electron", () => ({
+  app: {
+    isPackaged: false,
+  },
+}));
+
+// a runtime whose binary is the node running the tests, provisioned by the script in its env.
+registerRuntimeAdapter({
+  name: "scripted",
+  binaries: ["scripted"],
+  commands: { scripted: {} },
+  resolveBinary: () => process.execPath,
+  provisionCommands: (_commandLine, _context, env) => [
+    { description: "Running the script", argv: ["scripted", "-e", env.SCRIPT] },
+  ],
+});
+
+function createConfig(script: string): MCPServerConfig {
+  return { command: "scripted", args: [], env: { SCRIPT: script, NAME: "x" } };
+}
+
+test("provisionServer streams the output of the commands", async () => {
+  const onProgress = vi.fn();
+
+  const commands = await provisionServer(
+    createConfig(
+      "console.log('hello ' + process.env.NAME + '\\nsecond'); console.error('warning')"
+    ),
+    { serverName: "server" },
+    onProgress
+  );
+
+  expect(commands).toEqual([
+    expect.objectContaining({
+      argv: [process.execPath, "-e", expect.any(String)],
+    }),
+  ]);
+  expect(onProgress).toHaveBeenCalledWith(commands[0], []);
+  const lastOutput = onProgress.mock.calls[onProgress.mock.calls.length - 1][1];
+  expect(lastOutput).toHaveLength(3);
+  expect(lastOutput).toEqual(
+    expect.arrayContaining(["hello x", "second", "warning"])
+  );
+});
+
+test("provisionServer fails with the output of the failing command", async () => {
+  const provisioning = provisionServer(
+    createConfig("console.error('no matching python'); process.exit(2)"),
+    { serverName: "server" }
+  );
+
+  await expect(provisioning).rejects.toBeInstanceOf(AppError);
+  await expect(provisioning).rejects.toMatchObject({
+    userMessage: expect.stringContaining("no matching python"),
+  });
+});
+
+test("provisionServer kills the running command when cancelled", async () => {
+  const controller = new AbortController();
+  const onProgress = vi.fn(() => controller.abort());
+
+  await expect(
+    provisionServer(
+      createConfig("console.log('started'); setTimeout(() => {}, 60000)"),
+      { serverName: "server" },
+      (_command, output) => output.length > 0 && onProgress(),
+      controller.signal
+    )
+  ).rejects.toBeInstanceOf(InstallCancelledError);
+  expect(onProgress).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,155 @@
+import { expect, test, vi, beforeEach, MockInstance } from "vitest";
+import { BrowserWindow } from "electron";
+
+import { install } from "../src/main/installer";
+
+vi.mock("../src/main/installer", () => ({
+  install: vi.fn(),
+}));
+
+vi.mock("electron", () => ({
+  BrowserWindow: vi.fn(),
+  app: {
+    isPackaged: false,
+  },
+}));
+
+function createMockBrowserWindow() {
+  return {
+    webContents: {
+      send: vi.fn(),
+    },
+  } as unknown as BrowserWindow;
+}
+
+// installs that only finish when the test says so.
+const pendingInstalls: { url: string; signal?: AbortSignal; finish: () => void }[] = [];
+
+beforeEach(() => {
+  vi.resetModules();
+  pendingInstalls.length = 0;
+  (install as unknown as MockInstance).mockReset();
+  (install as unknown as MockInstance).mockImplementation(
+    (url: string, _mainWindow, { signal }: { signal?: AbortSignal }) =>
+      new Promise<void>((resolve) => pendingInstalls.push({ url, signal, finish: resolve }))
+  );
+});
+
+test("enqueueInstall runs the installs one at a time and skips identical ones", async () => {
+  const { enqueueInstall } = await import("../src/main/queue");
+  const mainWindow = createMockBrowserWindow();
+
+  const firstId = enqueueInstall("iod://first", mainWindow);
+  const secondId = enqueueInstall("iod://second", mainWindow);
+  expect(enqueueInstall("iod://first", mainWindow)).toBe(firstId);
+  expect(secondId).not.toBe(firstId);
+
+  await vi.waitFor(() => expect(pendingInstalls).toHaveLength(1));
+  expect(install).toHaveBeenCalledWith("iod://first", mainWindow, expect.objectContaining({ installId: firstId }));
+  expect(mainWindow.webContents.send).toHaveBeenCalledWith(
+    "installer:progress",
+    expect.objectContaining({ installId: secondId, step: "queue", status: "running" })
+  );
+
+  pendingInstalls[0].finish();
+  await vi.waitFor(() => expect(pendingInstalls).toHaveLength(2));
+  expect(install).toHaveBeenLastCalledWith("iod://second", mainWindow, expect.objectContaining({ installId: secondId }));
+
+  // the first install is over, the same url can be installed again.
+  expect(enqueueInstall("iod://first", mainWindow)).not.toBe(firstId);
+});
+
+test("cancelInstall aborts the running install and drops the waiting ones", async () => {
+  const { enqueueInstall, cancelInstall } = await import("../src/main/queue");
+  const mainWindow = createMockBrowserWindow();
+
+  const runningId = enqueueInstall("iod://running", mainWindow);
+  const waitingId = enqueueInstall("iod://waiting", mainWindow);
+  await vi.waitFor(() => expect(pendingInstalls).toHaveLength(1));
+
+  cancelInstall({ installId: waitingId });
+  expect(mainWindow.webContents.send).toHaveBeenCalledWith("installer:progress", {
+    installId: waitingId,
+    step: "finish",
+    status: "cancelled",
+    message: "Installation cancelled",
+  });
+
+  cancelInstall({ installId: runningId });
+  expect(pendingInstalls[0].signal?.aborted).toBe(true);
+
+  pendingInstalls[0].finish();
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  expect(install).toHaveBeenCalledTimes(1);
+  expect(() => cancelInstall({ installId: runningId })).toThrow(`Install '${runningId}' not found in the install queue.`);
+});
+
+test("runExclusive waits for the queued installs and holds back the next ones", async () => {
+  const { enqueueInstall, runExclusive } = await import("../src/main/queue");
+  const mainWindow = createMockBrowserWindow();
+  const finishTask: (() => void)[] = [];
+  const task = vi.fn(() => new Promise<void>((resolve) => finishTask.push(resolve)));
+
+  enqueueInstall("iod://before", mainWindow);
+  const exclusive = runExclusive(task);
+  enqueueInstall("iod://after", mainWindow);
+  await vi.waitFor(() => expect(pendingInstalls).toHaveLength(1));
+  expect(task).not.toHaveBeenCalled();
+
+  pendingInstalls[0].finish();
+  await vi.waitFor(() => expect(task).toHaveBeenCalledTimes(1));
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  expect(pendingInstalls).toHaveLength(1);
+
+  finishTask[0]();
+  await exclusive;
+  await vi.waitFor(() => expect(pendingInstalls).toHaveLength(2));
+  expect(install).toHaveBeenLastCalledWith("iod://after", mainWindow, expect.anything());
+});
+
+test("openInstallUrl keeps the urls opened before a window exists until it is ready", async () => {
+  const { openInstallUrl, setInstallWindow } = await import("../src/main/queue");
+  const mainWindow = createMockBrowserWindow();
+
+  // e.g. macOS launching the app with the url.
+  openInstallUrl("iod://launch");
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  expect(install).not.toHaveBeenCalled();
+
+  setInstallWindow(mainWindow);
+  await vi.waitFor(() => expect(pendingInstalls).toHaveLength(1));
+  expect(install).toHaveBeenCalledWith("iod://launch", mainWindow, expect.anything());
+
+  // once the window is closed, the urls wait for the next one.
+  pendingInstalls[0].finish();
+  setInstallWindow(undefined);
+  openInstallUrl("iod://closed");
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  expect(install).toHaveBeenCalledTimes(1);
+});
+
+test("closing the window cancels the pending review and the queued installs", async () => {
+  const { enqueueInstall, runExclusive, setInstallWindow } = await import("../src/main/queue");
+  const { requestInstallReview } = await import("../src/main/review");
+  const { InstallCancelledError } = await import("../src/shared/error");
+  const mainWindow = createMockBrowserWindow();
+  let review: Promise<unknown> | undefined = undefined;
+  (install as unknown as MockInstance).mockImplementationOnce(
+    (_url: string, window: BrowserWindow, { installId, signal }: { installId: string; signal: AbortSignal }) => {
+      review = requestInstallReview({ installId, verification: { status: "unsigned" }, servers: [] }, window, signal);
+      return review.catch(() => undefined);
+    }
+  );
+
+  setInstallWindow(mainWindow);
+  enqueueInstall("iod://reviewed", mainWindow);
+  enqueueInstall("iod://waiting", mainWindow);
+  await vi.waitFor(() => expect(review).toBeDefined());
+
+  setInstallWindow(undefined);
+
+  await expect(review).rejects.toBeInstanceOf(InstallCancelledError);
+  // the queue goes on without the installs of the closed window.
+  await expect(runExclusive(async () => "done")).resolves.toBe("done");
+  expect(install).toHaveBeenCalledTimes(1);
+});
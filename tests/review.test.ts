@@ -0,0 +1,137 @@
+import { expect, test, vi } from "vitest";
+import { BrowserWindow } from "electron";
+import path from "node:path";
+import os from "node:os";
+
+import { getMCPServers, getDisabledMCPServers } from "../src/main/claude";
+import { createInstallReview } from "../src/main/installer";
+import { maskEnv, requestInstallReview, respondInstallReview } from "../src/main/review";
+
+vi.mock("node:fs", async (importOriginal) =>
+  (await import("./helpers/binaries")).mockBinaries(importOriginal)
+);
+
+vi.mock("../src/main/claude", () => ({
+  getMCPServers: vi.fn(() => ({ spotify: { command: "uv", args: [], env: {} } })),
+  getDisabledMCPServers: vi.fn(() => ({})),
+}));
+
+// the settings live in the user home directory, use the defaults.
+vi.mock("../src/main/settings", () => ({
+  getSettings: vi.fn(() => ({ unverifiedPayloads: "warn", publisherKeys: [], runtime: {} })),
+  isValidRuntimeVersions: vi.fn(() => true),
+}));
+
+vi.mock("electron", () => ({
+  BrowserWindow: vi.fn(),
+  app: {
+    isPackaged: false,
+  },
+}));
+
+function createMockBrowserWindow() {
+  return {
+    webContents: {
+      send: vi.fn(),
+    },
+  } as unknown as BrowserWindow;
+}
+
+test("maskEnv masks the values of secret env vars only", () => {
+  expect(
+    maskEnv({
+      SPOTIFY_CLIENT_SECRET: "0123456789abcdef",
+      API_KEY: "short",
+      GITHUB_TOKEN: "",
+      LOG_LEVEL: "debug",
+    })
+  ).toEqual({
+    SPOTIFY_CLIENT_SECRET: "••••••••cdef",
+    API_KEY: "••••••••",
+    GITHUB_TOKEN: "",
+    LOG_LEVEL: "debug",
+  });
+});
+
+test("createInstallReview shows the final config and the servers it collides with", () => {
+  const git = {
+    repo_url: "https://github.com/varunneal/spotify-mcp",
+    commit: "036a87c146c7cfffccc1996c36ad178b5dd3f87f",
+  };
+  const [spotify, fetch] = createInstallReview({
+    config: {
+      spotify: {
+        command: "uvx",
+        args: ["omproxy@latest", "uv", "--directory", "{local_cloned_repository_path}", "run", "spotify-mcp"],
+        env: { SPOTIFY_CLIENT_SECRET: "0123456789abcdef" },
+      },
+      // the secrets left out of a bundle are asked to the user.
+      fetch: { command: "uvx", args: ["mcp-server-fetch"], env: { FETCH_API_KEY: "", LOG_LEVEL: "" } },
+    },
+    git_by_server: { spotify: git },
+  });
+
+  expect(getMCPServers).toHaveBeenCalled();
+  expect(getDisabledMCPServers).toHaveBeenCalled();
+  expect(spotify).toEqual({
+    serverName: "spotify",
+    git,
+    command: expect.stringContaining("uvx"),
+    args: [
+      "omproxy@latest",
+      expect.stringContaining("uv"),
+      "--directory",
+      path.join(os.homedir(), ".iod", "repos", "github.com", "varunneal", "spotify-mcp", git.commit),
+      "run",
+      "spotify-mcp",
+    ],
+    env: { SPOTIFY_CLIENT_SECRET: "••••••••cdef" },
+    changes: expect.any(Array),
+    missingSecrets: [],
+    collision: {
+      existing: "enabled",
+      suffixedName: "spotify-2",
+      newEnvKeys: ["SPOTIFY_CLIENT_SECRET"],
+    },
+  });
+  // the user sees what iod rewrote and why, never the secrets.
+  expect(spotify.changes?.map(({ reason }) => reason)).toEqual(["uv", "binaries"]);
+  expect(spotify.changes?.[0].argv).toContainEqual({ type: "removed", line: "{local_cloned_repository_path}" });
+  expect(JSON.stringify(spotify.changes)).not.toContain("0123456789abcdef");
+  expect(fetch).toEqual(
+    expect.objectContaining({
+      serverName: "fetch",
+      git: undefined,
+      collision: undefined,
+      missingSecrets: ["FETCH_API_KEY"],
+    })
+  );
+});
+
+test("requestInstallReview waits for the user answer or the cancellation of the install", async () => {
+  const mainWindow = createMockBrowserWindow();
+  const review = { installId: "install-1", verification: { status: "unsigned" as const }, servers: [] };
+
+  const approval = requestInstallReview(review, mainWindow);
+  expect(mainWindow.webContents.send).toHaveBeenCalledWith("installer:review-request", review);
+  respondInstallReview({
+    installId: "install-1",
+    approved: true,
+    resolutions: { spotify: "replace" },
+    secrets: { spotify: { SPOTIFY_CLIENT_SECRET: "0123456789abcdef" } },
+  });
+  await expect(approval).resolves.toEqual({
+    approved: true,
+    resolutions: { spotify: "replace" },
+    secrets: { spotify: { SPOTIFY_CLIENT_SECRET: "0123456789abcdef" } },
+  });
+  expect(() => respondInstallReview({ installId: "install-1", approved: true })).toThrow();
+
+  const controller = new AbortController();
+  const cancelledApproval = requestInstallReview(review, mainWindow, controller.signal);
+  controller.abort();
+  await expect(cancelledApproval).resolves.toEqual({ approved: false, resolutions: {} });
+
+  // nobody can approve an install without a window.
+  await expect(requestInstallReview(review)).resolves.toEqual({ approved: false, resolutions: {} });
+});
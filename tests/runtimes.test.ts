@@ -0,0 +1,74 @@
+import { expect, test, vi } from "vitest";
+import path from "node:path";
+import os from "node:os";
+
+import { MCPServerConfig } from "../src/main/claude";
+import { fixConfig, unfixConfig } from "../src/main/installer";
+import {
+  type RuntimeAdapter,
+  registerRuntimeAdapter,
+} from "../src/main/runtimes";
+
+vi.mock("node:fs", async (importOriginal) =>
+  (await import("./helpers/binaries")).mockBinaries(importOriginal)
+);
+
+vi.mock("electron", () => ({
+  app: {
+    isPackaged: false,
+  },
+}));
+
+const cacheDir = path.join(os.homedir(), ".iod", "bun", "cache");
+
+const bunxAdapter: RuntimeAdapter = {
+  name: "bunx",
+  binaries: ["bunx"],
+  commands: { bunx: { runs: "package" } },
+  rewriteArgv: ({ argv }) =>
+    argv[1] === "--bun" ? argv : [argv[0], "--bun", ...argv.slice(1)],
+  restoreArgv: ({ argv }) =>
+    argv[1] === "--bun" ? [argv[0], ...argv.slice(2)] : argv,
+  provisionEnv: ({ serverName }) => ({
+    BUN_INSTALL_CACHE_DIR: path.join(cacheDir, serverName),
+  }),
+  restoreEnv: (env) => {
+    const returnedEnv = { ...env };
+    delete returnedEnv.BUN_INSTALL_CACHE_DIR;
+    return returnedEnv;
+  },
+};
+
+test("a registered runtime adapts the configs it runs", () => {
+  registerRuntimeAdapter(bunxAdapter);
+  const config: MCPServerConfig = {
+    command: "bunx",
+    args: ["some-package", "--flag"],
+    env: { API_KEY: "key" },
+  };
+
+  const fixedConfig = fixConfig(config, "bun-server");
+  expect(path.isAbsolute(fixedConfig.command)).toBe(true);
+  expect(path.basename(fixedConfig.command, ".exe")).toBe("bunx");
+  expect(fixedConfig.args).toEqual(["--bun", "some-package", "--flag"]);
+  expect(fixedConfig.env).toEqual({
+    API_KEY: "key",
+    BUN_INSTALL_CACHE_DIR: path.join(cacheDir, "bun-server"),
+  });
+
+  expect(fixConfig(fixedConfig, "bun-server")).toEqual(fixedConfig);
+  expect(unfixConfig(fixedConfig)).toEqual({ config, repoDir: undefined });
+
+  // the other runtimes are left untouched.
+  const npxConfig = { command: "npx", args: ["npx", "other-package"], env: {} };
+  expect(fixConfig(npxConfig, "npx-server").env).toEqual({});
+});
+
+test("registerRuntimeAdapter rejects adapters conflicting with registered ones", () => {
+  expect(() =>
+    registerRuntimeAdapter({ ...bunxAdapter, name: "uv", binaries: [] })
+  ).toThrow();
+  expect(() =>
+    registerRuntimeAdapter({ ...bunxAdapter, name: "node", binaries: ["fnmx"] })
+  ).toThrow();
+});
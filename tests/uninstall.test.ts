@@ -0,0 +1,134 @@
+import { expect, test, vi, beforeEach } from "vitest";
+import { claudeConfigDir, claudeConfigPath } from "./helpers/home";
+import path from "node:path";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+
+vi.mock("electron", () => ({
+  app: {
+    isPackaged: false,
+  },
+}));
+
+const sharedRepoDir = path.join(homedir(), ".iod", "shared-repo");
+const ownRepoDir = path.join(homedir(), ".iod", "own-repo");
+
+function uvServer(repoDir: string) {
+  return {
+    command: "uv",
+    args: ["--directory", repoDir, "run", "server"],
+    env: {},
+  };
+}
+
+beforeEach(() => {
+  rmSync(homedir(), { recursive: true, force: true });
+  mkdirSync(claudeConfigDir, { recursive: true });
+  mkdirSync(sharedRepoDir, { recursive: true });
+  mkdirSync(ownRepoDir, { recursive: true });
+  writeFileSync(
+    claudeConfigPath,
+    JSON.stringify({
+      mcpServers: {
+        a: uvServer(sharedRepoDir),
+        b: uvServer(sharedRepoDir),
+        c: uvServer(ownRepoDir),
+      },
+    })
+  );
+  vi.resetModules();
+});
+
+test("keeps a clone used by another server", async () => {
+  const uninstaller = await import("../src/main/uninstaller");
+
+  expect(uninstaller.previewUninstall({ serverName: "a" })).toEqual({
+    removedPaths: [],
+    sharedPaths: [{ path: sharedRepoDir, usedBy: ["b"] }],
+  });
+
+  await uninstaller.uninstallMCPServer({ serverName: "a" });
+
+  expect(existsSync(sharedRepoDir)).toBe(true);
+  expect(
+    Object.keys(JSON.parse(readFileSync(claudeConfigPath, "utf8")).mcpServers)
+  ).toEqual(["b", "c"]);
+});
+
+test("removes the clone of the server when nothing else uses it", async () => {
+  const uninstaller = await import("../src/main/uninstaller");
+
+  expect(uninstaller.previewUninstall({ serverName: "c" })).toEqual({
+    removedPaths: [ownRepoDir],
+    sharedPaths: [],
+  });
+
+  await uninstaller.uninstallMCPServer({ serverName: "c" });
+
+  expect(existsSync(ownRepoDir)).toBe(false);
+  expect(existsSync(sharedRepoDir)).toBe(true);
+});
+
+test("waits for the installs queued before it to remove the clone", async () => {
+  const uninstaller = await import("../src/main/uninstaller");
+  const { runExclusive } = await import("../src/main/queue");
+  // an install cloning into the directory of the uninstalled server.
+  const finishInstall: (() => void)[] = [];
+  const install = runExclusive(
+    () => new Promise<void>((resolve) => finishInstall.push(resolve))
+  );
+
+  const uninstall = uninstaller.uninstallMCPServer({ serverName: "c" });
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  expect(existsSync(ownRepoDir)).toBe(true);
+
+  finishInstall[0]();
+  await install;
+  await uninstall;
+  expect(existsSync(ownRepoDir)).toBe(false);
+});
+
+test("keeps a monorepo clone used by a server of another subdirectory", async () => {
+  const monorepoDir = path.join(
+    homedir(),
+    ".iod",
+    "repos",
+    "github.com",
+    "modelcontextprotocol",
+    "servers",
+    "0123456789abcdef0123456789abcdef01234567"
+  );
+  mkdirSync(path.join(monorepoDir, ".git"), { recursive: true });
+  mkdirSync(path.join(monorepoDir, "src", "fetch"), { recursive: true });
+  mkdirSync(path.join(monorepoDir, "src", "git"), { recursive: true });
+  writeFileSync(
+    claudeConfigPath,
+    JSON.stringify({
+      mcpServers: {
+        fetch: uvServer(path.join(monorepoDir, "src", "fetch")),
+        git: uvServer(path.join(monorepoDir, "src", "git")),
+      },
+    })
+  );
+  const uninstaller = await import("../src/main/uninstaller");
+
+  expect(uninstaller.previewUninstall({ serverName: "fetch" })).toEqual({
+    removedPaths: [],
+    sharedPaths: [{ path: monorepoDir, usedBy: ["git"] }],
+  });
+
+  await uninstaller.uninstallMCPServer({ serverName: "fetch" });
+  await uninstaller.uninstallMCPServer({ serverName: "git" });
+
+  // the last server removes the whole clone and the directories left empty.
+  expect(existsSync(monorepoDir)).toBe(false);
+  expect(existsSync(path.join(homedir(), ".iod", "repos", "github.com"))).toBe(
+    false
+  );
+});
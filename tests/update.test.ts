@@ -0,0 +1,77 @@
+import { expect, test, vi, beforeEach } from "vitest";
+import { claudeConfigDir, claudeConfigPath } from "./helpers/home";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+
+const a = { command: "uvx", args: ["mcp-server-a"], env: { API_KEY: "old" } };
+const b = { command: "npx", args: ["mcp-server-b"], env: {} };
+
+function writeConfig(config: unknown) {
+  writeFileSync(claudeConfigPath, JSON.stringify(config, null, 2));
+}
+
+function readConfig() {
+  return JSON.parse(readFileSync(claudeConfigPath, "utf8"));
+}
+
+beforeEach(() => {
+  rmSync(homedir(), { recursive: true, force: true });
+  mkdirSync(claudeConfigDir, { recursive: true });
+  writeConfig({ mcpServers: { a, b } });
+  // claude.ts remembers the last config read at the module level.
+  vi.resetModules();
+});
+
+test("edits a server in place", async () => {
+  const claude = await import("../src/main/claude");
+  const editedA = { ...a, args: ["mcp-server-a", "--verbose"], env: { API_KEY: "new" } };
+
+  claude.updateMCPServer({ serverName: "a", serverConfig: editedA });
+
+  expect(readConfig()).toEqual({ mcpServers: { a: editedA, b } });
+  expect(() => claude.updateMCPServer({ serverName: "c", serverConfig: a })).toThrow(/not found/);
+});
+
+test("renames a server in place, with its install", async () => {
+  const claude = await import("../src/main/claude");
+  const manifest = await import("../src/main/manifest");
+  const installedA = { config: a, installedAt: "2025-01-01T00:00:00.000Z", appVersion: "1.0.0" };
+  manifest.recordInstall("a", installedA);
+
+  claude.updateMCPServer({ serverName: "a", serverConfig: a, newServerName: "c" });
+
+  expect(readConfig()).toEqual({ mcpServers: { c: a, b } });
+  expect(Object.keys(readConfig().mcpServers)).toEqual(["c", "b"]);
+  expect(manifest.getInstallManifest()).toEqual({ c: installedA });
+});
+
+test("does not rename a server onto the name of another server", async () => {
+  const claude = await import("../src/main/claude");
+
+  expect(() => claude.updateMCPServer({ serverName: "a", serverConfig: a, newServerName: "b" })).toThrow(
+    /already exists/
+  );
+  expect(readConfig()).toEqual({ mcpServers: { a, b } });
+
+  // the disabled servers keep their name too, they would collide once enabled.
+  claude.disableMCPServer({ serverName: "b" });
+  expect(() => claude.updateMCPServer({ serverName: "a", serverConfig: a, newServerName: "b" })).toThrow(
+    /already exists/
+  );
+  expect(readConfig()).toEqual({ mcpServers: { a } });
+});
+
+test("does not overwrite a server edited on disk since it was read", async () => {
+  const claude = await import("../src/main/claude");
+  const { ConfigConflictError } = await import("../src/shared/error");
+  claude.getMCPServers();
+
+  // the user edits the same server in a text editor.
+  const editedConfig = { mcpServers: { a: { ...a, env: { API_KEY: "from-disk" } }, b } };
+  writeConfig(editedConfig);
+
+  expect(() =>
+    claude.updateMCPServer({ serverName: "a", serverConfig: { ...a, env: { API_KEY: "from-iod" } } })
+  ).toThrow(ConfigConflictError);
+  expect(readConfig()).toEqual(editedConfig);
+});
@@ -0,0 +1,120 @@
+import { expect, test } from "vitest";
+
+import {
+  validateConfig,
+  validateConfigStructure,
+  repairConfig,
+  validateMCPServerConfig,
+} from "../src/main/validation";
+
+test("reports the line and column of a JSON syntax error", () => {
+  const content = '{\n  "mcpServers": {\n    "a": }\n}';
+
+  const [diagnostic] = validateConfig(content);
+
+  expect(diagnostic).toMatchObject({ severity: "error", line: 3, column: 10 });
+  expect(diagnostic.message).toMatch(/^Invalid JSON/);
+});
+
+test("reports schema errors with their path", () => {
+  const content = JSON.stringify({
+    mcpServers: {
+      a: { command: "uvx", args: "--quiet", env: { PORT: 8080 } },
+      b: { args: [] },
+    },
+  });
+
+  expect(validateConfig(content)).toEqual([
+    {
+      severity: "error",
+      message: "'args' of server 'a' must be an array.",
+      path: ["mcpServers", "a", "args"],
+    },
+    {
+      severity: "error",
+      message: "Env variable 'PORT' of server 'a' must be a string.",
+      path: ["mcpServers", "a", "env", "PORT"],
+    },
+    {
+      severity: "error",
+      message: "Server 'b' must have a 'command' string.",
+      path: ["mcpServers", "b", "command"],
+    },
+  ]);
+});
+
+test("validates the structure of a config without its server configs", () => {
+  expect(
+    validateConfigStructure(
+      JSON.stringify({ mcpServers: { a: { command: "uvx", env: { PORT: 8080 } } } })
+    )
+  ).toEqual([]);
+  expect(validateConfigStructure('{"mcpServers": []}')).toEqual([
+    {
+      severity: "error",
+      message: "'mcpServers' must be an object of server configs.",
+      path: ["mcpServers"],
+    },
+  ]);
+});
+
+test("accepts a valid config", () => {
+  const content = JSON.stringify({
+    mcpServers: { a: { command: "uvx", args: ["a,]"], env: { KEY: "value" } } },
+    otherField: true,
+  });
+
+  expect(validateConfig(content)).toEqual([]);
+});
+
+test("repairs trailing commas and a missing mcpServers field", () => {
+  const content = '{\n  "globalShortcut": "Ctrl+,",\n  "theme": ["dark",],\n}';
+
+  const repair = repairConfig(content);
+
+  expect(repair.fixes).toEqual([
+    "Removed 2 trailing comma(s).",
+    "Added the missing 'mcpServers' field.",
+  ]);
+  expect(JSON.parse(repair.content)).toEqual({
+    globalShortcut: "Ctrl+,",
+    theme: ["dark"],
+    mcpServers: {},
+  });
+  expect(repair.diagnostics).toEqual([]);
+});
+
+test("repairs args and env values of servers", () => {
+  const content = JSON.stringify({
+    mcpServers: { a: { command: "uvx", args: "serve", env: { PORT: 8080 } } },
+  });
+
+  const repair = repairConfig(content);
+
+  expect(JSON.parse(repair.content)).toEqual({
+    mcpServers: { a: { command: "uvx", args: ["serve"], env: { PORT: "8080" } } },
+  });
+  expect(repair.diagnostics).toEqual([]);
+});
+
+test("leaves issues it can't fix in the diagnostics", () => {
+  const repair = repairConfig('{"mcpServers": {"a": {"command": 1}}');
+
+  expect(repair.fixes).toEqual([]);
+  expect(repair.diagnostics[0].severity).toBe("error");
+});
+
+test("validates a single server config before it is written", () => {
+  expect(
+    validateMCPServerConfig("a", { command: "uvx", args: [], env: { "": "x" } })
+  ).toEqual([
+    {
+      severity: "error",
+      message: "Server 'a' has an env variable without a name.",
+      path: ["mcpServers", "a", "env", ""],
+    },
+  ]);
+  expect(
+    validateMCPServerConfig("a", { command: "uvx", args: ["--port", "80"], env: {} })
+  ).toEqual([]);
+});